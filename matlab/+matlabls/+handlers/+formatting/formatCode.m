@@ -4,13 +4,17 @@ function formattedCode = formatCode (code, startLine, endLine, options)
     %
     % Note: `startLine` and `endLine` should be provided as 0-based line numbers.
 
-    % Copyright 2025 The MathWorks, Inc.
+    % Copyright 2025 - 2026 The MathWorks, Inc.
 
     % Update settings (temporarily) for formatting
     s = settings;
     cleanupObj1 = setTemporaryValue(s.matlab.editor.tab.InsertSpaces, options.insertSpaces); %#ok<NASGU> 
     cleanupObj2 = setTemporaryValue(s.matlab.editor.tab.TabSize, options.tabSize); %#ok<NASGU>
     cleanupObj3 = setTemporaryValue(s.matlab.editor.tab.IndentSize, options.tabSize); %#ok<NASGU>
+    if isfield(options, 'functionIndent')
+        cleanupObj4 = setTemporaryValue(s.matlab.editor.language.matlab.FunctionIndentingFormat, ...
+            getFunctionIndentingFormat(options.functionIndent)); %#ok<NASGU>
+    end
 
     % Formatting logic expects 1-based line numbers
     formattedCode = doFormatLines(code, startLine + 1, endLine + 1, options);
@@ -100,6 +104,21 @@ function whitespaceStr = getWhitespaceStringOfLength (length, insertSpaces, tabS
     end
 end
 
+function format = getFunctionIndentingFormat (functionIndent)
+    % Maps the language server's function indenting modes to the values of
+    % the MATLAB editor's function indenting format setting
+    switch functionIndent
+        case {'classic', 'none'}
+            % Align function code with the function declaration
+            format = 'ClassicFunctionIndent';
+        case 'nested'
+            % Only indent nested functions
+            format = 'MixedFunctionIndent';
+        otherwise
+            format = 'AllFunctionIndent';
+    end
+end
+
 function cleanupObj = setTemporaryValue (setting, tempValue)
     if setting.hasTemporaryValue
         originalValue = setting.TemporaryValue;
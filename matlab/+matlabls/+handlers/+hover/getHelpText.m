@@ -0,0 +1,12 @@
+function helpText = getHelpText (name)
+    % GETHELPTEXT Retrieves the help text for the given name (e.g. "plot"),
+    % with any hyperlink markup removed.
+
+    % Copyright 2026 The MathWorks, Inc.
+
+    helpText = help(name);
+
+    % Strip the hyperlinks which MATLAB adds to "See also" lines and
+    % similar, keeping only the link text
+    helpText = regexprep(helpText, '<a\s+href="[^"]*">(.*?)</a>', '$1');
+end
@@ -1,15 +1,22 @@
-function parseInfoFromFolder (folders, analysisLimit, responseChannel)
+function fileCount = parseInfoFromFolder (folders, analysisLimit, responseChannel)
     % PARSEINFOFROMFOLDER Parses the MATLAB files in the provided folders and extracts
     % information about variables, functions, etc.
     %
     % Instead of returning the parsed results, this function will stream those results
     % over the response channel. This allows for these files to be processed without
     % blocking the MATLAB thread for the full duration.
+    %
+    % Returns the number of files which will be parsed. When there are no files, no
+    % results are sent over the response channel.
 
-    % Copyright 2025 The MathWorks, Inc.
+    % Copyright 2025 - 2026 The MathWorks, Inc.
 
     filesToParse = getAllMFilesToParse(folders);
-    parfeval(backgroundPool, @doParseFiles, 0, filesToParse, analysisLimit, responseChannel);
+    fileCount = numel(filesToParse);
+
+    if fileCount > 0
+        parfeval(backgroundPool, @doParseFiles, 0, filesToParse, analysisLimit, responseChannel);
+    end
 end
 
 function filesToParse = getAllMFilesToParse (folders)
@@ -44,10 +51,15 @@ function parseFile (filePath, isLastFile, analysisLimit, responseChannel)
     % Parses an individual file and publishes the results over the response channel.
     %
     % If the file to be parsed is the last file, an `isDone` flag on the results is
-    % set to true to indicate that the parsing process has completed.
+    % set to true to indicate that the parsing process has completed. This flag is
+    % sent even if the file cannot be parsed.
 
-    code = fileread(filePath);
-    codeData = matlabls.handlers.indexing.parseInfoFromDocument(code, filePath, analysisLimit);
+    try
+        code = fileread(filePath);
+        codeData = matlabls.handlers.indexing.parseInfoFromDocument(code, filePath, analysisLimit);
+    catch err
+        codeData.errorInfo = err.message;
+    end
 
     % Send data for this file
     msg.filePath = filePath;
@@ -1,9 +1,22 @@
-function lintData = getLintData(code, fileName)
+function lintData = getLintData(code, fileName, shouldIgnoreSuppressions, configFile)
     % GETLINTDATA Gathers linting data for the provided MATLAB® code.
+    %
+    % When shouldIgnoreSuppressions is true, messages are reported even when
+    % they are suppressed with %#ok pragmas. When configFile is not empty, the
+    % checks are enabled and disabled as specified by the Code Analyzer
+    % configuration file.
 
-    % Copyright 2025 The MathWorks, Inc.
+    % Copyright 2025 - 2026 The MathWorks, Inc.
 
-    lintData = checkcode('-text', code, fileName, '-id', '-severity', '-fix', '-string');
+    args = {'-id', '-severity', '-fix', '-string'};
+    if nargin > 2 && shouldIgnoreSuppressions
+        args{end + 1} = '-notok';
+    end
+    if nargin > 3 && strlength(configFile) > 0
+        args{end + 1} = ['-config=' char(configFile)];
+    end
+
+    lintData = checkcode('-text', code, fileName, args{:});
     lintData = split(deblank(lintData), newline);
     lintData(cellfun(@isempty, lintData)) = [];
 end
@@ -0,0 +1,38 @@
+function resolvedPathsJson = resolveNameToAllPaths(names)
+    % RESOLVENAMETOALLPATHS Resolves each name (e.g. "plot") to every file path which
+    % defines that name, in order of precedence. This is equivalent to "which -all",
+    % excluding class methods and private functions.
+    %
+    % The result is JSON-encoded, containing a list of paths for each name. Each path
+    % indicates whether it belongs to a function which ships with MATLAB.
+
+    % Copyright 2026 The MathWorks, Inc.
+
+    names = cellstr(names);
+    resolvedPaths = cell(size(names));
+
+    for i = 1:numel(names)
+        resolvedPaths{i} = resolveAllPaths(names{i});
+    end
+
+    resolvedPathsJson = jsonencode(resolvedPaths);
+end
+
+function resolvedPaths = resolveAllPaths (name)
+    paths = which(name, '-all');
+
+    % Built-in functions are reported as "built-in (path)"
+    paths = regexprep(paths, '^built-in \((.*)\)$', '$1');
+
+    % Class methods and private functions are only called in a limited context,
+    % so they do not conflict with the name
+    isExcluded = strcmp(paths, 'variable') | ...
+        contains(paths, [filesep '@']) | ...
+        contains(paths, [filesep 'private' filesep]);
+    paths = paths(~isExcluded);
+
+    resolvedPaths = cellfun(@(path) struct( ...
+        'path', path, ...
+        'isMatlabFunction', startsWith(path, matlabroot)), ...
+        reshape(paths, 1, []), 'UniformOutput', false);
+end
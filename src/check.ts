@@ -0,0 +1,122 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { PassThrough } from 'stream'
+import { DiagnosticSeverity } from 'vscode-languageserver'
+import {
+    createConnection, createMessageConnection, ProposedFeatures, StreamMessageReader, StreamMessageWriter, WorkspaceFolder, WorkspaceFoldersRequest
+} from 'vscode-languageserver/node'
+import { URI } from 'vscode-uri'
+import ClientConnection, { Connection } from './ClientConnection'
+import MatlabLifecycleManager from './lifecycle/MatlabLifecycleManager'
+import Logger from './logging/Logger'
+import MVM from './mvm/impl/MVM'
+import LintingSupportProvider from './providers/linting/LintingSupportProvider'
+import { createLintReport, LintReportFormat } from './providers/linting/LintReports'
+
+export enum CheckExitCode {
+    Success = 0,
+    ErrorsFound = 1,
+    Failed = 2
+}
+
+/**
+ * Runs Code Analyzer on the MATLAB code files in a folder, and writes a report of
+ * the results to stdout. This allows the diagnostics reported in editors to also
+ * be used in batch workflows, such as pre-commit hooks.
+ *
+ * By default, the code is linted using the mlint executable from the MATLAB installation
+ * (specified with --matlabInstallPath, or found based on the location of the `matlab`
+ * executable on the system path). When MATLAB should be used, MATLAB is started to lint
+ * the code, which gives the same results as in editors connected to MATLAB. If MATLAB
+ * cannot be started, the mlint executable is used instead.
+ *
+ * @param folder The path of the folder to check
+ * @param format The format of the report
+ * @param shouldUseMatlab Whether MATLAB should be started to lint the code
+ * @returns The exit code, which is non-zero if any errors were found or if the
+ *     code could not be linted
+ */
+export async function runCheck (folder: string, format: LintReportFormat, shouldUseMatlab = false): Promise<CheckExitCode> {
+    const folderPath = path.resolve(folder)
+
+    try {
+        if (!(await fs.stat(folderPath)).isDirectory()) {
+            process.stderr.write(`Not a folder: ${folderPath}\n`)
+            return CheckExitCode.Failed
+        }
+    } catch {
+        process.stderr.write(`Folder not found: ${folderPath}\n`)
+        return CheckExitCode.Failed
+    }
+
+    const matlabLifecycleManager = new MatlabLifecycleManager()
+    const mvm = new MVM(matlabLifecycleManager, Logger)
+    const lintingSupportProvider = new LintingSupportProvider(matlabLifecycleManager, mvm)
+
+    if (shouldUseMatlab && !(await startMatlab(matlabLifecycleManager, mvm, folderPath))) {
+        process.stderr.write('Unable to start MATLAB. Using the mlint executable instead.\n')
+    }
+
+    try {
+        if (!(await lintingSupportProvider.isLintingAvailable())) {
+            process.stderr.write('Unable to find the mlint executable. Specify the MATLAB installation with --matlabInstallPath.\n')
+            return CheckExitCode.Failed
+        }
+
+        const results = await lintingSupportProvider.lintFolders([folderPath])
+        process.stdout.write(`${createLintReport(results, format, folderPath)}\n`)
+
+        const hasErrors = results.some(result => result.diagnostics.some(diagnostic => diagnostic.severity === DiagnosticSeverity.Error))
+        return hasErrors ? CheckExitCode.ErrorsFound : CheckExitCode.Success
+    } finally {
+        matlabLifecycleManager.disconnectFromMatlab()
+    }
+}
+
+/**
+ * Starts MATLAB, and waits until it is ready to lint code.
+ *
+ * @param matlabLifecycleManager The MATLAB lifecycle manager
+ * @param mvm The MVM, through which code is linted
+ * @param folderPath The path of the folder being checked, in which MATLAB is started
+ * @returns True if MATLAB was started, false otherwise
+ */
+async function startMatlab (matlabLifecycleManager: MatlabLifecycleManager, mvm: MVM, folderPath: string): Promise<boolean> {
+    // MATLAB is launched and reports its status through the client connection
+    ClientConnection._setConnection(createCheckConnection(folderPath))
+
+    try {
+        await matlabLifecycleManager.connectToMatlab()
+        await mvm.waitUntilReady()
+        return true
+    } catch (err) {
+        Logger.error(`Error starting MATLAB to check code: ${err as string}`)
+        return false
+    }
+}
+
+/**
+ * Creates a connection standing in for an editor, as no editor is connected when
+ * checking code. The connected "client" reports the checked folder as the only
+ * workspace folder, and discards notifications.
+ *
+ * @param folderPath The path of the folder being checked
+ * @returns The connection
+ */
+function createCheckConnection (folderPath: string): Connection {
+    const clientToServer = new PassThrough()
+    const serverToClient = new PassThrough()
+
+    const client = createMessageConnection(new StreamMessageReader(serverToClient), new StreamMessageWriter(clientToServer))
+    client.onRequest(WorkspaceFoldersRequest.type, (): WorkspaceFolder[] => [
+        { uri: URI.file(folderPath).toString(), name: path.basename(folderPath) }
+    ])
+    client.listen()
+
+    const connection = createConnection(ProposedFeatures.all, new StreamMessageReader(clientToServer), new StreamMessageWriter(serverToClient))
+    connection.listen()
+
+    return connection
+}
@@ -1,11 +1,25 @@
-// Copyright 2022 - 2024 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
-// Start up the LSP server
 import ClientConnection from './ClientConnection'
+import * as check from './check'
 import * as server from './server'
+import { Argument } from './lifecycle/ConfigurationManager'
+import { LintReportFormat } from './providers/linting/LintReports'
+import { getCliArgs } from './utils/CliUtils'
 
-// Start up the language server
-void server.startServer()
+const cliArgs = getCliArgs()
+const checkFolder = cliArgs[Argument.CheckFolder]
 
-// Listen on the client connection
-ClientConnection.getConnection().listen()
+if (checkFolder != null) {
+    // Lint the folder and exit, rather than running as an LSP server
+    const format = cliArgs[Argument.CheckFormat] as LintReportFormat
+    void check.runCheck(checkFolder, format, cliArgs[Argument.CheckWithMatlab] === true).then(exitCode => {
+        process.exit(exitCode)
+    })
+} else {
+    // Start up the language server
+    void server.startServer()
+
+    // Listen on the client connection
+    ClientConnection.getConnection().listen()
+}
@@ -1,4 +1,4 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { TextDocument } from 'vscode-languageserver-textdocument'
 import Indexer from './Indexer'
@@ -30,7 +30,7 @@ export default class DocumentIndexer {
         this.pendingFilesToIndex.set(
             uri,
             setTimeout(() => {
-                this.indexDocument(textDocument)
+                void this.indexDocument(textDocument)
             }, INDEXING_DELAY) // Specify timeout for debouncing, to avoid re-indexing every keystroke while a user types
         )
     }
@@ -40,8 +40,8 @@ export default class DocumentIndexer {
      *
      * @param textDocument The document being indexed
      */
-    indexDocument (textDocument: TextDocument): void {
-        void this.indexer.indexDocument(textDocument)
+    async indexDocument (textDocument: TextDocument): Promise<void> {
+        await this.indexer.indexDocument(textDocument)
     }
 
     /**
@@ -1,4 +1,4 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { Range } from 'vscode-languageserver'
 import Logger from '../logging/Logger'
@@ -24,7 +24,7 @@ export interface CodeInfo {
 /**
  * Representation of the global scope of a file
  */
-interface GlobalScope {
+export interface GlobalScope {
     variableDefinitions: RawIdentifier[]
     variableReferences: RawIdentifier[]
     functionOrUnboundReferences: RawFunctionOrUnboundIdentifier[]
@@ -42,7 +42,7 @@ interface NamedScope {
 /**
  * Representation of a class definition
  */
-interface ClassDefinition extends NamedScope {
+export interface ClassDefinition extends NamedScope {
     baseClasses: RawNamedRange[]
     propertiesBlocks: RawNamedRange[]
     enumerationsBlocks: RawNamedRange[]
@@ -55,7 +55,7 @@ interface ClassDefinition extends NamedScope {
 /**
  * Representation of a function
  */
-interface FunctionDefinition extends NamedScope {
+export interface FunctionDefinition extends NamedScope {
     isPrototype: boolean
     variableDefinitions: RawIdentifier[]
     variableReferences: RawIdentifier[]
@@ -69,26 +69,26 @@ interface FunctionDefinition extends NamedScope {
 }
 
 /**** Define "Raw" interfaces to define the structure coming from `computeCodeData` ****/
-type RangeArray = [startLine: number, startCharacter: number, endLine: number, endCharacter: number]
+export type RangeArray = [startLine: number, startCharacter: number, endLine: number, endCharacter: number]
 
-interface RawNamedRange {
+export interface RawNamedRange {
     name: string
     range: RangeArray
 }
 
-interface RawIdentifier extends RawNamedRange {
+export interface RawIdentifier extends RawNamedRange {
     components: RawNamedRange[]
 }
 
-interface RawFunctionOrUnboundIdentifier extends RawIdentifier {
+export interface RawFunctionOrUnboundIdentifier extends RawIdentifier {
     firstArgIdName?: string
 }
 
-interface RawScopedNamedRange extends RawNamedRange {
+export interface RawScopedNamedRange extends RawNamedRange {
     isPublic: boolean
 }
 
-interface RawSectionInfo extends RawNamedRange {
+export interface RawSectionInfo extends RawNamedRange {
     isExplicit: boolean
 }
 
@@ -175,6 +175,16 @@ class FileInfoIndex {
     readonly codeInfoCache = new Map<string, MatlabCodeInfo>() // Maps URI to code info
     private readonly classInfoMap = new Map<string, MatlabClassInfo>() // Maps URI of classdef to class info
 
+    private _version = 0
+
+    /**
+     * A counter which is incremented whenever the index changes. Data derived from
+     * the index only needs to be recomputed when the version has changed.
+     */
+    get version (): number {
+        return this._version
+    }
+
     parseAndStoreCodeInfo (uri: string, rawCodeInfo: CodeInfo): MatlabCodeInfo {
         let associatedClassInfo: MatlabClassInfo | undefined = undefined
         if (rawCodeInfo.hasClassInfo) {
@@ -193,6 +203,7 @@ class FileInfoIndex {
 
         const parsedCodeInfo = new MatlabCodeInfo(uri, rawCodeInfo, associatedClassInfo)
         this.codeInfoCache.set(uri, parsedCodeInfo)
+        this._version++
 
         return parsedCodeInfo
     }
@@ -440,6 +451,35 @@ export type FunctionContainer =
     | MatlabFunctionScopeInfo
     | MatlabClassInfo
 
+/**
+ * Gets all of the function scopes declared within a file, including class
+ * methods defined in the classdef and nested or local functions.
+ *
+ * @param codeInfo The file's code info
+ * @returns The function scopes within the file, in depth-first order
+ */
+export function getAllFunctionScopes (codeInfo: MatlabCodeInfo): MatlabFunctionScopeInfo[] {
+    const functionScopes: MatlabFunctionScopeInfo[] = []
+    getAllFunctionScopesAcc(codeInfo.globalScopeInfo, functionScopes)
+    return functionScopes
+}
+
+function getAllFunctionScopesAcc (scope: FunctionContainer, functionScopes: MatlabFunctionScopeInfo[]): void {
+    if (scope instanceof MatlabGlobalScopeInfo && scope.classScope != null) {
+        getAllFunctionScopesAcc(scope.classScope, functionScopes)
+    }
+
+    for (const functionInfo of scope.functionScopes.values()) {
+        const functionScopeInfo = functionInfo.functionScopeInfo
+        // Methods of a class are only included if they are defined in the classdef file
+        const isInFile = !(scope instanceof MatlabClassInfo) || functionScopeInfo?.parentScope instanceof MatlabClassdefInfo
+        if (functionScopeInfo != null && isInFile) {
+            functionScopes.push(functionScopeInfo)
+            getAllFunctionScopesAcc(functionScopeInfo, functionScopes)
+        }
+    }
+}
+
 export interface ReferenceInfo<T extends NamedRange> {
     references: T[]
 }
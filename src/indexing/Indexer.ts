@@ -1,4 +1,4 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { TextDocument } from 'vscode-languageserver-textdocument'
 import { URI } from 'vscode-uri'
@@ -6,10 +6,12 @@ import MatlabLifecycleManager from '../lifecycle/MatlabLifecycleManager'
 import FileInfoIndex, { CodeInfo, MatlabClassInfo } from './FileInfoIndex'
 import * as fs from 'fs/promises'
 import ConfigurationManager from '../lifecycle/ConfigurationManager'
-import MVM from '../mvm/impl/MVM'
+import MVM, { IMVM, MatlabMVMConnectionState } from '../mvm/impl/MVM'
 import Logger from '../logging/Logger'
 import parse from '../mvm/MdaParser'
 import * as FileNameUtils from '../utils/FileNameUtils'
+import { findMFilesInFolder } from '../utils/FsUtils'
+import { getOfflineCodeInfo } from './OfflineCodeInfo'
 
 interface WorkspaceFileIndexedResponse {
     isDone: boolean
@@ -27,16 +29,12 @@ export default class Indexer {
     ) {}
 
     /**
-     * Indexes the given TextDocument and caches the data.
+     * Indexes the given TextDocument and caches the data. When MATLAB is not
+     * available, the document is parsed without MATLAB.
      *
      * @param textDocument The document being indexed
      */
     async indexDocument (textDocument: TextDocument): Promise<void> {
-        if (!this.mvm.isReady()) {
-            // MVM not yet ready
-            return
-        }
-
         const codeInfo = await this.getCodeInfo(textDocument.getText(), textDocument.uri)
 
         if (codeInfo === null) {
@@ -64,14 +62,18 @@ export default class Indexer {
     }
 
     /**
-     * Indexes all M files within the given list of folders.
+     * Indexes all M files within the given list of folders. When MATLAB is not
+     * available, the files are parsed without MATLAB.
      *
      * @param folders A list of folder URIs to be indexed
+     * @returns A promise which resolves once every file has been indexed, or once
+     *     indexing has stopped due to an error or MATLAB disconnecting
      */
     async indexFolders (folders: string[]): Promise<void> {
         const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection()
 
         if (matlabConnection == null || !this.mvm.isReady()) {
+            await this.indexFoldersWithoutMatlab(folders)
             return
         }
 
@@ -80,21 +82,63 @@ export default class Indexer {
 
         const analysisLimit = (await ConfigurationManager.getConfiguration()).maxFileSizeForAnalysis
 
-        const responseSub = matlabConnection.subscribe(responseChannel, message => {
-            const fileResults = message as WorkspaceFileIndexedResponse
+        await new Promise<void>(resolve => {
+            let isFinished = false
 
-            if (fileResults.isDone) {
-                // No more files being indexed - safe to unsubscribe
+            const finish = (): void => {
+                if (isFinished) {
+                    return
+                }
+                isFinished = true
                 matlabConnection.unsubscribe(responseSub)
+                this.mvm.off(IMVM.Events.stateChange, handleStateChange)
+                resolve()
             }
 
-            if (fileResults.codeData.errorInfo === undefined) {
-                // Convert file path to URI, which is used as an index when storing the code data
-                const fileUri = URI.file(fileResults.filePath).toString()
-                this.fileInfoIndex.parseAndStoreCodeInfo(fileUri, fileResults.codeData)
+            // The results for the remaining files will not be received if MATLAB disconnects
+            const handleStateChange = (state: MatlabMVMConnectionState): void => {
+                if (state === MatlabMVMConnectionState.DISCONNECTED) {
+                    Logger.warn('MATLAB disconnected while indexing folders. Not all files may have been indexed successfully.')
+                    finish()
+                }
             }
+
+            const responseSub = matlabConnection.subscribe(responseChannel, message => {
+                const fileResults = message as WorkspaceFileIndexedResponse
+
+                if (fileResults.codeData.errorInfo === undefined) {
+                    // Convert file path to URI, which is used as an index when storing the code data
+                    const fileUri = URI.file(fileResults.filePath).toString()
+                    this.fileInfoIndex.parseAndStoreCodeInfo(fileUri, fileResults.codeData)
+                }
+
+                if (fileResults.isDone) {
+                    // No more files being indexed
+                    finish()
+                }
+            })
+
+            this.mvm.on(IMVM.Events.stateChange, handleStateChange)
+
+            void this.requestFolderIndexing(folders, analysisLimit, responseChannel).then(fileCount => {
+                // No results are sent when there are no files, or when MATLAB failed to start indexing
+                if (fileCount === 0) {
+                    finish()
+                }
+            })
         })
+    }
 
+    /**
+     * Requests that MATLAB indexes all M files within the given list of folders. The
+     * results are sent over the response channel.
+     *
+     * @param folders A list of folder URIs to be indexed
+     * @param analysisLimit The maximum file size for analysis
+     * @param responseChannel The channel over which the results are sent
+     * @returns The number of files being indexed, which is 0 if an error occurred
+     */
+    private async requestFolderIndexing (folders: string[], analysisLimit: number, responseChannel: string): Promise<number> {
         try {
             const mdaFolders = {
                 mwtype: 'string',
@@ -104,7 +148,7 @@ export default class Indexer {
 
             const response = await this.mvm.feval(
                 'matlabls.handlers.indexing.parseInfoFromFolder',
-                0,
+                1,
                 [mdaFolders, analysisLimit, responseChannel]
             )
 
@@ -112,26 +156,25 @@ export default class Indexer {
                 Logger.error('Error received while indexing folders:')
                 Logger.error(response.error.msg)
                 Logger.warn('Not all files may have been indexed successfully.')
-                matlabConnection.unsubscribe(responseSub)
+                return 0
             }
+
+            return parse(response.result[0]) as number
         } catch (err) {
             Logger.error('Error caught while indexing folders:')
             Logger.error(err as string)
             Logger.warn('Not all files may have been indexed successfully.')
+            return 0
         }
     }
 
     /**
-     * Indexes the file for the given URI and caches the data.
+     * Indexes the file for the given URI and caches the data. When MATLAB is not
+     * available, the file is parsed without MATLAB.
      *
      * @param uri The URI for the file being indexed
      */
     async indexFile (uri: string): Promise<void> {
-        if (!this.mvm.isReady()) {
-            // MVM not yet ready
-            return
-        }
-
         const filePath = FileNameUtils.getFilePathFromUri(uri)
         const fileContentBuffer = await fs.readFile(filePath)
         const code = fileContentBuffer.toString()
@@ -144,8 +187,29 @@ export default class Indexer {
         this.fileInfoIndex.parseAndStoreCodeInfo(uri, codeInfo)
     }
 
+    /**
+     * Indexes all M files within the given list of folders without MATLAB.
+     *
+     * @param folders A list of folder URIs to be indexed
+     */
+    private async indexFoldersWithoutMatlab (folders: string[]): Promise<void> {
+        for (const folder of folders) {
+            const filePaths = await findMFilesInFolder(URI.parse(folder).fsPath)
+
+            for (const filePath of filePaths) {
+                try {
+                    await this.indexFile(URI.file(filePath).toString())
+                } catch (err) {
+                    Logger.error(`Error caught while indexing file ${filePath}:`)
+                    Logger.error(err as string)
+                }
+            }
+        }
+    }
+
     /**
      * Retrieves data about classes, functions, and variables from the given document.
+     * When MATLAB is not available, the document is parsed without MATLAB.
      *
      * @param code The code being parsed
      * @param uri The URI associated with the code
@@ -156,6 +220,13 @@ export default class Indexer {
         const filePath = FileNameUtils.getFilePathFromUri(uri)
         const analysisLimit = (await ConfigurationManager.getConfiguration()).maxFileSizeForAnalysis
 
+        if (!this.mvm.isReady()) {
+            if (analysisLimit > 0 && code.length > analysisLimit) {
+                return null
+            }
+            return getOfflineCodeInfo(code, uri)
+        }
+
         try {
             const response = await this.mvm.feval(
                 'matlabls.handlers.indexing.parseInfoFromDocument',
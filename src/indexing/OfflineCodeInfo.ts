@@ -0,0 +1,787 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import * as path from 'path'
+import {
+    ClassDefinition, CodeInfo, FunctionDefinition, GlobalScope, RangeArray, RawFunctionOrUnboundIdentifier,
+    RawIdentifier, RawNamedRange, RawScopedNamedRange, RawSectionInfo
+} from './FileInfoIndex'
+import { doFunctionsHaveEnd, getBlockKeyword } from '../utils/CodeBlockUtils'
+import { isSectionHeader, splitLines, Token, tokenize, TokenType } from '../utils/MatlabLexer'
+import * as FileNameUtils from '../utils/FileNameUtils'
+
+/**
+ * Computes the same data about classes, functions, and variables that MATLAB provides
+ * for a file (see `FileInfoIndex`), without MATLAB.
+ *
+ * This handles the common subset of the language. Names which are assigned anywhere
+ * within a function (or script) are treated as variables throughout that function, and
+ * all other names are treated as function calls or unbound references.
+ *
+ * @param code The code being parsed
+ * @param uri The URI associated with the code
+ * @returns The code data
+ */
+export function getOfflineCodeInfo (code: string, uri: string): CodeInfo {
+    return new OfflineCodeInfoParser(code, uri).parse()
+}
+
+// Token types which do not contain code
+const NON_CODE_TOKEN_TYPES = new Set([TokenType.Comment, TokenType.BlockComment, TokenType.Continuation])
+
+// Statement types which open a block within a class definition
+const CLASS_BLOCK_KEYWORDS = new Set(['properties', 'methods', 'events', 'enumeration'])
+
+/**
+ * The data collected about a function or script while parsing
+ */
+interface ScopeData {
+    definition: FunctionDefinition | GlobalScope
+    // The enclosing function, for nested functions
+    parent?: ScopeData
+    // The statements within the body of the scope, from which references are gathered
+    statements: Token[][]
+    // The names of the variables within the scope
+    variableNames: Set<string>
+    // The variable definitions, grouped in the order in which they are reported
+    globalDefinitions: RawIdentifier[]
+    inputDefinitions: RawIdentifier[]
+    outputDefinitions: RawIdentifier[]
+    assignmentDefinitions: RawIdentifier[]
+    loopDefinitions: RawIdentifier[]
+}
+
+/**
+ * A block which is open while parsing
+ */
+interface OpenBlock {
+    keyword: string
+    // The function scope, for function blocks
+    scope?: ScopeData
+    // The range of the block, which is updated when the block is closed
+    range: RangeArray
+    attributes: Map<string, string>
+}
+
+class OfflineCodeInfoParser {
+    private readonly lineTexts: string[]
+    private readonly lines: Token[][]
+    private readonly filePath: string
+
+    private readonly globalScopeDefinition: GlobalScope = {
+        variableDefinitions: [],
+        variableReferences: [],
+        functionOrUnboundReferences: [],
+        globals: [],
+        functionScopes: []
+    }
+
+    private readonly globalScope = createScopeData(this.globalScopeDefinition)
+    private readonly functionScopes: ScopeData[] = []
+    private readonly openBlocks: OpenBlock[] = []
+
+    private classDefinition?: ClassDefinition
+    // The names of the class and its base classes, which are reported as class references
+    private readonly classNames = new Set<string>()
+    private readonly classReferences: RawNamedRange[] = []
+
+    // Statements within "arguments" blocks, which do not use command syntax
+    private readonly argumentsStatements = new Set<Token[]>()
+
+    constructor (code: string, uri: string) {
+        this.lineTexts = splitLines(code)
+        this.lines = tokenize(code)
+        this.filePath = FileNameUtils.getFilePathFromUri(uri)
+    }
+
+    parse (): CodeInfo {
+        const functionsHaveEnd = doFunctionsHaveEnd(this.lines)
+        let previousToken: Token | undefined
+
+        for (const statement of getStatements(this.lines)) {
+            if (statement[0].text === 'function' && statement[0].type === TokenType.Keyword && !functionsHaveEnd && previousToken != null) {
+                // The previous function ends before this function
+                while (this.openBlocks.length > 0) {
+                    this.closeBlock(previousToken)
+                }
+            }
+
+            this.parseStatement(statement)
+            previousToken = statement[statement.length - 1]
+        }
+
+        // Close any blocks which are not terminated
+        const lastToken = previousToken
+        if (lastToken != null) {
+            while (this.openBlocks.length > 0) {
+                this.closeBlock(lastToken)
+            }
+        }
+
+        for (const scope of [this.globalScope, ...this.functionScopes]) {
+            this.gatherReferences(scope)
+        }
+
+        return this.createCodeInfo()
+    }
+
+    private parseStatement (statement: Token[]): void {
+        const firstToken = statement[0]
+        const openBlock = this.openBlocks[this.openBlocks.length - 1]
+
+        if (firstToken.type === TokenType.Keyword && firstToken.text === 'end') {
+            if (openBlock != null) {
+                this.closeBlock(firstToken)
+            }
+            return
+        }
+
+        const keyword = getBlockKeyword(this.lines, firstToken.line, this.lines[firstToken.line].indexOf(firstToken), openBlock?.keyword)
+
+        if (keyword === 'function') {
+            this.parseFunction(statement.slice(1), firstToken, false)
+        } else if (keyword === 'classdef') {
+            this.parseClassdef(statement)
+        } else if (keyword != null && CLASS_BLOCK_KEYWORDS.has(keyword)) {
+            this.parseClassBlock(keyword, statement)
+        } else if (keyword != null) {
+            this.openBlocks.push(createOpenBlock(keyword, statement))
+            if (keyword === 'arguments') {
+                return
+            }
+            this.parseCodeStatement(statement)
+        } else {
+            this.parseStatementInBlock(statement, openBlock)
+        }
+    }
+
+    /**
+     * Parses a statement which does not open or close a block.
+     */
+    private parseStatementInBlock (statement: Token[], openBlock: OpenBlock | undefined): void {
+        const firstToken = statement[0]
+
+        switch (openBlock?.keyword) {
+            case 'properties':
+            case 'enumeration':
+                if (firstToken.type === TokenType.Identifier && this.classDefinition != null) {
+                    const member: RawScopedNamedRange = {
+                        ...createNamedRange(firstToken),
+                        isPublic: openBlock.keyword === 'enumeration' || isPublic(openBlock.attributes, ['getaccess', 'access'])
+                    }
+                    const members = openBlock.keyword === 'properties' ? this.classDefinition.properties : this.classDefinition.enumerations
+                    members.push(member)
+                }
+                return
+            case 'methods':
+                // Method signatures without implementations (e.g. abstract methods)
+                this.parseFunction(statement, firstToken, true)
+                this.closeBlock(statement[statement.length - 1])
+                return
+            case 'arguments':
+                this.getCurrentScope()?.statements.push(statement)
+                this.argumentsStatements.add(statement)
+                return
+            case 'classdef':
+            case 'events':
+                return
+            default:
+                this.parseCodeStatement(statement)
+        }
+    }
+
+    /**
+     * Parses a statement of executable code, recording any variables it defines.
+     */
+    private parseCodeStatement (statement: Token[]): void {
+        const scope = this.getCurrentScope()
+        if (scope == null) {
+            return
+        }
+
+        scope.statements.push(statement)
+
+        const firstToken = statement[0]
+        if (firstToken.type === TokenType.Keyword) {
+            this.parseKeywordStatement(scope, statement)
+            return
+        }
+
+        const assignmentIndex = statement.findIndex(token => token.type === TokenType.Operator && token.text === '=' && token.bracketDepth === 0)
+        if (assignmentIndex < 0) {
+            return
+        }
+
+        if (firstToken.text === '[') {
+            // Multiple assignment (e.g. "[a, b] = deal(1, 2)")
+            for (let index = 1; index < assignmentIndex; index++) {
+                const token = statement[index]
+                if (token.type === TokenType.Identifier && token.bracketDepth === 1 && statement[index - 1].text !== '.') {
+                    const { identifier, nextIndex } = getIdentifier(statement, index)
+                    addDefinition(scope, scope.assignmentDefinitions, identifier)
+                    index = nextIndex - 1
+                }
+            }
+        } else if (firstToken.type === TokenType.Identifier) {
+            addDefinition(scope, scope.assignmentDefinitions, getIdentifier(statement, 0).identifier)
+        }
+    }
+
+    /**
+     * Records the variables defined by statements which begin with keywords (e.g. loop
+     * variables and global variables).
+     */
+    private parseKeywordStatement (scope: ScopeData, statement: Token[]): void {
+        const identifierTokens = statement.filter(token => token.type === TokenType.Identifier)
+
+        switch (statement[0].text) {
+            case 'for':
+            case 'parfor':
+                if (identifierTokens.length > 0) {
+                    const index = statement.indexOf(identifierTokens[0])
+                    addDefinition(scope, scope.loopDefinitions, getIdentifier(statement, index).identifier)
+                }
+                break
+            case 'global':
+                for (const token of identifierTokens) {
+                    scope.definition.globals.push(token.text)
+                    addDefinition(scope, scope.globalDefinitions, createIdentifier(token))
+                }
+                break
+            case 'persistent':
+                identifierTokens.forEach(token => addDefinition(scope, scope.assignmentDefinitions, createIdentifier(token)))
+                break
+            case 'catch':
+                // The exception variable (e.g. "catch ME")
+                if (statement.length === 2 && identifierTokens.length === 1) {
+                    addDefinition(scope, scope.assignmentDefinitions, createIdentifier(identifierTokens[0]))
+                }
+                break
+        }
+    }
+
+    /**
+     * Parses a function declaration, or a method signature within a "methods" block.
+     *
+     * @param signature The tokens of the declaration, excluding the "function" keyword
+     * @param startToken The first token of the function
+     * @param isPrototype Whether this is a method signature without an implementation
+     */
+    private parseFunction (signature: Token[], startToken: Token, isPrototype: boolean): void {
+        const assignmentIndex = signature.findIndex(token => token.text === '=' && token.bracketDepth === 0)
+        const nameIndex = assignmentIndex + 1
+        const parentBlock = this.openBlocks[this.openBlocks.length - 1]
+        const parentScope = this.getCurrentScope()
+
+        // Push the block before any early return, so that it is closed by its "end"
+        const block = createOpenBlock('function', [startToken])
+        this.openBlocks.push(block)
+
+        if (signature[nameIndex]?.type !== TokenType.Identifier) {
+            return
+        }
+
+        const { identifier: name, nextIndex } = getIdentifier(signature, nameIndex)
+        const outputTokens = signature.slice(0, Math.max(assignmentIndex, 0)).filter(token => token.type === TokenType.Identifier)
+        const inputTokens = signature[nextIndex]?.text === '('
+            ? signature.slice(nextIndex + 1).filter(token => token.type === TokenType.Identifier && token.bracketDepth === 1)
+            : []
+
+        const isMethod = parentBlock?.keyword === 'methods'
+        const definition: FunctionDefinition = {
+            declarationNameId: { name: name.name, range: name.range },
+            range: block.range,
+            isPublic: isMethod ? isPublic(parentBlock.attributes, ['access']) : this.isPublicFunction(name.name, parentBlock),
+            isPrototype,
+            variableDefinitions: [],
+            variableReferences: [],
+            functionOrUnboundReferences: [],
+            globals: [],
+            nestedScopes: [],
+            isConstructor: isMethod && name.name === this.classDefinition?.declarationNameId.name,
+            isStaticMethod: isMethod && isTrue(parentBlock.attributes, 'static'),
+            inputArgs: inputTokens.map(token => token.text),
+            outputArgs: outputTokens.map(token => token.text)
+        }
+
+        const scope = createScopeData(definition, parentBlock?.keyword === 'function' ? parentScope ?? undefined : undefined)
+        inputTokens.forEach(token => addDefinition(scope, scope.inputDefinitions, createIdentifier(token)))
+        outputTokens.forEach(token => addDefinition(scope, scope.outputDefinitions, createIdentifier(token)))
+        scope.definition.variableReferences.push(...[...outputTokens, ...inputTokens].map(createIdentifier))
+
+        block.scope = scope
+        this.functionScopes.push(scope)
+
+        if (scope.parent != null) {
+            (scope.parent.definition as FunctionDefinition).nestedScopes.push(definition)
+        } else if (isMethod && this.classDefinition != null) {
+            this.classDefinition.nestedScopes.push(definition)
+        } else {
+            this.globalScopeDefinition.functionScopes.push(definition)
+        }
+    }
+
+    /**
+     * Determines whether a function outside of a class definition is public. Only the
+     * main function of a function file, whose name matches the file name, is public.
+     */
+    private isPublicFunction (name: string, parentBlock: OpenBlock | undefined): boolean {
+        const isMainFunction = parentBlock == null &&
+            this.classDefinition == null &&
+            this.globalScopeDefinition.functionScopes.length === 0
+
+        return isMainFunction && name === path.parse(this.filePath).name
+    }
+
+    private parseClassdef (statement: Token[]): void {
+        this.openBlocks.push(createOpenBlock('classdef', statement))
+
+        // Skip any class attributes (e.g. "classdef (Abstract) MyClass")
+        let nameIndex = 1
+        if (statement[nameIndex]?.text === '(') {
+            while (nameIndex < statement.length && !(statement[nameIndex].type === TokenType.CloseBracket && statement[nameIndex].bracketDepth === 0)) {
+                nameIndex++
+            }
+            nameIndex++
+        }
+
+        if (statement[nameIndex]?.type !== TokenType.Identifier || this.classDefinition != null) {
+            return
+        }
+
+        const { identifier: name, nextIndex } = getIdentifier(statement, nameIndex)
+        const baseClasses: RawNamedRange[] = []
+
+        if (statement[nextIndex]?.text === '<') {
+            for (let index = nextIndex + 1; index < statement.length; index++) {
+                if (statement[index].type === TokenType.Identifier && statement[index - 1].text !== '.') {
+                    const { identifier, nextIndex: baseClassEndIndex } = getIdentifier(statement, index)
+                    baseClasses.push({ name: identifier.name, range: identifier.range })
+                    index = baseClassEndIndex - 1
+                }
+            }
+        }
+
+        this.classDefinition = {
+            declarationNameId: { name: name.name, range: name.range },
+            range: this.openBlocks[this.openBlocks.length - 1].range,
+            isPublic: true,
+            baseClasses,
+            propertiesBlocks: [],
+            enumerationsBlocks: [],
+            methodsBlocks: [],
+            properties: [],
+            enumerations: [],
+            nestedScopes: []
+        }
+
+        for (const namedRange of [name, ...baseClasses]) {
+            this.classNames.add(namedRange.name)
+            this.classReferences.push({ name: namedRange.name, range: namedRange.range })
+        }
+    }
+
+    /**
+     * Parses the statement which opens a "properties", "methods", "events", or
+     * "enumeration" block.
+     */
+    private parseClassBlock (keyword: string, statement: Token[]): void {
+        const block = createOpenBlock(keyword, statement)
+        this.openBlocks.push(block)
+
+        // The name of the block includes its attributes (e.g. "methods (Static)")
+        const lastTokenOnLine = statement.filter(token => token.line === statement[0].line).pop() as Token
+        const namedRange = {
+            name: this.lineTexts[statement[0].line].substring(statement[0].start, lastTokenOnLine.end),
+            range: block.range
+        }
+
+        if (keyword === 'properties') {
+            this.classDefinition?.propertiesBlocks.push(namedRange)
+        } else if (keyword === 'methods') {
+            this.classDefinition?.methodsBlocks.push(namedRange)
+        } else if (keyword === 'enumeration') {
+            this.classDefinition?.enumerationsBlocks.push(namedRange)
+        }
+    }
+
+    /**
+     * Closes the innermost open block.
+     *
+     * @param endToken The last token within the block
+     */
+    private closeBlock (endToken: Token): void {
+        const block = this.openBlocks.pop() as OpenBlock
+        block.range[2] = endToken.line
+        block.range[3] = endToken.end
+    }
+
+    /**
+     * Gets the innermost function containing the current statement, or the global scope
+     * for statements outside of functions. Returns null within class definitions.
+     */
+    private getCurrentScope (): ScopeData | null {
+        for (let index = this.openBlocks.length - 1; index >= 0; index--) {
+            const block = this.openBlocks[index]
+            if (block.keyword === 'function') {
+                return block.scope ?? null
+            }
+            if (block.keyword === 'classdef') {
+                return null
+            }
+        }
+        return this.globalScope
+    }
+
+    /**
+     * Gathers the variable, function, and class references within the statements of a
+     * scope, once all of the variables within the scope are known.
+     */
+    private gatherReferences (scope: ScopeData): void {
+        for (const statement of scope.statements) {
+            this.gatherReferencesInStatement(scope, statement)
+        }
+
+        const definition = scope.definition
+        definition.variableDefinitions.push(
+            ...scope.globalDefinitions,
+            ...scope.inputDefinitions,
+            ...scope.outputDefinitions,
+            ...scope.assignmentDefinitions,
+            ...scope.loopDefinitions
+        )
+        definition.variableReferences.sort(compareRanges)
+        definition.functionOrUnboundReferences.sort(compareRanges)
+    }
+
+    private gatherReferencesInStatement (scope: ScopeData, statement: Token[]): void {
+        if (!this.argumentsStatements.has(statement) && this.isCommandSyntax(scope, statement)) {
+            // Only the command name is a reference (e.g. "hold on")
+            scope.definition.functionOrUnboundReferences.push(createIdentifier(statement[0]))
+            return
+        }
+
+        // Parameters of anonymous functions (e.g. "@(x) x + 1")
+        const anonymousFunctionParameters = new Set<string>()
+        let index = 0
+
+        while (index < statement.length) {
+            const token = statement[index]
+
+            if (token.text === '@' && statement[index + 1]?.text === '(') {
+                for (index += 2; index < statement.length && statement[index].type !== TokenType.CloseBracket; index++) {
+                    anonymousFunctionParameters.add(statement[index].text)
+                }
+                continue
+            }
+
+            // Skip field names following indexing (e.g. "x(1).field") and "end" used as an index
+            if (token.type !== TokenType.Identifier || statement[index - 1]?.text === '.' || token.text === 'end') {
+                index++
+                continue
+            }
+
+            const { identifier, nextIndex } = getIdentifier(statement, index)
+            const name = identifier.components[0].name
+            index = nextIndex
+
+            if (anonymousFunctionParameters.has(name)) {
+                continue
+            }
+
+            if (this.isVariable(scope, name)) {
+                scope.definition.variableReferences.push(identifier)
+            } else if (this.classNames.has(name)) {
+                this.classReferences.push(identifier.components[0])
+            } else {
+                const reference: RawFunctionOrUnboundIdentifier = identifier
+                const firstArgIdName = this.getFirstArgumentName(scope, statement, nextIndex)
+                if (firstArgIdName != null) {
+                    reference.firstArgIdName = firstArgIdName
+                }
+                scope.definition.functionOrUnboundReferences.push(reference)
+            }
+        }
+    }
+
+    /**
+     * Gets the name of the first argument of a function call, when the argument is a
+     * variable or class name (e.g. "x" in "fun(x, 1)"). This is used to find methods
+     * called using function syntax.
+     *
+     * @param scope The scope containing the call
+     * @param statement The statement containing the call
+     * @param index The index of the token following the function name
+     */
+    private getFirstArgumentName (scope: ScopeData, statement: Token[], index: number): string | undefined {
+        const [openParen, argument, nextToken] = statement.slice(index, index + 3)
+        if (openParen?.text !== '(' || argument?.type !== TokenType.Identifier || (nextToken?.text !== ',' && nextToken?.text !== ')')) {
+            return undefined
+        }
+
+        return this.isVariable(scope, argument.text) || this.classNames.has(argument.text) ? argument.text : undefined
+    }
+
+    /**
+     * Determines whether a statement uses command syntax, where the arguments following
+     * the command are treated as text (e.g. "hold on" or "disp 'text'").
+     */
+    private isCommandSyntax (scope: ScopeData, statement: Token[]): boolean {
+        const [command, argument] = statement
+        if (command.type !== TokenType.Identifier || argument == null || this.isVariable(scope, command.text)) {
+            return false
+        }
+
+        const isSeparatedByWhitespace = argument.line === command.line && argument.start > command.end
+        const isArgument = argument.type === TokenType.Identifier || argument.type === TokenType.Number || argument.type === TokenType.String
+
+        return isSeparatedByWhitespace && isArgument
+    }
+
+    /**
+     * Determines whether a name is a variable within a scope. Variables of enclosing
+     * functions are shared with nested functions.
+     */
+    private isVariable (scope: ScopeData, name: string): boolean {
+        for (let current: ScopeData | undefined = scope; current != null; current = current.parent) {
+            if (current.variableNames.has(name)) {
+                return true
+            }
+        }
+        return false
+    }
+
+    private createCodeInfo (): CodeInfo {
+        const folders = path.dirname(this.filePath).split(/[\\/]/)
+
+        // Files within class folders (e.g. "@MyClass") are part of the class
+        let classDefFolder: string | undefined
+        if (folders.length > 0 && folders[folders.length - 1].startsWith('@')) {
+            classDefFolder = path.dirname(this.filePath)
+            folders.pop()
+        }
+
+        const packageNames: string[] = []
+        while (folders.length > 0 && folders[folders.length - 1].startsWith('+')) {
+            packageNames.unshift((folders.pop() as string).substring(1))
+        }
+
+        if (this.classDefinition != null) {
+            this.globalScopeDefinition.classScope = this.classDefinition
+        }
+
+        const codeInfo: CodeInfo = {
+            package: packageNames.join('.'),
+            sections: this.getSections(),
+            classReferences: this.classReferences.sort(compareRanges),
+            globalScope: this.globalScopeDefinition,
+            hasClassInfo: this.classDefinition != null || classDefFolder != null
+        }
+
+        if (classDefFolder != null) {
+            codeInfo.classDefFolder = classDefFolder
+        }
+
+        return codeInfo
+    }
+
+    /**
+     * Gets the sections within the code. Code before the first section header is in an
+     * implicit section.
+     */
+    private getSections (): RawSectionInfo[] {
+        const headerLines = this.lines.flatMap((tokens, line) => {
+            return tokens.length === 1 && tokens[0].type === TokenType.Comment && isSectionHeader(tokens[0].text) ? [line] : []
+        })
+
+        const lastLine = this.lineTexts.length - 1
+        const documentEnd = [lastLine, this.lineTexts[lastLine].length]
+        const getSectionEnd = (index: number): number[] => {
+            return index < headerLines.length ? [Math.max(headerLines[index] - 1, 0), 0] : documentEnd
+        }
+
+        const sections: RawSectionInfo[] = []
+
+        if (headerLines.length === 0 || headerLines[0] > 0) {
+            sections.push({ name: 'Section 1', range: [0, 0, ...getSectionEnd(0)] as RangeArray, isExplicit: false })
+        }
+
+        headerLines.forEach((line, index) => {
+            const title = this.lineTexts[line].trim().substring(2).trim()
+            sections.push({
+                name: title !== '' ? title : `Section ${sections.length + 1}`,
+                range: [line, 0, ...getSectionEnd(index + 1)] as RangeArray,
+                isExplicit: true
+            })
+        })
+
+        return sections
+    }
+}
+
+/**
+ * Splits tokenized code into statements, which are separated by newlines (outside of
+ * brackets and line continuations), commas, and semicolons. Comments are removed.
+ */
+function getStatements (lines: Token[][]): Token[][] {
+    const statements: Token[][] = []
+    let statement: Token[] = []
+    let isContinued = false
+
+    const endStatement = (): void => {
+        if (statement.length > 0) {
+            statements.push(statement)
+        }
+        statement = []
+    }
+
+    for (const tokens of lines) {
+        const codeTokens = tokens.filter(token => !NON_CODE_TOKEN_TYPES.has(token.type))
+
+        if (codeTokens.length > 0 && !isContinued && codeTokens[0].bracketDepth === 0) {
+            endStatement()
+        }
+
+        for (const token of codeTokens) {
+            if (token.type === TokenType.Separator && token.bracketDepth === 0) {
+                endStatement()
+            } else {
+                statement.push(token)
+            }
+        }
+
+        isContinued = tokens[tokens.length - 1]?.type === TokenType.Continuation
+    }
+
+    endStatement()
+
+    return statements
+}
+
+/**
+ * Gets the identifier beginning at the given token, including any fields or package
+ * names separated by dots (e.g. "obj.Prop" or "pkg.fun").
+ *
+ * @param tokens The tokens of the statement
+ * @param index The index of the first token of the identifier
+ * @returns The identifier, and the index of the token following the identifier
+ */
+function getIdentifier (tokens: Token[], index: number): { identifier: RawIdentifier, nextIndex: number } {
+    const components = [createNamedRange(tokens[index])]
+    let nextIndex = index + 1
+
+    while (tokens[nextIndex]?.text === '.' && tokens[nextIndex + 1]?.type === TokenType.Identifier) {
+        components.push(createNamedRange(tokens[nextIndex + 1]))
+        nextIndex += 2
+    }
+
+    const lastToken = tokens[nextIndex - 1]
+    const identifier = {
+        name: components.map(component => component.name).join('.'),
+        range: [tokens[index].line, tokens[index].start, lastToken.line, lastToken.end] as RangeArray,
+        components
+    }
+
+    return { identifier, nextIndex }
+}
+
+function createNamedRange (token: Token): RawNamedRange {
+    return { name: token.text, range: [token.line, token.start, token.line, token.end] }
+}
+
+function createIdentifier (token: Token): RawIdentifier {
+    return { ...createNamedRange(token), components: [createNamedRange(token)] }
+}
+
+function createScopeData (definition: FunctionDefinition | GlobalScope, parent?: ScopeData): ScopeData {
+    return {
+        definition,
+        parent,
+        statements: [],
+        variableNames: new Set(),
+        globalDefinitions: [],
+        inputDefinitions: [],
+        outputDefinitions: [],
+        assignmentDefinitions: [],
+        loopDefinitions: []
+    }
+}
+
+function createOpenBlock (keyword: string, statement: Token[]): OpenBlock {
+    const firstToken = statement[0]
+    const lastToken = statement[statement.length - 1]
+
+    return {
+        keyword,
+        range: [firstToken.line, firstToken.start, lastToken.line, lastToken.end],
+        attributes: getAttributes(statement)
+    }
+}
+
+function addDefinition (scope: ScopeData, definitions: RawIdentifier[], identifier: RawIdentifier): void {
+    definitions.push(identifier)
+    scope.variableNames.add(identifier.components[0].name)
+}
+
+/**
+ * Gets the attributes of a block (e.g. "methods (Static, Access = private)"), mapping
+ * the lowercase attribute names to their values.
+ */
+function getAttributes (statement: Token[]): Map<string, string> {
+    const attributes = new Map<string, string>()
+    if (statement[1]?.text !== '(') {
+        return attributes
+    }
+
+    let attribute: Token[] = []
+    const addAttribute = (): void => {
+        const isNegated = attribute[0]?.text === '~' || attribute[0]?.text === '!'
+        const name = attribute[isNegated ? 1 : 0]
+        const assignmentIndex = attribute.findIndex(token => token.text === '=')
+
+        if (name != null) {
+            const value = assignmentIndex >= 0 ? attribute.slice(assignmentIndex + 1).map(token => token.text).join('') : String(!isNegated)
+            attributes.set(name.text.toLowerCase(), value)
+        }
+        attribute = []
+    }
+
+    for (const token of statement.slice(2)) {
+        if (token.bracketDepth === 0) {
+            // The closing parenthesis
+            break
+        }
+        if (token.type === TokenType.Separator && token.bracketDepth === 1) {
+            addAttribute()
+        } else {
+            attribute.push(token)
+        }
+    }
+    addAttribute()
+
+    return attributes
+}
+
+/**
+ * Determines whether the access attributes of a block allow public access.
+ *
+ * @param attributes The attributes of the block
+ * @param accessAttributeNames The names of the attributes controlling access, in order of precedence
+ */
+function isPublic (attributes: Map<string, string>, accessAttributeNames: string[]): boolean {
+    for (const name of accessAttributeNames) {
+        const value = attributes.get(name)
+        if (value != null) {
+            return value.replace(/['"]/g, '').toLowerCase() === 'public'
+        }
+    }
+    return true
+}
+
+function isTrue (attributes: Map<string, string>, name: string): boolean {
+    const value = attributes.get(name)?.toLowerCase()
+    return value != null && value !== 'false' && value !== '0'
+}
+
+function compareRanges (a: RawNamedRange, b: RawNamedRange): number {
+    return a.range[0] !== b.range[0] ? a.range[0] - b.range[0] : a.range[1] - b.range[1]
+}
@@ -1,4 +1,4 @@
-// Copyright 2024-2025 The MathWorks, Inc.
+// Copyright 2024-2026 The MathWorks, Inc.
 
 import { Location, Position, TextDocuments, Range } from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
@@ -19,7 +19,11 @@ export enum RequestType {
     References,
     DocumentSymbol,
     RenameSymbol,
-    DocumentHighlight
+    DocumentHighlight,
+    Hover,
+    WorkspaceSymbol,
+    CallHierarchy,
+    TypeHierarchy
 }
 
 export function reportTelemetry (type: RequestType, errorCondition = ''): void {
@@ -40,6 +44,18 @@ export function reportTelemetry (type: RequestType, errorCondition = ''): void {
         case RequestType.DocumentHighlight:
             action = Actions.HighlightSymbol
             break
+        case RequestType.Hover:
+            action = Actions.Hover
+            break
+        case RequestType.WorkspaceSymbol:
+            action = Actions.WorkspaceSymbol
+            break
+        case RequestType.CallHierarchy:
+            action = Actions.CallHierarchy
+            break
+        case RequestType.TypeHierarchy:
+            action = Actions.TypeHierarchy
+            break
     }
     reportTelemetryAction(action, errorCondition)
 }
@@ -128,23 +144,69 @@ export async function findDefinitions (
     
     reportTelemetry(requestType)
 
-    // First check within the current file's (and
-    // associated class info's) code data
-    const defsInCodeData: Location[] = findRefsOrDefs(scopedId, codeInfo, ResultType.Definitions)
-    
-    if (defsInCodeData.length > 0) {
-        return defsInCodeData
+    return await findDefinitionsForScopedId(scopedId, codeInfo, uri, pathResolver, indexer, fileInfoIndex)
+}
+
+/**
+ * Finds definitions/write references of the identifier at a particular position in an
+ * indexed file, which does not need to be open.
+ *
+ * Definitions are searched for in the same manner as {@link findDefinitions}. This is
+ * intended for features which need to resolve many identifiers throughout the workspace
+ * (e.g. call hierarchy), so no telemetry is reported.
+ *
+ * Ranges in returned locations should not be modified.
+ *
+ * @param uri The URI of the indexed file containing the position for which to find definitions
+ * @param position The position in the file for which to find definitions
+ * @param fileInfoIndex The file info index
+ * @param pathResolver The path resolver
+ * @param indexer The indexer
+ * @returns Locations of the definitions for the identifier at the given position
+ */
+export async function findDefinitionsInIndexedFile (
+    uri: string, position: Position, fileInfoIndex: FileInfoIndex, pathResolver: PathResolver, indexer: Indexer
+): Promise<Location[]> {
+    const codeInfo: MatlabCodeInfo | undefined = fileInfoIndex.codeInfoCache.get(uri)
+    if (codeInfo == null) {
+        return []
     }
-    
-    // If no definitions are found in the current file/
-    // associated class and the identifier type is able to
-    // be defined outside the file, look for definitions
-    // on the path
-    if (scopedId instanceof ClassReference || scopedId instanceof ScopedFunctionOrUnboundReference) {
-        return await findDefinitionsOnPathWithExpansion(scopedId, uri, pathResolver, indexer, fileInfoIndex)
+
+    const scopedId: ScopedReference | null = getIdentifierAtPosition(codeInfo, position)
+    if (scopedId == null) {
+        return []
     }
-    
-    return []
+
+    return await findDefinitionsForScopedId(scopedId, codeInfo, uri, pathResolver, indexer, fileInfoIndex)
+}
+
+/**
+ * Finds references of the identifier at a particular position in an indexed file,
+ * which does not need to be open.
+ *
+ * References are searched for in the same manner as {@link findReferences}. This is
+ * intended for features which find references for many identifiers at once (e.g. code
+ * lenses), so no telemetry is reported.
+ *
+ * Ranges in returned locations should not be modified.
+ *
+ * @param uri The URI of the indexed file containing the position for which to find references
+ * @param position The position in the file for which to find references
+ * @param fileInfoIndex The file info index
+ * @returns Locations of the references for the identifier at the given position
+ */
+export function findReferencesInIndexedFile (uri: string, position: Position, fileInfoIndex: FileInfoIndex): Location[] {
+    const codeInfo: MatlabCodeInfo | undefined = fileInfoIndex.codeInfoCache.get(uri)
+    if (codeInfo == null) {
+        return []
+    }
+
+    const scopedId: ScopedReference | null = getIdentifierAtPosition(codeInfo, position)
+    if (scopedId == null) {
+        return []
+    }
+
+    return findRefsOrDefs(scopedId, codeInfo, ResultType.References)
 }
 
 /**
@@ -1797,6 +1859,29 @@ function dottedPropertyIdentifierNarrowCombineAndFormat (
 
 /////////////////////// Finding definitions on path using PathResolver ////////////////////
 
+async function findDefinitionsForScopedId (
+    scopedId: ScopedReference, codeInfo: MatlabCodeInfo, uri: string, pathResolver: PathResolver, indexer: Indexer,
+    fileInfoIndex: FileInfoIndex
+): Promise<Location[]> {
+    // First check within the current file's (and
+    // associated class info's) code data
+    const defsInCodeData: Location[] = findRefsOrDefs(scopedId, codeInfo, ResultType.Definitions)
+
+    if (defsInCodeData.length > 0) {
+        return defsInCodeData
+    }
+
+    // If no definitions are found in the current file/
+    // associated class and the identifier type is able to
+    // be defined outside the file, look for definitions
+    // on the path
+    if (scopedId instanceof ClassReference || scopedId instanceof ScopedFunctionOrUnboundReference) {
+        return await findDefinitionsOnPathWithExpansion(scopedId, uri, pathResolver, indexer, fileInfoIndex)
+    }
+
+    return []
+}
+
 type ScopedOutsideReference = ClassReference | ScopedFunctionOrUnboundReference
 
 async function findDefinitionsOnPathWithExpansion (
@@ -1919,7 +2004,7 @@ function getScopedIdAndCodeInfo (
 
     const scopedId: ScopedReference | null = getIdentifierAtPosition(codeInfo, position)
     if (scopedId == null) {
-        if (requestType !== RequestType.DocumentHighlight) {
+        if (requestType !== RequestType.DocumentHighlight && requestType !== RequestType.Hover) {
             reportTelemetry(requestType, 'Target is not an identifier')
         }
         return null
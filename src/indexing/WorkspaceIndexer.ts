@@ -1,4 +1,4 @@
-// Copyright 2022 - 2024 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { ClientCapabilities, WorkspaceFolder, WorkspaceFoldersChangeEvent } from 'vscode-languageserver'
 import ConfigurationManager from '../lifecycle/ConfigurationManager'
@@ -35,6 +35,8 @@ export default class WorkspaceIndexer {
 
     /**
      * Attempts to index the files in the user's workspace.
+     *
+     * @returns A promise which resolves once the workspace has been indexed
      */
     async indexWorkspace (): Promise<void> {
         if (!(await this.shouldIndexWorkspace())) {
@@ -47,7 +49,7 @@ export default class WorkspaceIndexer {
             return
         }
 
-        void this.indexer.indexFolders(folders.map(folder => folder.uri))
+        await this.indexer.indexFolders(folders.map(folder => folder.uri))
     }
 
     /**
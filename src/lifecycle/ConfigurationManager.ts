@@ -1,4 +1,4 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { ClientCapabilities, DidChangeConfigurationNotification, DidChangeConfigurationParams } from 'vscode-languageserver'
 import { reportTelemetrySettingsChange } from '../logging/TelemetryUtils'
@@ -16,7 +16,12 @@ export enum Argument {
     // Advanced arguments
     MatlabUrl = 'matlabUrl',
 
-    SnippetIgnoreList = 'snippetIgnoreList'
+    SnippetIgnoreList = 'snippetIgnoreList',
+
+    // Batch check arguments
+    CheckFolder = 'check',
+    CheckFormat = 'format',
+    CheckWithMatlab = 'checkWithMatlab'
 }
 
 export enum ConnectionTiming {
@@ -31,6 +36,11 @@ interface CliArguments {
     [Argument.SnippetIgnoreList]: string
 }
 
+export type LintSeverity = 'error' | 'warning' | 'information' | 'hint'
+
+// 'none' is an alias of 'classic'
+export type FunctionIndentMode = 'classic' | 'none' | 'nested' | 'all'
+
 export interface Settings {
     installPath: string
     matlabConnectionTiming: ConnectionTiming
@@ -40,9 +50,22 @@ export interface Settings {
     signIn: boolean
     prewarmGraphics: boolean
     defaultEditor: boolean
+    outputNameInlayHints: boolean
+    lintDisabledIds: string[]
+    lintSeverityOverrides: { [id: string]: LintSeverity }
+    lintCacheFolder: string
+    backgroundLinting: boolean
+    offlineFolding: boolean
+    offlineFormatting: boolean
+    formatFunctionIndent: FunctionIndentMode
+    formatOperatorSpacing: boolean
+    formatCommaSpacing: boolean
+    formatSectionBlankLines: boolean
+    formatRemoveTrailingWhitespace: boolean
+    formatMaxLineLength: number
 }
 
-type SettingName = 'installPath' | 'matlabConnectionTiming' | 'indexWorkspace' | 'telemetry' | 'maxFileSizeForAnalysis' | 'signIn' | 'prewarmGraphics' | 'defaultEditor'
+type SettingName = 'installPath' | 'matlabConnectionTiming' | 'indexWorkspace' | 'telemetry' | 'maxFileSizeForAnalysis' | 'signIn' | 'prewarmGraphics' | 'defaultEditor' | 'outputNameInlayHints' | 'lintDisabledIds' | 'lintSeverityOverrides' | 'lintCacheFolder' | 'backgroundLinting' | 'offlineFolding' | 'offlineFormatting' | 'formatFunctionIndent' | 'formatOperatorSpacing' | 'formatCommaSpacing' | 'formatSectionBlankLines' | 'formatRemoveTrailingWhitespace' | 'formatMaxLineLength'
 
 const SETTING_NAMES: SettingName[] = [
     'installPath',
@@ -52,7 +75,20 @@ const SETTING_NAMES: SettingName[] = [
     'maxFileSizeForAnalysis',
     'signIn',
     'prewarmGraphics',
-    'defaultEditor'
+    'defaultEditor',
+    'outputNameInlayHints',
+    'lintDisabledIds',
+    'lintSeverityOverrides',
+    'lintCacheFolder',
+    'backgroundLinting',
+    'offlineFolding',
+    'offlineFormatting',
+    'formatFunctionIndent',
+    'formatOperatorSpacing',
+    'formatCommaSpacing',
+    'formatSectionBlankLines',
+    'formatRemoveTrailingWhitespace',
+    'formatMaxLineLength'
 ]
 
 export class ConfigurationManager {
@@ -81,7 +117,20 @@ export class ConfigurationManager {
             maxFileSizeForAnalysis: 0,
             signIn: false,
             prewarmGraphics: true,
-            defaultEditor: true
+            defaultEditor: true,
+            outputNameInlayHints: false,
+            lintDisabledIds: [],
+            lintSeverityOverrides: {},
+            lintCacheFolder: '',
+            backgroundLinting: false,
+            offlineFolding: false,
+            offlineFormatting: false,
+            formatFunctionIndent: 'all',
+            formatOperatorSpacing: false,
+            formatCommaSpacing: false,
+            formatSectionBlankLines: false,
+            formatRemoveTrailingWhitespace: false,
+            formatMaxLineLength: 0
         }
 
         this.globalSettings = {
@@ -92,7 +141,20 @@ export class ConfigurationManager {
             maxFileSizeForAnalysis: this.defaultConfiguration.maxFileSizeForAnalysis,
             signIn: this.defaultConfiguration.signIn,
             prewarmGraphics: this.defaultConfiguration.prewarmGraphics,
-            defaultEditor: this.defaultConfiguration.defaultEditor
+            defaultEditor: this.defaultConfiguration.defaultEditor,
+            outputNameInlayHints: this.defaultConfiguration.outputNameInlayHints,
+            lintDisabledIds: this.defaultConfiguration.lintDisabledIds,
+            lintSeverityOverrides: this.defaultConfiguration.lintSeverityOverrides,
+            lintCacheFolder: this.defaultConfiguration.lintCacheFolder,
+            backgroundLinting: this.defaultConfiguration.backgroundLinting,
+            offlineFolding: this.defaultConfiguration.offlineFolding,
+            offlineFormatting: this.defaultConfiguration.offlineFormatting,
+            formatFunctionIndent: this.defaultConfiguration.formatFunctionIndent,
+            formatOperatorSpacing: this.defaultConfiguration.formatOperatorSpacing,
+            formatCommaSpacing: this.defaultConfiguration.formatCommaSpacing,
+            formatSectionBlankLines: this.defaultConfiguration.formatSectionBlankLines,
+            formatRemoveTrailingWhitespace: this.defaultConfiguration.formatRemoveTrailingWhitespace,
+            formatMaxLineLength: this.defaultConfiguration.formatMaxLineLength
         }
 
         this.additionalArguments = {
@@ -203,11 +265,11 @@ export class ConfigurationManager {
 
         for (let i = 0; i < SETTING_NAMES.length; i++) {
             const settingName = SETTING_NAMES[i]
-            const oldValue = oldConfiguration[settingName]
-            const newValue = newConfiguration[settingName]
+            const oldValue = settingValueToString(oldConfiguration[settingName])
+            const newValue = settingValueToString(newConfiguration[settingName])
 
             if (oldValue !== newValue) {
-                reportTelemetrySettingsChange(settingName, newValue.toString(), oldValue.toString())
+                reportTelemetrySettingsChange(settingName, newValue, oldValue)
 
                 // As the setting changed, execute the corresponding callback for it.
                 const callback = this.settingChangeCallbacks.get(settingName);
@@ -219,4 +281,12 @@ export class ConfigurationManager {
     }
 }
 
+/**
+ * Converts a setting's value to a string. Array and object values are converted
+ * to JSON, so that changes to their contents can be detected.
+ */
+function settingValueToString (value: Settings[SettingName]): string {
+    return typeof value === 'object' ? JSON.stringify(value) : value.toString()
+}
+
 export default ConfigurationManager.getInstance()
@@ -1,4 +1,4 @@
-// Copyright 2023-2025 The MathWorks, Inc.
+// Copyright 2023-2026 The MathWorks, Inc.
 
 import NotificationService, { Notification } from '../notifications/NotificationService'
 
@@ -18,7 +18,11 @@ export enum Actions {
     GoToDefinition = 'goToDefinition',
     DocumentSymbol = 'documentSymbol',
     RenameSymbol = 'renameSymbol',
-    HighlightSymbol = 'highlightSymbol'
+    HighlightSymbol = 'highlightSymbol',
+    Hover = 'hover',
+    WorkspaceSymbol = 'workspaceSymbol',
+    CallHierarchy = 'callHierarchy',
+    TypeHierarchy = 'typeHierarchy'
 }
 
 export enum ActionErrorConditions {
@@ -10,6 +10,11 @@ export default class MVMServer {
     private readonly _mvm: MVM;
     private readonly _notificationService: typeof NotificationService;
 
+    // The evals and fevals requested by the client which have not yet completed
+    private readonly _pendingRequests = new Set<Promise<unknown>>();
+    private _promptState: PromptState | null = null;
+    private _isIdle = true;
+
     constructor (mvm: MVM, notificationService: typeof NotificationService) {
         this._mvm = mvm;
         this._notificationService = notificationService;
@@ -25,6 +30,17 @@ export default class MVMServer {
         this._notificationService.registerNotificationListener(Notification.MVMUnpauseRequest, this._doUnpause.bind(this));
     }
 
+    /**
+     * Determines whether the user is interactively using MATLAB, such as when code requested
+     * through the client is running or when MATLAB is waiting for input in the debugger.
+     *
+     * @returns True if the user is interactively using MATLAB, false otherwise
+     */
+    isUserInteracting (): boolean {
+        const isWaitingForUser = this._promptState === PromptState.DEBUG || this._promptState === PromptState.INPUT || this._promptState === PromptState.PAUSE;
+        return this._pendingRequests.size > 0 || !this._isIdle || isWaitingForUser;
+    }
+
     private _setupListeners (): void {
         this._mvm.on(IMVM.Events.stateChange, this._handleMvmStateChange.bind(this))
         this._mvm.on(IMVM.Events.output, this._handleOutput.bind(this));
@@ -33,6 +49,13 @@ export default class MVMServer {
     }
 
     private _handleMvmStateChange (state: MatlabMVMConnectionState, release?: string): void {
+        if (state === MatlabMVMConnectionState.DISCONNECTED) {
+            // Requests and prompts do not complete once MATLAB has disconnected
+            this._pendingRequests.clear();
+            this._promptState = null;
+            this._isIdle = true;
+        }
+
         this._notificationService.sendNotification(Notification.MVMStateChange, { state, release });
     }
 
@@ -43,7 +66,7 @@ export default class MVMServer {
             return;
         }
 
-        void this._mvm.eval(data.command, data.isUserEval, data.capabilitiesToRemove)?.then(() => {
+        void this._trackRequest(this._mvm.eval(data.command, data.isUserEval, data.capabilitiesToRemove))?.then(() => {
             this._notificationService.sendNotification(Notification.MVMEvalComplete, {
                 requestId
             } as EvalResponse)
@@ -55,7 +78,7 @@ export default class MVMServer {
         if (requestId === undefined) {
             return;
         }
-        void this._mvm.feval(data.functionName, data.nargout, data.args, data.isUserEval, data.capabilitiesToRemove)?.then((result: unknown) => {
+        void this._trackRequest(this._mvm.feval(data.functionName, data.nargout, data.args, data.isUserEval, data.capabilitiesToRemove))?.then((result: unknown) => {
             this._notificationService.sendNotification(Notification.MVMFevalComplete, {
                 requestId,
                 result
@@ -63,6 +86,18 @@ export default class MVMServer {
         });
     }
 
+    private _trackRequest<T> (request: Promise<T> | undefined): Promise<T> | undefined {
+        if (request === undefined) {
+            return undefined;
+        }
+
+        const trackedRequest = request.finally(() => {
+            this._pendingRequests.delete(trackedRequest);
+        });
+        this._pendingRequests.add(trackedRequest);
+        return trackedRequest;
+    }
+
     private _doSetBreakpoint (data: BreakpointRequest): void {
         const requestId = data.requestId;
         if (requestId === undefined) {
@@ -106,6 +141,9 @@ export default class MVMServer {
     }
 
     private _handlePromptChange (state: PromptState, isIdle: boolean): void {
+        this._promptState = state;
+        this._isIdle = isIdle;
+
         this._notificationService.sendNotification(Notification.MVMPromptChange, {
             state,
             isIdle
@@ -0,0 +1,326 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import {
+    CallHierarchyIncomingCall, CallHierarchyIncomingCallsParams, CallHierarchyItem, CallHierarchyOutgoingCall,
+    CallHierarchyOutgoingCallsParams, CallHierarchyPrepareParams, Location, Range, SymbolKind, TextDocuments
+} from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import * as path from 'path'
+import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
+import LifecycleNotificationHelper from '../../lifecycle/LifecycleNotificationHelper'
+import FileInfoIndex, {
+    getAllFunctionScopes, MatlabCodeInfo, MatlabFunctionScopeInfo, MatlabGlobalScopeInfo, NamedRange
+} from '../../indexing/FileInfoIndex'
+import Indexer from '../../indexing/Indexer'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import PathResolver from '../navigation/PathResolver'
+import * as SymbolSearchService from '../../indexing/SymbolSearchService'
+import { reportTelemetry, RequestType } from '../../indexing/SymbolSearchService'
+import { ActionErrorConditions } from '../../logging/TelemetryUtils'
+import { areRangesEqual } from '../../utils/RangeUtils'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+
+type CallerScope = MatlabGlobalScopeInfo | MatlabFunctionScopeInfo
+
+/**
+ * A reference within a scope which may be a call to a function or method
+ */
+interface CallSite {
+    // The identifier component from which the callee is resolved
+    component: NamedRange
+    // The range reported for the call
+    range: Range
+    // Used to avoid resolving the same callee multiple times
+    cacheKey: string
+}
+
+/**
+ * Handles requests for the call hierarchy.
+ *
+ * Calls are found using the function and unbound references recorded for
+ * each scope in the index, and callees are resolved in the same way as
+ * definitions (see {@link SymbolSearchService.findDefinitions}).
+ */
+class CallHierarchyProvider {
+    constructor (
+        protected readonly matlabLifecycleManager: MatlabLifecycleManager,
+        protected readonly fileInfoIndex: FileInfoIndex,
+        protected readonly indexer: Indexer,
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Handles a request to prepare the call hierarchy for the function at a
+     * given position.
+     *
+     * @param params Parameters for the prepare call hierarchy request
+     * @param documentManager The text document manager
+     * @returns The call hierarchy items for the function at the given position,
+     *     or null if there is no function at the position
+     */
+    async handlePrepareCallHierarchy (params: CallHierarchyPrepareParams, documentManager: TextDocuments<TextDocument>): Promise<CallHierarchyItem[] | null> {
+        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
+        if (matlabConnection == null) {
+            LifecycleNotificationHelper.notifyMatlabRequirement()
+            reportTelemetry(RequestType.CallHierarchy, ActionErrorConditions.MatlabUnavailable)
+            return null
+        }
+
+        const uri = params.textDocument.uri
+        const textDocument = documentManager.get(uri)
+
+        if (textDocument == null) {
+            reportTelemetry(RequestType.CallHierarchy, 'No document')
+            return null
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const definitions = await SymbolSearchService.findDefinitions(
+            uri, params.position, this.fileInfoIndex, documentManager, this.pathResolver, this.indexer, RequestType.CallHierarchy
+        )
+
+        const items = definitions
+            .map(definition => this.getCallHierarchyItem(definition))
+            .filter((item): item is CallHierarchyItem => item != null)
+
+        return items.length > 0 ? items : null
+    }
+
+    /**
+     * Handles a request for the incoming calls to a function (i.e. the
+     * functions which call it), searching all indexed files.
+     *
+     * @param params Parameters for the incoming calls request
+     * @returns The incoming calls, grouped by caller
+     */
+    async handleIncomingCalls (params: CallHierarchyIncomingCallsParams): Promise<CallHierarchyIncomingCall[]> {
+        const target = params.item
+        const incomingCalls = new Map<string, CallHierarchyIncomingCall>()
+
+        for (const codeInfo of this.fileInfoIndex.codeInfoCache.values()) {
+            const scopes: CallerScope[] = [codeInfo.globalScopeInfo, ...getAllFunctionScopes(codeInfo)]
+
+            for (const scope of scopes) {
+                // Only consider references which mention the target's name, to
+                // avoid resolving every reference in the workspace
+                const callSites = getCallSites(scope, target.name)
+
+                for (const callSite of callSites) {
+                    const definitions = await SymbolSearchService.findDefinitionsInIndexedFile(
+                        codeInfo.uri, callSite.component.range.start, this.fileInfoIndex, this.pathResolver, this.indexer
+                    )
+
+                    const isCallToTarget = definitions.some(
+                        definition => definition.uri === target.uri && areRangesEqual(definition.range, target.selectionRange)
+                    )
+                    if (!isCallToTarget) {
+                        continue
+                    }
+
+                    const caller = createCallerItem(codeInfo, scope)
+                    const key = getItemKey(caller)
+                    const incomingCall = incomingCalls.get(key) ?? { from: caller, fromRanges: [] }
+                    incomingCall.fromRanges.push(callSite.range)
+                    incomingCalls.set(key, incomingCall)
+                }
+            }
+        }
+
+        reportTelemetry(RequestType.CallHierarchy)
+        return [...incomingCalls.values()]
+    }
+
+    /**
+     * Handles a request for the outgoing calls from a function (i.e. the
+     * functions which it calls).
+     *
+     * @param params Parameters for the outgoing calls request
+     * @returns The outgoing calls, grouped by callee
+     */
+    async handleOutgoingCalls (params: CallHierarchyOutgoingCallsParams): Promise<CallHierarchyOutgoingCall[]> {
+        const source = params.item
+
+        if (!this.fileInfoIndex.codeInfoCache.has(source.uri)) {
+            await this.indexer.indexFile(source.uri)
+        }
+
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(source.uri)
+        if (codeInfo == null) {
+            reportTelemetry(RequestType.CallHierarchy, 'File not indexed')
+            return []
+        }
+
+        let scope: CallerScope | undefined
+        if (source.kind === SymbolKind.File) {
+            scope = codeInfo.globalScopeInfo
+        } else {
+            scope = getAllFunctionScopes(codeInfo).find(
+                functionScope => areRangesEqual(functionScope.declarationNameId.range, source.selectionRange)
+            )
+        }
+
+        if (scope == null) {
+            return []
+        }
+
+        const outgoingCalls = new Map<string, CallHierarchyOutgoingCall>()
+        const resolvedCallees = new Map<string, CallHierarchyItem[]>()
+
+        for (const callSite of getCallSites(scope)) {
+            let callees = resolvedCallees.get(callSite.cacheKey)
+
+            if (callees == null) {
+                const definitions = await SymbolSearchService.findDefinitionsInIndexedFile(
+                    source.uri, callSite.component.range.start, this.fileInfoIndex, this.pathResolver, this.indexer
+                )
+                callees = definitions
+                    .map(definition => this.getCallHierarchyItem(definition, source.uri))
+                    .filter((item): item is CallHierarchyItem => item != null)
+                resolvedCallees.set(callSite.cacheKey, callees)
+            }
+
+            for (const callee of callees) {
+                const key = getItemKey(callee)
+                const outgoingCall = outgoingCalls.get(key) ?? { to: callee, fromRanges: [] }
+                outgoingCall.fromRanges.push(callSite.range)
+                outgoingCalls.set(key, outgoingCall)
+            }
+        }
+
+        reportTelemetry(RequestType.CallHierarchy)
+        return [...outgoingCalls.values()]
+    }
+
+    /**
+     * Creates the call hierarchy item for a definition location.
+     *
+     * @param definition The definition location
+     * @param sourceUri If provided, definitions which could not be matched to an indexed function
+     *     or class, but which are in a different file than this one, are treated as functions which
+     *     are defined outside of indexed code (e.g. built-in functions)
+     * @returns The call hierarchy item, or null if the definition is not a function or class
+     */
+    private getCallHierarchyItem (definition: Location, sourceUri?: string): CallHierarchyItem | null {
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(definition.uri)
+
+        if (codeInfo != null) {
+            const functionScope = getAllFunctionScopes(codeInfo).find(
+                scope => areRangesEqual(scope.declarationNameId.range, definition.range)
+            )
+            if (functionScope != null) {
+                return createFunctionItem(codeInfo, functionScope)
+            }
+
+            const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+            if (classdefInfo != null && areRangesEqual(classdefInfo.declarationNameId.range, definition.range)) {
+                return {
+                    name: classdefInfo.declarationNameId.name,
+                    kind: SymbolKind.Class,
+                    uri: definition.uri,
+                    range: classdefInfo.range,
+                    selectionRange: classdefInfo.declarationNameId.range,
+                    detail: getFileName(definition.uri)
+                }
+            }
+        }
+
+        if (sourceUri != null && definition.uri !== sourceUri) {
+            return {
+                name: path.parse(FileNameUtils.getFilePathFromUri(definition.uri)).name,
+                kind: SymbolKind.Function,
+                uri: definition.uri,
+                range: definition.range,
+                selectionRange: definition.range,
+                detail: getFileName(definition.uri)
+            }
+        }
+
+        return null
+    }
+}
+
+/**
+ * Gets the references within a scope (but not its nested scopes) which may be
+ * calls to functions or methods.
+ *
+ * @param scope The scope to search
+ * @param targetName If provided, call sites are given for every identifier component
+ *     with this name; otherwise, one call site is given per reference
+ */
+function getCallSites (scope: CallerScope, targetName?: string): CallSite[] {
+    const callSites: CallSite[] = []
+
+    scope.functionOrUnboundReferences.forEach(referenceInfo => {
+        referenceInfo.references.forEach(reference => {
+            if (targetName != null) {
+                reference.components
+                    .filter(component => component.name === targetName)
+                    .forEach(component => callSites.push({ component, range: component.range, cacheKey: '' }))
+            } else {
+                // Resolving from the first component considers each dotted
+                // expansion (e.g. "pkg", then "pkg.fun") until one is found
+                callSites.push({ component: reference.components[0], range: reference.range, cacheKey: `function:${reference.name}` })
+            }
+        })
+    })
+
+    // Method calls on objects (e.g. "obj.method()") are recorded as variable references
+    scope.variables.forEach(variableInfo => {
+        variableInfo.references.forEach(reference => {
+            if (targetName != null) {
+                reference.components.slice(1)
+                    .filter(component => component.name === targetName)
+                    .forEach(component => callSites.push({ component, range: component.range, cacheKey: '' }))
+            } else if (reference.components.length > 1) {
+                const component = reference.components[1]
+                callSites.push({ component, range: component.range, cacheKey: `variable:${reference.components[0].name}.${component.name}` })
+            }
+        })
+    })
+
+    return callSites
+}
+
+function createFunctionItem (codeInfo: MatlabCodeInfo, functionScope: MatlabFunctionScopeInfo): CallHierarchyItem {
+    return {
+        name: functionScope.declarationNameId.name,
+        kind: functionScope.functionInfo.isMethod ? SymbolKind.Method : SymbolKind.Function,
+        uri: codeInfo.uri,
+        range: functionScope.range,
+        selectionRange: functionScope.declarationNameId.range,
+        detail: getFileName(codeInfo.uri)
+    }
+}
+
+function createCallerItem (codeInfo: MatlabCodeInfo, scope: CallerScope): CallHierarchyItem {
+    if (scope instanceof MatlabFunctionScopeInfo) {
+        return createFunctionItem(codeInfo, scope)
+    }
+
+    // Calls made from the top level of a script are attributed to the script itself
+    const sections = codeInfo.sections
+    const range = sections.length > 0
+        ? Range.create(sections[0].range.start, sections[sections.length - 1].range.end)
+        : Range.create(0, 0, 0, 0)
+
+    return {
+        name: getFileName(codeInfo.uri),
+        kind: SymbolKind.File,
+        uri: codeInfo.uri,
+        range,
+        selectionRange: Range.create(range.start, range.start)
+    }
+}
+
+function getFileName (uri: string): string {
+    return path.basename(FileNameUtils.getFilePathFromUri(uri))
+}
+
+function getItemKey (item: CallHierarchyItem): string {
+    const { start, end } = item.selectionRange
+    return `${item.uri}:${start.line}:${start.character}:${end.line}:${end.character}`
+}
+
+export default CallHierarchyProvider
@@ -0,0 +1,153 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { CodeLens, CodeLensParams, Location, Position, Range, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import FileInfoIndex, { getAllFunctionScopes, MatlabClassdefInfo } from '../../indexing/FileInfoIndex'
+import * as SymbolSearchService from '../../indexing/SymbolSearchService'
+import { areRangesEqual } from '../../utils/RangeUtils'
+import { isPositionWithinRange } from '../../utils/PositionUtils'
+
+/**
+ * The client-side command run when a reference count code lens is clicked.
+ * The command is given the document URI, the position of the code lens, and
+ * the locations of the references, as LSP JSON objects. Clients implement the
+ * command by converting these to their own types before showing the references
+ * (e.g. with `editor.action.showReferences` in VS Code, which rejects JSON arguments).
+ */
+export const SHOW_REFERENCES_COMMAND = 'matlab.showReferences'
+
+/**
+ * Data attached to code lenses, which is preserved by the client between the
+ * code lens request and the resolve request
+ */
+interface CodeLensData {
+    uri: string
+    // The positions of the declarations whose references are counted
+    positions: Position[]
+}
+
+/**
+ * Handles requests for code lenses.
+ *
+ * A code lens showing the number of references is provided above each function,
+ * method, classdef, and properties block. As finding references can be expensive
+ * in large files, code lenses are created without commands, and references are
+ * only counted when the client resolves each code lens.
+ */
+class CodeLensProvider {
+    constructor (
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly fileInfoIndex: FileInfoIndex
+    ) {}
+
+    /**
+     * Handles a request for the code lenses in a document.
+     *
+     * @param params Parameters for the code lens request
+     * @param documentManager The text document manager
+     * @returns The unresolved code lenses
+     */
+    async handleCodeLensRequest (params: CodeLensParams, documentManager: TextDocuments<TextDocument>): Promise<CodeLens[]> {
+        const uri = params.textDocument.uri
+        const textDocument = documentManager.get(uri)
+        if (textDocument == null) {
+            return []
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(uri)
+        if (codeInfo == null) {
+            return []
+        }
+
+        const codeLenses: CodeLens[] = []
+        const createCodeLens = (range: Range, positions: Position[]): void => {
+            const data: CodeLensData = { uri, positions }
+            codeLenses.push({ range, data })
+        }
+
+        const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+        if (classdefInfo != null) {
+            createCodeLens(classdefInfo.declarationNameId.range, [classdefInfo.declarationNameId.range.start])
+
+            classdefInfo.propertiesBlocks.forEach(propertiesBlock => {
+                const positions = getPropertyPositions(classdefInfo, propertiesBlock.range)
+                if (positions.length > 0) {
+                    const start = propertiesBlock.range.start
+                    const keywordRange = Range.create(start, Position.create(start.line, start.character + 'properties'.length))
+                    createCodeLens(keywordRange, positions)
+                }
+            })
+        }
+
+        getAllFunctionScopes(codeInfo).forEach(functionScope => {
+            // References are not supported for functions with dots in their
+            // names (property access methods or namespace-class converter methods)
+            if (!functionScope.declarationNameId.name.includes('.')) {
+                createCodeLens(functionScope.declarationNameId.range, [functionScope.declarationNameId.range.start])
+            }
+        })
+
+        return codeLenses
+    }
+
+    /**
+     * Handles a request to resolve a code lens, by counting the references to the
+     * declarations it represents.
+     *
+     * @param codeLens The code lens to resolve
+     * @returns The resolved code lens
+     */
+    handleCodeLensResolveRequest (codeLens: CodeLens): CodeLens {
+        const data = codeLens.data as CodeLensData
+
+        const references: Location[] = []
+        data.positions.forEach(position => {
+            const locations = SymbolSearchService.findReferencesInIndexedFile(data.uri, position, this.fileInfoIndex)
+            references.push(...locations.filter(location => !this.isDeclaration(location)))
+        })
+
+        const count = references.length
+        codeLens.command = {
+            title: count === 1 ? '1 reference' : `${count} references`,
+            command: SHOW_REFERENCES_COMMAND,
+            arguments: [data.uri, codeLens.range.start, references]
+        }
+
+        return codeLens
+    }
+
+    /**
+     * Determines whether a reference location is the declaration of a
+     * function, class, or property, rather than a use of it.
+     */
+    private isDeclaration (location: Location): boolean {
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(location.uri)
+        if (codeInfo == null) {
+            return false
+        }
+
+        const declarationRanges: Range[] = getAllFunctionScopes(codeInfo).map(functionScope => functionScope.declarationNameId.range)
+
+        const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+        if (classdefInfo != null) {
+            declarationRanges.push(classdefInfo.declarationNameId.range)
+            classdefInfo.classInfo.properties.forEach(propertyInfo => declarationRanges.push(propertyInfo.range))
+        }
+
+        return declarationRanges.some(range => areRangesEqual(range, location.range))
+    }
+}
+
+/**
+ * Gets the positions of the properties declared within a properties block.
+ */
+function getPropertyPositions (classdefInfo: MatlabClassdefInfo, blockRange: Range): Position[] {
+    return [...classdefInfo.classInfo.properties.values()]
+        .filter(propertyInfo => isPositionWithinRange(propertyInfo.range.start, blockRange))
+        .map(propertyInfo => propertyInfo.range.start)
+}
+
+export default CodeLensProvider
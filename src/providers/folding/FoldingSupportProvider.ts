@@ -1,4 +1,4 @@
-// Copyright 2024-2025 The MathWorks, Inc.
+// Copyright 2024-2026 The MathWorks, Inc.
 
 import { FoldingRangeParams, TextDocuments, FoldingRange } from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
@@ -6,7 +6,15 @@ import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
 import MVM from '../../mvm/impl/MVM'
 import Logger from '../../logging/Logger'
 import parse from '../../mvm/MdaParser'
-
+import ConfigurationManager from '../../lifecycle/ConfigurationManager'
+import { getOfflineFoldingRanges } from './OfflineFolding'
+
+/**
+ * Handles requests for folding ranges.
+ *
+ * Folding ranges are retrieved from MATLAB when it is connected (R2024b and later). Otherwise,
+ * or when the `offlineFolding` setting is enabled, folding ranges are computed without MATLAB.
+ */
 class FoldingSupportProvider {
     constructor (private readonly matlabLifecycleManager: MatlabLifecycleManager, private readonly mvm: MVM) {}
 
@@ -16,18 +24,24 @@ class FoldingSupportProvider {
             return null
         }
 
+        const code = docToFold.getText()
+
         const isConnected = this.mvm.isReady()
         const matlabRelease = this.matlabLifecycleManager.getMatlabRelease()
+        const isOfflineFoldingEnabled = (await ConfigurationManager.getConfiguration()).offlineFolding
 
         // check for connection and release
-        if (!isConnected || (matlabRelease == null) || (matlabRelease < 'R2024b')) {
-            return null
+        if (isOfflineFoldingEnabled || !isConnected || (matlabRelease == null) || (matlabRelease < 'R2024b')) {
+            return getOfflineFoldingRanges(code)
         }
 
-        const code = docToFold.getText()
-
         const frArray = await this.getFoldingRangesFromMatlab(code)
 
+        if (frArray == null) {
+            // Fall back to computing the folding ranges without MATLAB
+            return getOfflineFoldingRanges(code)
+        }
+
         const foldingRanges = this.processFoldingRanges(frArray)
 
         return foldingRanges;
@@ -39,9 +53,9 @@ class FoldingSupportProvider {
      * @param code The code in the file
      * @param fileName The file's name
      * @param matlabConnection The connection to MATLAB
-     * @returns An array of line numbers
+     * @returns An array of line numbers, or null if an error occurred
      */
-    private async getFoldingRangesFromMatlab (code: string): Promise<number[]> {
+    private async getFoldingRangesFromMatlab (code: string): Promise<number[] | null> {
         try {
             const response = await this.mvm.feval(
                 'matlabls.handlers.folding.getFoldingRanges',
@@ -53,14 +67,14 @@ class FoldingSupportProvider {
                 // Handle MVMError
                 Logger.error('Error received while retrieving folding ranges:')
                 Logger.error(response.error.msg)
-                return []
+                return null
             }
 
             return parse(response.result[0]) as number[]
         } catch (err) {
             Logger.error('Error caught while retrieving folding ranges:')
             Logger.error(err as string)
-            return []
+            return null
         }
     }
 
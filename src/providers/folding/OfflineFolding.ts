@@ -0,0 +1,96 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver'
+import { findCodeBlocks } from '../../utils/CodeBlockUtils'
+import { isBlockCommentEnd, isBlockCommentStart, isSectionHeader, splitLines, tokenize, TokenType } from '../../utils/MatlabLexer'
+
+/**
+ * Computes folding ranges without MATLAB. Ranges are created for blocks of code (e.g.
+ * functions, "if" statements, and "properties" blocks), sections, block comments, and
+ * runs of consecutive comment lines.
+ *
+ * @param code The code
+ * @returns The folding ranges, ordered by their start lines
+ */
+export function getOfflineFoldingRanges (code: string): FoldingRange[] {
+    const lineTexts = splitLines(code)
+    const lines = tokenize(code)
+
+    const foldingRanges: FoldingRange[] = findCodeBlocks(lines)
+        .filter(block => block.endLine > block.startLine)
+        .map(block => FoldingRange.create(block.startLine, block.endLine))
+
+    foldingRanges.push(
+        ...getSectionFoldingRanges(lineTexts),
+        ...getCommentFoldingRanges(lineTexts, lines.map(tokens => tokens.length === 1 && tokens[0].type === TokenType.Comment))
+    )
+
+    return foldingRanges.sort((a, b) => a.startLine - b.startLine)
+}
+
+/**
+ * Gets folding ranges for sections, which extend until the next section header.
+ */
+function getSectionFoldingRanges (lineTexts: string[]): FoldingRange[] {
+    const headerLines = lineTexts.flatMap((lineText, line) => isSectionHeader(lineText) ? [line] : [])
+    const foldingRanges: FoldingRange[] = []
+
+    headerLines.forEach((startLine, index) => {
+        let endLine = (headerLines[index + 1] ?? lineTexts.length) - 1
+
+        // Trailing blank lines are not included in the section
+        while (endLine > startLine && lineTexts[endLine].trim() === '') {
+            endLine--
+        }
+
+        if (endLine > startLine) {
+            foldingRanges.push(FoldingRange.create(startLine, endLine, undefined, undefined, FoldingRangeKind.Region))
+        }
+    })
+
+    return foldingRanges
+}
+
+/**
+ * Gets folding ranges for block comments and runs of consecutive comment lines. Section
+ * headers are not included in runs of comment lines.
+ *
+ * @param lineTexts The lines of code
+ * @param isLineComment Whether each line only contains a (non-block) comment
+ */
+function getCommentFoldingRanges (lineTexts: string[], isLineComment: boolean[]): FoldingRange[] {
+    const foldingRanges: FoldingRange[] = []
+    const blockCommentStarts: number[] = []
+    let runStart: number | null = null
+
+    const endRun = (endLine: number): void => {
+        if (runStart != null && endLine > runStart) {
+            foldingRanges.push(FoldingRange.create(runStart, endLine, undefined, undefined, FoldingRangeKind.Comment))
+        }
+        runStart = null
+    }
+
+    lineTexts.forEach((lineText, line) => {
+        if (isLineComment[line] && !isSectionHeader(lineText)) {
+            runStart = runStart ?? line
+            return
+        }
+
+        endRun(line - 1)
+
+        if (isLineComment[line]) {
+            return
+        }
+
+        if (isBlockCommentStart(lineText)) {
+            blockCommentStarts.push(line)
+        } else if (isBlockCommentEnd(lineText) && blockCommentStarts.length > 0) {
+            const startLine = blockCommentStarts.pop() as number
+            foldingRanges.push(FoldingRange.create(startLine, line, undefined, undefined, FoldingRangeKind.Comment))
+        }
+    })
+
+    endRun(lineTexts.length - 1)
+
+    return foldingRanges
+}
@@ -1,19 +1,33 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
-import { DocumentFormattingParams, DocumentRangeFormattingParams, FormattingOptions, HandlerResult, Position, Range, TextDocuments, TextEdit } from 'vscode-languageserver'
+import { DocumentFormattingParams, DocumentOnTypeFormattingParams, DocumentRangeFormattingParams, FormattingOptions, HandlerResult, Position, Range, TextDocuments, TextEdit } from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
-import LifecycleNotificationHelper from '../../lifecycle/LifecycleNotificationHelper'
 import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
-import { ActionErrorConditions, Actions, reportTelemetryAction } from '../../logging/TelemetryUtils'
+import { Actions, reportTelemetryAction } from '../../logging/TelemetryUtils'
 import * as TextDocumentUtils from '../../utils/TextDocumentUtils'
 import MVM from '../../mvm/impl/MVM'
 import Logger from '../../logging/Logger'
 import parse from '../../mvm/MdaParser'
+import ConfigurationManager from '../../lifecycle/ConfigurationManager'
+import { applyFormattingRules, formatCodeOffline, getLineIndentation, OfflineFormattingOptions } from './OfflineFormatting'
+import { splitLines, tokenize, TokenType } from '../../utils/MatlabLexer'
+
+/**
+ * The characters which trigger formatting while typing: a new line, and the last character
+ * of each keyword matched by REINDENTED_KEYWORD_REGEX (e.g. the "d" of "end")
+ */
+export const ON_TYPE_FORMATTING_TRIGGER_CHARACTERS = ['\n', 'd', 'e', 'f', 'h']
+
+// Lines consisting of a keyword which is re-indented once it is typed
+const REINDENTED_KEYWORD_REGEX = /^\s*(end|else|elseif|case|otherwise|catch)$/
 
 /**
  * Handles requests for format-related features.
- * Currently, this handles formatting the entire document. In the future, this may be expanded to
- * include formatting a range witin the documemt.
+ * Currently, this handles formatting the entire document, a range within the document, or
+ * the current line while typing.
+ *
+ * Code is formatted by MATLAB when it is available. Otherwise, or when the `offlineFormatting`
+ * setting is enabled, code is formatted without MATLAB.
  */
 class FormatSupportProvider {
     constructor (private readonly matlabLifecycleManager: MatlabLifecycleManager, private readonly mvm: MVM) {}
@@ -44,6 +58,57 @@ class FormatSupportProvider {
         return await this.formatRange(docToFormat, params.range, params.options)
     }
 
+    /**
+     * Handles a request for formatting while typing. Typing a keyword which ends or divides a
+     * block (e.g. "end" or "else") re-indents the current line, and typing a new line indents
+     * the new line.
+     *
+     * When MATLAB is connected, the line is formatted by MATLAB. Otherwise, the line is indented
+     * without MATLAB. This does not start MATLAB.
+     *
+     * @param params Parameters from the onDocumentOnTypeFormatting request
+     * @param documentManager The text document manager
+     * @returns An array of text edits required to format the line, or null if the operation cannot be performed
+     */
+    async handleDocumentOnTypeFormatRequest (params: DocumentOnTypeFormattingParams, documentManager: TextDocuments<TextDocument>): Promise<TextEdit[] | null> {
+        const docToFormat = documentManager.get(params.textDocument.uri)
+        if (docToFormat == null) {
+            return null
+        }
+
+        const code = docToFormat.getText()
+        const line = params.position.line
+        const lineText = splitLines(code)[line] ?? ''
+
+        if (params.ch !== '\n' && !REINDENTED_KEYWORD_REGEX.test(lineText.substring(0, params.position.character))) {
+            return []
+        }
+
+        const lines = tokenize(code)
+
+        // Words such as "end" are not keywords within brackets (e.g. when indexing)
+        if (params.ch !== '\n' && lines[line]?.[0]?.type !== TokenType.Keyword) {
+            return []
+        }
+
+        const formattingOptions = await this.getFormattingOptions(params.options)
+        const useMatlab = this.mvm.isReady() && !(await ConfigurationManager.getConfiguration()).offlineFormatting
+
+        // MATLAB does not indent blank lines, so new lines are always indented without MATLAB
+        if (useMatlab && lineText.trim() !== '') {
+            return await this.getFormattingEdits(docToFormat, params.options, true, Range.create(line, 0, line, lineText.length)) ?? []
+        }
+
+        const currentIndentation = /^[ \t]*/.exec(lineText)?.[0] ?? ''
+        const indentation = getLineIndentation(lines, line, formattingOptions)
+
+        if (indentation === currentIndentation) {
+            return []
+        }
+
+        return [TextEdit.replace(Range.create(line, 0, line, currentIndentation.length), indentation)]
+    }
+
     /**
      * Determines the edits required to format the given document.
      *
@@ -52,76 +117,146 @@ class FormatSupportProvider {
      * @returns An array of text edits required to format the document
      */
     private async formatDocument (doc: TextDocument, options: FormattingOptions): Promise<TextEdit[]> {
-        return this.formatWithMatlab(doc, options)
+        return await this.format(doc, options)
     }
 
     private async formatRange (doc: TextDocument, range: Range, options: FormattingOptions): Promise<TextEdit[]> {
-        return this.formatWithMatlab(doc, options, range)
+        return await this.format(doc, options, range)
     }
 
-    private async formatWithMatlab (doc: TextDocument, options: FormattingOptions, formatRange?: Range): Promise<TextEdit[]> {
-        const telemetryAction = formatRange ? Actions.FormatDocumentRange : Actions.FormatDocument
+    private async format (doc: TextDocument, options: FormattingOptions, formatRange?: Range): Promise<TextEdit[]> {
+        const telemetryAction = formatRange != null ? Actions.FormatDocumentRange : Actions.FormatDocument
 
-        // For formatting, we try to instantiate MATLAB® if it is not already running
-        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
+        let useMatlab = !(await ConfigurationManager.getConfiguration()).offlineFormatting
 
-        // If MATLAB is not available, no-op
-        if (matlabConnection == null) {
-            LifecycleNotificationHelper.notifyMatlabRequirement();
-            reportTelemetryAction(telemetryAction, ActionErrorConditions.MatlabUnavailable);
-            return [];
+        if (useMatlab) {
+            // For formatting, we try to instantiate MATLAB® if it is not already running.
+            // If MATLAB is not available, the code is formatted without MATLAB.
+            const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
+            useMatlab = matlabConnection != null
         }
 
-        // As this action may have triggered MATLAB to launch, we may
-        // need to wait until the MVM is ready before proceeding
-        await this.mvm.waitUntilReady()
+        if (useMatlab) {
+            // As this action may have triggered MATLAB to launch, we may
+            // need to wait until the MVM is ready before proceeding
+            await this.mvm.waitUntilReady()
+        }
 
         try {
-            let startLine = 0
-            let endLine = doc.lineCount - 1
-
-            if (formatRange) {
-                // Get range to format. If the end position is at character 0 of a line,
-                // collapse the range to the previous line.
-                startLine = formatRange.start.line
-                endLine = formatRange.end.character === 0
-                    ? formatRange.end.line - 1
-                    : formatRange.end.line
-            }
-
-            const formattedText = await this.getFormattedText(doc.getText(), startLine, endLine, options)
+            const edits = await this.getFormattingEdits(doc, options, useMatlab, formatRange)
 
-            if (formattedText == null) {
+            if (edits == null) {
                 reportTelemetryAction(telemetryAction, 'Error formatting')
                 return []
             }
 
-            const textToReplace = formatRange
-                ? formattedText.split('\n').slice(startLine, endLine + 1).join('\n')
-                : formattedText
-
-            const edit = TextEdit.replace(
-                Range.create(
-                    Position.create(startLine, 0),
-                    TextDocumentUtils.getRangeUntilLineEnd(doc, endLine, 0).end
-                ),
-                textToReplace
-            )
-
             reportTelemetryAction(telemetryAction)
 
-            return [edit]
+            return edits
         } catch (err) {
-            Logger.error(`Error caught while formatting ${formatRange ? 'range' : 'document'}`)
+            Logger.error(`Error caught while formatting ${formatRange != null ? 'range' : 'document'}`)
             Logger.error(err as string)
             return []
         }
     }
 
-    private async getFormattedText (unformattedText: string, startLine: number, endLine: number, options: FormattingOptions): Promise<string | null> {
+    /**
+     * Determines the edits required to format the given document, or a range within it.
+     *
+     * @param doc The document being formatted
+     * @param options The formatting options
+     * @param useMatlab Whether to format the code with MATLAB
+     * @param formatRange The range to format, or undefined to format the entire document
+     * @returns An array of text edits required to format the code, or null if an error occurred
+     */
+    private async getFormattingEdits (doc: TextDocument, options: FormattingOptions, useMatlab: boolean, formatRange?: Range): Promise<TextEdit[] | null> {
+        let startLine = 0
+        let endLine = doc.lineCount - 1
+
+        if (formatRange != null) {
+            // Get range to format. If the end position is at character 0 of a line,
+            // collapse the range to the previous line.
+            startLine = formatRange.start.line
+            endLine = formatRange.end.character === 0
+                ? formatRange.end.line - 1
+                : formatRange.end.line
+        }
+
+        const formattedText = await this.getFormattedText(doc.getText(), startLine, endLine, options, useMatlab)
+
+        if (formattedText == null) {
+            return null
+        }
+
+        // Formatting may add or remove lines within the range, but not after it
+        const formattedLines = formattedText.split('\n')
+        const lineCountAfterRange = doc.lineCount - 1 - endLine
+        const textToReplace = formatRange != null
+            ? formattedLines.slice(startLine, formattedLines.length - lineCountAfterRange).join('\n')
+            : formattedText
+
+        return [TextEdit.replace(
+            Range.create(
+                Position.create(startLine, 0),
+                TextDocumentUtils.getRangeUntilLineEnd(doc, endLine, 0).end
+            ),
+            textToReplace
+        )]
+    }
+
+    /**
+     * Gets the formatted code. When MATLAB returns an error, the code is formatted without MATLAB.
+     *
+     * MATLAB indents the code, and the other formatting rules from the settings (e.g. operator
+     * spacing) are then applied to the result.
+     *
+     * @param unformattedText The code
+     * @param startLine The first line to format (zero-based)
+     * @param endLine The last line to format (zero-based)
+     * @param options The formatting options
+     * @param useMatlab Whether to format the code with MATLAB
+     * @returns The code, with the specified lines formatted, or null if an error occurred
+     */
+    private async getFormattedText (unformattedText: string, startLine: number, endLine: number, options: FormattingOptions, useMatlab: boolean): Promise<string | null> {
+        const formattingOptions = await this.getFormattingOptions(options)
+
+        const indentedText = useMatlab
+            ? await this.getFormattedTextFromMatlab(unformattedText, startLine, endLine, formattingOptions)
+            : null
+
+        if (indentedText == null) {
+            return formatCodeOffline(unformattedText, startLine, endLine, formattingOptions)
+        }
+
+        return applyFormattingRules(indentedText, startLine, endLine, formattingOptions)
+    }
+
+    /**
+     * Combines the client's formatting options with the formatting settings.
+     *
+     * @param options The formatting options from the client
+     * @returns The options for formatting code
+     */
+    private async getFormattingOptions (options: FormattingOptions): Promise<OfflineFormattingOptions> {
+        const settings = await ConfigurationManager.getConfiguration()
+
+        return {
+            tabSize: options.tabSize,
+            insertSpaces: options.insertSpaces,
+            functionIndent: settings.formatFunctionIndent,
+            operatorSpacing: settings.formatOperatorSpacing,
+            commaSpacing: settings.formatCommaSpacing,
+            sectionBlankLines: settings.formatSectionBlankLines,
+            removeTrailingWhitespace: settings.formatRemoveTrailingWhitespace,
+            maxLineLength: settings.formatMaxLineLength
+        }
+    }
+
+    private async getFormattedTextFromMatlab (unformattedText: string, startLine: number, endLine: number, options: OfflineFormattingOptions): Promise<string | null> {
         const requestOpts = {
             insertSpaces: options.insertSpaces,
-            tabSize: options.tabSize
+            tabSize: options.tabSize,
+            functionIndent: options.functionIndent
         }
 
         const response = await this.mvm.feval(
@@ -0,0 +1,541 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { FunctionIndentMode } from '../../lifecycle/ConfigurationManager'
+import { CodeBlock, findCodeBlocks } from '../../utils/CodeBlockUtils'
+import { isBlockCommentEnd, isBlockCommentStart, isContinuedFromPreviousLine, isSectionHeader, splitLines, tokenize, Token, TokenType } from '../../utils/MatlabLexer'
+
+/**
+ * Options for formatting code
+ */
+export interface OfflineFormattingOptions {
+    tabSize: number
+    insertSpaces: boolean
+    // Which function bodies are indented: none ("classic" or "none"), only nested functions and methods ("nested"), or all
+    functionIndent: FunctionIndentMode
+    // Whether to place a single space on each side of binary operators (e.g. "x = a + b")
+    operatorSpacing: boolean
+    // Whether to remove spaces before commas and place a single space after them (e.g. "f(a, b)")
+    commaSpacing: boolean
+    // Whether section headers are preceded by a single blank line, and not followed by blank lines
+    sectionBlankLines: boolean
+    removeTrailingWhitespace: boolean
+    // The length beyond which lines are split with "...", or 0 to not split lines
+    maxLineLength: number
+}
+
+// Block dividers which are indented to the same level as the block (e.g. "else")
+const ALIGNED_DIVIDER_KEYWORDS = new Set(['else', 'elseif', 'catch'])
+
+// Block dividers which are indented within the block (e.g. "case")
+const INDENTED_DIVIDER_KEYWORDS = new Set(['case', 'otherwise'])
+
+// Binary operators which are surrounded by spaces when normalizing operator spacing. Unary,
+// power, colon, and transpose operators are not changed.
+const SPACED_OPERATORS = new Set([
+    '=', '==', '~=', '<', '<=', '>', '>=', '+', '-', '*', '/', '\\', '.*', './', '.\\', '&', '|', '&&', '||'
+])
+
+// Operators which may either be unary or binary
+const UNARY_OPERATORS = new Set(['+', '-'])
+
+const CONTINUATION = '...'
+
+/**
+ * Formats code without MATLAB, following the MATLAB editor's smart indenting rules:
+ *   - Code within blocks (e.g. functions, "if" statements, and "methods" blocks) is indented one level,
+ *     except for function bodies which are not indented according to the `functionIndent` option
+ *   - "else", "elseif", and "catch" are aligned with the start of their block
+ *   - "case" and "otherwise" are indented within "switch" blocks, and the code within them is indented further
+ *   - Lines which continue a statement (with "..." or an unclosed bracket) are indented one level
+ *     beyond the start of the statement
+ *   - The contents of block comments are not changed
+ *
+ * The other formatting rules are then applied with `applyFormattingRules`.
+ *
+ * Only the specified lines are formatted, but their indentation accounts for the entire code.
+ *
+ * @param code The code
+ * @param startLine The first line to format (zero-based)
+ * @param endLine The last line to format (zero-based)
+ * @param options The formatting options
+ * @returns The code, with the specified lines formatted. Lines are separated by "\n".
+ */
+export function formatCodeOffline (code: string, startLine: number, endLine: number, options: OfflineFormattingOptions): string {
+    const lineTexts = splitLines(code)
+    const lines = tokenize(code)
+    const indentLevels = getIndentLevels(lines, options.functionIndent)
+    const indentUnit = getIndentUnit(options)
+
+    const indentedCode = lineTexts.map((lineText, line) => {
+        if (line < startLine || line > endLine) {
+            return lineText
+        }
+
+        const isBlockCommentContent = lines[line][0]?.type === TokenType.BlockComment &&
+            !isBlockCommentStart(lineText) && !isBlockCommentEnd(lineText)
+
+        if (isBlockCommentContent) {
+            return lineText
+        }
+
+        const text = lineText.trimStart()
+        return text === '' ? '' : indentUnit.repeat(indentLevels[line]) + text
+    }).join('\n')
+
+    return applyFormattingRules(indentedCode, startLine, endLine, options)
+}
+
+/**
+ * Applies the formatting rules other than indentation to code: operator and comma spacing,
+ * trailing whitespace removal, blank lines around sections, and the maximum line length. This
+ * is used for code which has been indented, either by MATLAB or by `formatCodeOffline`.
+ *
+ * Only the specified lines are changed. Blank lines may be added or removed, and long lines may
+ * be split, so the number of lines in the result may differ from the code.
+ *
+ * @param code The indented code
+ * @param startLine The first line to format (zero-based)
+ * @param endLine The last line to format (zero-based)
+ * @param options The formatting options
+ * @returns The formatted code. Lines are separated by "\n".
+ */
+export function applyFormattingRules (code: string, startLine: number, endLine: number, options: OfflineFormattingOptions): string {
+    let lineTexts = splitLines(code)
+    const lines = tokenize(code)
+    const innermostBrackets = getInnermostBrackets(lines)
+
+    lineTexts = lineTexts.map((lineText, line) => {
+        if (line < startLine || line > endLine) {
+            return lineText
+        }
+
+        const tokens = lines[line]
+        if (tokens.length > 0 && tokens[0].type !== TokenType.BlockComment) {
+            const indentation = lineText.substring(0, tokens[0].start)
+            lineText = indentation + normalizeSpacing(lineText, tokens, innermostBrackets[line], options)
+        }
+
+        return options.removeTrailingWhitespace ? lineText.trimEnd() : lineText
+    })
+
+    if (options.sectionBlankLines) {
+        const lineCount = lineTexts.length
+        lineTexts = normalizeSectionBlankLines(lineTexts, lines, startLine, endLine)
+        endLine += lineTexts.length - lineCount
+    }
+
+    if (options.maxLineLength > 0) {
+        lineTexts = splitLongLines(lineTexts, startLine, endLine, options)
+    }
+
+    return lineTexts.join('\n')
+}
+
+/**
+ * Gets the indentation for a line of code, following the same rules as `formatCodeOffline`.
+ * Blank lines are indented as though they contained a statement, so that this can be used to
+ * indent a new line while typing.
+ *
+ * @param lines The tokenized lines of code
+ * @param line The line (zero-based)
+ * @param options The indentation options
+ * @returns The whitespace which indents the line
+ */
+export function getLineIndentation (lines: Token[][], line: number, options: Pick<OfflineFormattingOptions, 'tabSize' | 'insertSpaces' | 'functionIndent'>): string {
+    const indentLevel = getIndentLevels(lines, options.functionIndent)[line] ?? 0
+    return getIndentUnit(options).repeat(indentLevel)
+}
+
+/**
+ * Gets the whitespace for one level of indentation.
+ */
+function getIndentUnit (options: Pick<OfflineFormattingOptions, 'tabSize' | 'insertSpaces'>): string {
+    return options.insertSpaces ? ' '.repeat(options.tabSize) : '\t'
+}
+
+/**
+ * Computes the indentation level of each line.
+ *
+ * @param lines The tokenized lines of code
+ * @param functionIndent Which function bodies are indented
+ * @returns The number of indentation levels for each line
+ */
+function getIndentLevels (lines: Token[][], functionIndent: FunctionIndentMode): number[] {
+    // Changes in the indentation level, relative to the previous line
+    const levelChanges: number[] = new Array(lines.length + 1).fill(0)
+
+    const addLevel = (fromLine: number, toLine: number, change: number): void => {
+        if (fromLine <= toLine) {
+            levelChanges[fromLine] += change
+            levelChanges[toLine + 1] -= change
+        }
+    }
+
+    // The blocks containing the current block, from outermost to innermost
+    const enclosingBlocks: CodeBlock[] = []
+
+    findCodeBlocks(lines).forEach(block => {
+        while (enclosingBlocks.length > 0 && enclosingBlocks[enclosingBlocks.length - 1].endLine < block.startLine) {
+            enclosingBlocks.pop()
+        }
+
+        const lastIndentedLine = getLastIndentedLine(lines, block)
+        if (block.keyword !== 'function' || isFunctionBodyIndented(functionIndent, enclosingBlocks.length > 0)) {
+            addLevel(block.startLine + 1, lastIndentedLine, 1)
+        }
+        enclosingBlocks.push(block)
+
+        block.dividerLines.forEach((dividerLine, index) => {
+            const divider = lines[dividerLine][0]
+            if (divider?.type !== TokenType.Keyword) {
+                return
+            }
+
+            if (ALIGNED_DIVIDER_KEYWORDS.has(divider.text)) {
+                addLevel(dividerLine, dividerLine, -1)
+            } else if (INDENTED_DIVIDER_KEYWORDS.has(divider.text)) {
+                if (index === 0) {
+                    // Code within cases is indented one level beyond the cases
+                    addLevel(dividerLine + 1, lastIndentedLine, 1)
+                } else {
+                    addLevel(dividerLine, dividerLine, -1)
+                }
+            }
+        })
+    })
+
+    // Lines which continue a statement are indented one level beyond the start of the statement
+    let level = 0
+    let statementLevel = 0
+    return lines.map((tokens, line) => {
+        level += levelChanges[line]
+
+        if (isContinuedFromPreviousLine(lines, line)) {
+            return statementLevel + 1
+        }
+
+        if (tokens.length > 0) {
+            statementLevel = Math.max(level, 0)
+        }
+        return Math.max(level, 0)
+    })
+}
+
+/**
+ * Determines whether the body of a function is indented.
+ *
+ * @param functionIndent Which function bodies are indented
+ * @param isNested Whether the function is within another block (e.g. a nested function or a method)
+ */
+function isFunctionBodyIndented (functionIndent: FunctionIndentMode, isNested: boolean): boolean {
+    switch (functionIndent) {
+        case 'classic':
+        case 'none':
+            return false
+        case 'nested':
+            return isNested
+        default:
+            return true
+    }
+}
+
+/**
+ * Gets the last line which is indented within a block. This excludes the line containing
+ * the block's "end", if the line begins with "end". Blocks which are not terminated by "end"
+ * include the blank lines after them.
+ */
+function getLastIndentedLine (lines: Token[][], block: CodeBlock): number {
+    if (!block.hasEnd) {
+        let lastLine = block.endLine
+        while (lastLine + 1 < lines.length && lines[lastLine + 1].length === 0) {
+            lastLine++
+        }
+        return lastLine
+    }
+
+    const firstToken = lines[block.endLine][0]
+    const isEndLine = firstToken?.type === TokenType.Keyword && firstToken.text === 'end'
+    return isEndLine ? block.endLine - 1 : block.endLine
+}
+
+/**
+ * Gets the innermost open bracket before each token.
+ *
+ * @param lines The tokenized lines of code
+ * @returns For each line, the innermost open bracket before each token, if any
+ */
+function getInnermostBrackets (lines: Token[][]): Array<Array<string | undefined>> {
+    const bracketStack: string[] = []
+
+    return lines.map(tokens => tokens.map(token => {
+        if (token.type === TokenType.CloseBracket) {
+            bracketStack.pop()
+        }
+
+        const innermostBracket = bracketStack[bracketStack.length - 1]
+
+        if (token.type === TokenType.OpenBracket) {
+            bracketStack.push(token.text)
+        }
+
+        return innermostBracket
+    }))
+}
+
+/**
+ * Normalizes the spacing around operators and commas in a line, as specified by the formatting
+ * options. Other whitespace between tokens is preserved.
+ *
+ * Within square brackets and braces, whitespace may separate elements (e.g. "[1 -2]"), so the
+ * spacing around operators is not changed. Lines using command syntax (e.g. "cd ../folder")
+ * are also not changed.
+ *
+ * @param lineText The text of the line
+ * @param tokens The tokens in the line
+ * @param innermostBrackets The innermost open bracket before each token
+ * @param options The formatting options
+ * @returns The text of the line, without leading whitespace
+ */
+function normalizeSpacing (lineText: string, tokens: Token[], innermostBrackets: Array<string | undefined>, options: OfflineFormattingOptions): string {
+    if ((!options.operatorSpacing && !options.commaSpacing) || isCommandSyntax(lineText, tokens)) {
+        return lineText.trimStart()
+    }
+
+    const isSpacedOperatorToken = (index: number): boolean => options.operatorSpacing && isSpacedOperator(tokens, index, innermostBrackets[index])
+    const isComma = (index: number): boolean => options.commaSpacing && tokens[index].text === ','
+
+    let text = lineText.substring(tokens[0].start, tokens[0].end)
+    for (let index = 1; index < tokens.length; index++) {
+        const previousToken = tokens[index - 1]
+        const token = tokens[index]
+
+        let whitespace = lineText.substring(previousToken.end, token.start)
+        if (isComma(index)) {
+            whitespace = ''
+        } else if (isSpacedOperatorToken(index) || isSpacedOperatorToken(index - 1) || isComma(index - 1)) {
+            whitespace = ' '
+        }
+
+        text += whitespace + lineText.substring(token.start, token.end)
+    }
+
+    return text + lineText.substring(tokens[tokens.length - 1].end)
+}
+
+/**
+ * Determines whether a token is a binary operator which can be surrounded by spaces without
+ * changing the meaning of the code.
+ *
+ * @param tokens The tokens in the line
+ * @param index The index of the token
+ * @param innermostBracket The innermost open bracket before the token, if any
+ */
+function isSpacedOperator (tokens: Token[], index: number, innermostBracket: string | undefined): boolean {
+    const token = tokens[index]
+    if (token.type !== TokenType.Operator || !SPACED_OPERATORS.has(token.text)) {
+        return false
+    }
+
+    if (innermostBracket === '[' || innermostBracket === '{') {
+        return false
+    }
+
+    // Name-value arguments (e.g. "f(Name=value)") are not spaced
+    if (token.text === '=' && token.bracketDepth > 0) {
+        return false
+    }
+
+    return !UNARY_OPERATORS.has(token.text) || !isUnaryOperator(tokens, index)
+}
+
+/**
+ * Determines whether a "+" or "-" operator is unary (e.g. "x = -1"), based on the token before it.
+ */
+function isUnaryOperator (tokens: Token[], index: number): boolean {
+    const previousToken = tokens[index - 1]
+    if (previousToken == null) {
+        return true
+    }
+
+    switch (previousToken.type) {
+        case TokenType.Operator:
+            // Transposes end a value (e.g. "x' - 1")
+            return previousToken.text !== '\'' && previousToken.text !== '.\''
+        case TokenType.OpenBracket:
+        case TokenType.Separator:
+        case TokenType.Keyword:
+            return true
+        default:
+            return false
+    }
+}
+
+/**
+ * Determines whether a line uses command syntax, in which the arguments are not separated by
+ * brackets and may contain operator characters (e.g. "cd ../folder" or "hold on").
+ */
+function isCommandSyntax (lineText: string, tokens: Token[]): boolean {
+    const [command, argument] = tokens
+    if (command.type !== TokenType.Identifier || argument == null || argument.start === command.end) {
+        return false
+    }
+
+    switch (argument.type) {
+        case TokenType.Identifier:
+        case TokenType.Number:
+        case TokenType.String:
+            return true
+        case TokenType.Operator: {
+            // An operator followed by whitespace is a binary operator (e.g. "x - 1")
+            const nextCharacter = lineText.charAt(argument.end)
+            return argument.text !== '=' && nextCharacter !== '' && !/\s/.test(nextCharacter)
+        }
+        default:
+            return false
+    }
+}
+
+/**
+ * Places a single blank line before each section header, unless the header begins the code,
+ * and removes the blank lines after each section header. Only blank lines within the specified
+ * lines are removed.
+ *
+ * @param lineTexts The lines of code
+ * @param lines The tokenized lines of code
+ * @param startLine The first line to format (zero-based)
+ * @param endLine The last line to format (zero-based)
+ * @returns The lines of code, with blank lines added or removed
+ */
+function normalizeSectionBlankLines (lineTexts: string[], lines: Token[][], startLine: number, endLine: number): string[] {
+    const isBlank = (line: number): boolean => lines[line].length === 0
+    const isHeader = (line: number): boolean => {
+        return lines[line].length === 1 && lines[line][0].type === TokenType.Comment && isSectionHeader(lineTexts[line])
+    }
+
+    // The closest non-blank line before and after each line
+    const previousCodeLines: Array<number | undefined> = []
+    const nextCodeLines: Array<number | undefined> = []
+    for (let line = 0; line < lineTexts.length; line++) {
+        previousCodeLines[line] = line > 0 && !isBlank(line - 1) ? line - 1 : previousCodeLines[line - 1]
+    }
+    for (let line = lineTexts.length - 1; line >= 0; line--) {
+        nextCodeLines[line] = line + 1 < lineTexts.length && !isBlank(line + 1) ? line + 1 : nextCodeLines[line + 1]
+    }
+
+    const result: string[] = []
+    lineTexts.forEach((lineText, line) => {
+        const isInRange = line >= startLine && line <= endLine
+        const previousCodeLine = previousCodeLines[line]
+        const nextCodeLine = nextCodeLines[line]
+
+        if (isInRange && isBlank(line)) {
+            const isBeforeHeader = nextCodeLine != null && nextCodeLine <= endLine && isHeader(nextCodeLine)
+            const isAfterHeader = previousCodeLine != null && isHeader(previousCodeLine)
+            if (isBeforeHeader || isAfterHeader) {
+                return
+            }
+        }
+
+        if (isInRange && isHeader(line) && previousCodeLine != null && result[result.length - 1].trim() !== '') {
+            result.push('')
+        }
+
+        result.push(lineText)
+    })
+
+    return result
+}
+
+/**
+ * Splits lines which are longer than the maximum line length with "...". Lines are split after
+ * commas or before binary operators. Lines which cannot be split are not changed.
+ *
+ * @param lineTexts The lines of code
+ * @param startLine The first line to format (zero-based)
+ * @param endLine The last line to format (zero-based)
+ * @param options The formatting options
+ * @returns The lines of code, with long lines split
+ */
+function splitLongLines (lineTexts: string[], startLine: number, endLine: number, options: OfflineFormattingOptions): string[] {
+    const lines = tokenize(lineTexts.join('\n'))
+    const innermostBrackets = getInnermostBrackets(lines)
+    const indentUnit = getIndentUnit(options)
+
+    return lineTexts.flatMap((lineText, line) => {
+        const tokens = lines[line]
+        const isSplittable = line >= startLine && line <= endLine &&
+            getLineLength(lineText, options.tabSize) > options.maxLineLength &&
+            tokens.length > 0 && tokens[0].type !== TokenType.BlockComment && tokens[0].type !== TokenType.Comment &&
+            !isCommandSyntax(lineText, tokens)
+
+        if (!isSplittable) {
+            return [lineText]
+        }
+
+        // Continued lines are indented one level beyond the start of the statement
+        const indentation = lineText.substring(0, tokens[0].start)
+        const continuationIndentation = isContinuedFromPreviousLine(lines, line) ? indentation : indentation + indentUnit
+
+        const splitPositions = getSplitPositions(tokens, innermostBrackets[line])
+        const resultLines: string[] = []
+        let segmentStart = tokens[0].start
+        let segmentIndentation = indentation
+
+        while (getLineLength(segmentIndentation + lineText.substring(segmentStart), options.tabSize) > options.maxLineLength) {
+            const getSplitLine = (position: number): string => {
+                return `${segmentIndentation}${lineText.substring(segmentStart, position).trimEnd()} ${CONTINUATION}`
+            }
+
+            const fittingPositions = splitPositions.filter(position => {
+                return position > segmentStart && getLineLength(getSplitLine(position), options.tabSize) <= options.maxLineLength
+            })
+            if (fittingPositions.length === 0) {
+                break
+            }
+
+            const splitPosition = fittingPositions[fittingPositions.length - 1]
+            resultLines.push(getSplitLine(splitPosition))
+
+            segmentStart = splitPosition + (lineText.substring(splitPosition).length - lineText.substring(splitPosition).trimStart().length)
+            segmentIndentation = continuationIndentation
+        }
+
+        resultLines.push(segmentIndentation + lineText.substring(segmentStart))
+        return resultLines
+    })
+}
+
+/**
+ * Gets the positions within a line at which it can be split: after commas, and before binary
+ * operators. Lines are not split within comments or after line continuations.
+ *
+ * @param tokens The tokens in the line
+ * @param innermostBrackets The innermost open bracket before each token
+ * @returns The character offsets at which the line can be split, in ascending order
+ */
+function getSplitPositions (tokens: Token[], innermostBrackets: Array<string | undefined>): number[] {
+    const positions: number[] = []
+
+    for (let index = 1; index < tokens.length; index++) {
+        const token = tokens[index]
+        if (token.type === TokenType.Comment || token.type === TokenType.Continuation) {
+            break
+        }
+
+        const previousToken = tokens[index - 1]
+        if (previousToken.text === ',') {
+            positions.push(previousToken.end)
+        } else if (token.text !== '=' && isSpacedOperator(tokens, index, innermostBrackets[index])) {
+            positions.push(token.start)
+        }
+    }
+
+    return positions
+}
+
+/**
+ * Gets the length of a line, counting each tab as the tab size.
+ */
+function getLineLength (lineText: string, tabSize: number): number {
+    return lineText.replace(/\t/g, ' '.repeat(tabSize)).length
+}
@@ -1,4 +1,4 @@
-// Copyright 2025 The MathWorks, Inc.
+// Copyright 2025 - 2026 The MathWorks, Inc.
 
 import { DocumentHighlight, DocumentHighlightKind, DocumentHighlightParams, Range, TextDocuments } from 'vscode-languageserver'
 import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
@@ -41,15 +41,6 @@ class HighlightSymbolProvider {
     async handleDocumentHighlightRequest (params: DocumentHighlightParams,
         documentManager: TextDocuments<TextDocument>): Promise<DocumentHighlight[] | null> {
 
-        // Since this request handler is activated by clicking on any text in a
-        // MATLAB file, we should not connect to MATLAB just because it was called
-        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(false)
-        if (matlabConnection == null) {
-            // If MATLAB is not connected, fall back to the client's default
-            // highlighting behavior
-            return null
-        }
-
         const currentDocumentUri = params.textDocument.uri
 
         const textDocument = documentManager.get(currentDocumentUri)
@@ -0,0 +1,281 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { Hover, HoverParams, Location, MarkupKind, Position, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
+import MVM from '../../mvm/impl/MVM'
+import FileInfoIndex, { getAllFunctionScopes, MatlabCodeInfo, MatlabFunctionScopeInfo } from '../../indexing/FileInfoIndex'
+import Indexer from '../../indexing/Indexer'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import PathResolver from '../navigation/PathResolver'
+import * as SymbolSearchService from '../../indexing/SymbolSearchService'
+import { reportTelemetry, RequestType } from '../../indexing/SymbolSearchService'
+import { areRangesEqual } from '../../utils/RangeUtils'
+import { getExpressionAtPosition } from '../../utils/ExpressionUtils'
+import { getHelpText, getMemberHelpText } from '../../utils/HelpTextUtils'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+import Logger from '../../logging/Logger'
+import parse from '../../mvm/MdaParser'
+
+/**
+ * The information displayed when hovering over a symbol
+ */
+interface HoverInfo {
+    signature: string
+    helpText: string
+    declaringUri?: string
+}
+
+/**
+ * Handles requests for hover information.
+ *
+ * For functions, classes, and properties defined in indexed files, the hover
+ * shows the declaration's signature, its help text, and the file in which it
+ * is declared. For symbols without an indexed definition (e.g. functions which
+ * ship with a toolbox), MATLAB's help text is shown instead if MATLAB is running.
+ */
+class HoverProvider {
+    constructor (
+        protected readonly matlabLifecycleManager: MatlabLifecycleManager,
+        protected readonly mvm: MVM,
+        protected readonly fileInfoIndex: FileInfoIndex,
+        protected readonly indexer: Indexer,
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Handles a request for hover information.
+     *
+     * @param params Parameters for the onHover request
+     * @param documentManager The text document manager
+     * @returns The hover information, or null if there is nothing to show
+     */
+    async handleHoverRequest (params: HoverParams, documentManager: TextDocuments<TextDocument>): Promise<Hover | null> {
+        const uri = params.textDocument.uri
+
+        const textDocument = documentManager.get(uri)
+        if (textDocument == null) {
+            reportTelemetry(RequestType.Hover, 'No document')
+            return null
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const selectedComponent = SymbolSearchService.findSelectedIdentifierComponent(
+            uri, params.position, this.fileInfoIndex, documentManager, RequestType.Hover
+        )
+        if (selectedComponent == null) {
+            return null
+        }
+
+        const definitions = await SymbolSearchService.findDefinitions(
+            uri, params.position, this.fileInfoIndex, documentManager, this.pathResolver, this.indexer, RequestType.Hover
+        )
+
+        let hoverInfo: HoverInfo | null = null
+        if (definitions.length > 0) {
+            hoverInfo = await this.getHoverInfoForDefinition(definitions[0], uri, documentManager)
+        }
+        // Since this request handler is activated by moving the mouse over any
+        // text in a MATLAB file, we should not connect to MATLAB just because
+        // it was called
+        if (hoverInfo == null && (await this.matlabLifecycleManager.getMatlabConnection(false)) != null) {
+            hoverInfo = await this.getHoverInfoFromMatlab(textDocument, params.position)
+        }
+        if (hoverInfo == null) {
+            return null
+        }
+
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: formatHoverInfo(hoverInfo)
+            },
+            range: selectedComponent.range
+        }
+    }
+
+    /**
+     * Determines the hover information for a definition found in the index.
+     *
+     * @param definition The location of the definition
+     * @param sourceUri The URI of the document being hovered over
+     * @param documentManager The text document manager
+     * @returns The hover information, or null if the definition is not in an indexed file
+     */
+    private async getHoverInfoForDefinition (definition: Location, sourceUri: string, documentManager: TextDocuments<TextDocument>): Promise<HoverInfo | null> {
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(definition.uri)
+        if (codeInfo == null) {
+            return null
+        }
+
+        const lines = await getFileLines(definition.uri, documentManager)
+        if (lines == null) {
+            return null
+        }
+
+        const functionScope = getAllFunctionScopes(codeInfo).find(
+            scope => areRangesEqual(scope.declarationNameId.range, definition.range)
+        )
+        if (functionScope != null) {
+            return {
+                signature: getFunctionSignature(functionScope),
+                helpText: getHelpText(lines, functionScope.range.start.line),
+                declaringUri: definition.uri
+            }
+        }
+
+        const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+        if (classdefInfo != null && areRangesEqual(classdefInfo.declarationNameId.range, definition.range)) {
+            const baseClasses = classdefInfo.baseClasses.map(baseClass => baseClass.name)
+            const baseClassList = baseClasses.length > 0 ? ` < ${baseClasses.join(' & ')}` : ''
+            const signature = `classdef ${getQualifiedName(codeInfo, classdefInfo.declarationNameId.name)}${baseClassList}`
+
+            return {
+                signature,
+                helpText: getHelpText(lines, classdefInfo.range.start.line),
+                declaringUri: definition.uri
+            }
+        }
+
+        const classInfo = codeInfo.associatedClassInfo
+        const member = [...(classInfo?.properties.values() ?? []), ...(classInfo?.enumerations.values() ?? [])].find(
+            memberInfo => areRangesEqual(memberInfo.range, definition.range)
+        )
+        if (member != null) {
+            const className = classInfo?.classdefInfo?.declarationNameId.name
+            const memberType = classInfo?.properties.has(member.name) === true ? 'property' : 'enumeration'
+
+            return {
+                signature: `${memberType} ${className != null ? `${className}.` : ''}${member.name}`,
+                helpText: getMemberHelpText(lines, member.range.start.line),
+                declaringUri: definition.uri
+            }
+        }
+
+        // Otherwise, show the statement in which the identifier (e.g. a variable) is
+        // defined. This only applies within the current file - a definition in another
+        // file which is not a function, class, or member is only a placeholder location.
+        if (definition.uri !== sourceUri) {
+            return null
+        }
+
+        const definitionLine = lines[definition.range.start.line]
+        if (definitionLine == null || definitionLine.trim() === '') {
+            return null
+        }
+
+        return {
+            signature: definitionLine.trim(),
+            helpText: ''
+        }
+    }
+
+    /**
+     * Retrieves hover information from MATLAB's help for the expression at the
+     * given position. This is used for symbols which are not defined in indexed
+     * files, such as functions shipping with MATLAB and toolboxes.
+     *
+     * @param textDocument The document being hovered over
+     * @param position The hover position
+     * @returns The hover information, or null if MATLAB has no help for the expression
+     */
+    private async getHoverInfoFromMatlab (textDocument: TextDocument, position: Position): Promise<HoverInfo | null> {
+        if (!this.mvm.isReady()) {
+            // MVM not yet ready
+            return null
+        }
+
+        const expression = getExpressionAtPosition(textDocument, position)
+        if (expression == null) {
+            return null
+        }
+
+        try {
+            const response = await this.mvm.feval(
+                'matlabls.handlers.hover.getHelpText',
+                1,
+                [expression.targetExpression]
+            )
+
+            if ('error' in response) {
+                Logger.error('Error received while retrieving help text:')
+                Logger.error(response.error.msg)
+                return null
+            }
+
+            const helpText = (parse(response.result[0]) as string).trim()
+            if (helpText === '') {
+                return null
+            }
+
+            return {
+                signature: expression.targetExpression,
+                helpText
+            }
+        } catch (err) {
+            Logger.error('Error caught while retrieving help text:')
+            Logger.error(err as string)
+            return null
+        }
+    }
+}
+
+/**
+ * Builds a function signature, such as "function [a, b] = fun(x, y)".
+ */
+function getFunctionSignature (functionScope: MatlabFunctionScopeInfo): string {
+    const outputArgs = [...functionScope.outputArgs]
+    const inputArgs = [...functionScope.inputArgs]
+
+    let outputs = ''
+    if (outputArgs.length === 1) {
+        outputs = `${outputArgs[0]} = `
+    } else if (outputArgs.length > 1) {
+        outputs = `[${outputArgs.join(', ')}] = `
+    }
+
+    return `function ${outputs}${functionScope.declarationNameId.name}(${inputArgs.join(', ')})`
+}
+
+function getQualifiedName (codeInfo: MatlabCodeInfo, name: string): string {
+    return codeInfo.package === '' ? name : `${codeInfo.package}.${name}`
+}
+
+async function getFileLines (uri: string, documentManager: TextDocuments<TextDocument>): Promise<string[] | null> {
+    const openDocument = documentManager.get(uri)
+    if (openDocument != null) {
+        return openDocument.getText().split(/\r?\n/)
+    }
+
+    try {
+        const fileContentBuffer = await fs.readFile(FileNameUtils.getFilePathFromUri(uri))
+        return fileContentBuffer.toString().split(/\r?\n/)
+    } catch (err) {
+        Logger.error(`Error reading file for hover: ${uri}`)
+        return null
+    }
+}
+
+/**
+ * Formats hover information as markdown.
+ */
+function formatHoverInfo (hoverInfo: HoverInfo): string {
+    const sections = ['```matlab\n' + hoverInfo.signature + '\n```']
+
+    if (hoverInfo.helpText !== '') {
+        sections.push('```text\n' + hoverInfo.helpText + '\n```')
+    }
+
+    if (hoverInfo.declaringUri != null) {
+        const fileName = path.basename(FileNameUtils.getFilePathFromUri(hoverInfo.declaringUri))
+        sections.push(`Declared in [${fileName}](${hoverInfo.declaringUri})`)
+    }
+
+    return sections.join('\n\n---\n\n')
+}
+
+export default HoverProvider
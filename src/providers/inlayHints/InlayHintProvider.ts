@@ -0,0 +1,135 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { InlayHint, InlayHintKind, InlayHintParams, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import FileInfoIndex, { getAllFunctionScopes, MatlabFunctionScopeInfo, MatlabGlobalScopeInfo } from '../../indexing/FileInfoIndex'
+import Indexer from '../../indexing/Indexer'
+import ConfigurationManager from '../../lifecycle/ConfigurationManager'
+import PathResolver from '../navigation/PathResolver'
+import { CallArgument, getAssignedOutputs, getCallArguments } from '../../utils/CallArgumentUtils'
+import { resolveCalledFunction } from '../../utils/FunctionResolutionUtils'
+
+/**
+ * Handles requests for inlay hints.
+ *
+ * When a function call resolves to an indexed function, the names of the
+ * function's input arguments are shown before the arguments passed in the
+ * call (e.g. "solve(A:A, b:b, tol:1e-6)"). Optionally, the names of the
+ * function's output arguments are shown before the variables assigned in a
+ * multiple assignment (e.g. "[x:xs, flag:f] = solve(...)").
+ *
+ * Method calls using dot syntax (e.g. "obj.method(x)") are not supported.
+ */
+class InlayHintProvider {
+    constructor (
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly fileInfoIndex: FileInfoIndex,
+        protected readonly indexer: Indexer,
+        protected readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Handles a request for the inlay hints within a range of a document.
+     *
+     * @param params Parameters for the inlay hint request
+     * @param documentManager The text document manager
+     * @returns The inlay hints
+     */
+    async handleInlayHintRequest (params: InlayHintParams, documentManager: TextDocuments<TextDocument>): Promise<InlayHint[]> {
+        const uri = params.textDocument.uri
+        const textDocument = documentManager.get(uri)
+        if (textDocument == null) {
+            return []
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(uri)
+        if (codeInfo == null) {
+            return []
+        }
+
+        const shouldShowOutputNames = (await ConfigurationManager.getConfiguration()).outputNameInlayHints
+        const text = textDocument.getText()
+
+        // Avoid resolving the same function multiple times
+        const resolvedFunctions = new Map<string, MatlabFunctionScopeInfo | null>()
+
+        const hints: InlayHint[] = []
+        const scopes: Array<MatlabGlobalScopeInfo | MatlabFunctionScopeInfo> = [codeInfo.globalScopeInfo, ...getAllFunctionScopes(codeInfo)]
+
+        for (const scope of scopes) {
+            for (const referenceInfo of scope.functionOrUnboundReferences.values()) {
+                for (const reference of referenceInfo.references) {
+                    if (reference.range.start.line < params.range.start.line || reference.range.start.line > params.range.end.line) {
+                        continue
+                    }
+
+                    const args = getCallArguments(text, textDocument.offsetAt(reference.range.end)) ?? []
+                    const outputs = shouldShowOutputNames ? getAssignedOutputs(text, textDocument.offsetAt(reference.range.start)) ?? [] : []
+
+                    if (args.length === 0 && outputs.length === 0) {
+                        continue
+                    }
+
+                    let functionScope = resolvedFunctions.get(reference.name)
+                    if (functionScope === undefined) {
+                        const resolvedFunction = await resolveCalledFunction(uri, reference, this.fileInfoIndex, this.pathResolver, this.indexer)
+                        functionScope = resolvedFunction?.functionScope ?? null
+                        resolvedFunctions.set(reference.name, functionScope)
+                    }
+
+                    if (functionScope == null) {
+                        continue
+                    }
+
+                    hints.push(
+                        ...createHints(textDocument, args, [...functionScope.inputArgs], 'varargin'),
+                        ...createHints(textDocument, outputs, [...functionScope.outputArgs], 'varargout')
+                    )
+                }
+            }
+        }
+
+        return hints.sort((a, b) => textDocument.offsetAt(a.position) - textDocument.offsetAt(b.position))
+    }
+}
+
+/**
+ * Creates hints naming each argument with the corresponding name in a function declaration.
+ *
+ * @param textDocument The text document containing the arguments
+ * @param args The arguments in the call (or outputs in the assignment)
+ * @param names The argument names from the function declaration
+ * @param variableName The name which accepts a variable number of arguments ("varargin" or
+ *     "varargout"), after which arguments cannot be named
+ * @returns The inlay hints
+ */
+function createHints (textDocument: TextDocument, args: CallArgument[], names: string[], variableName: string): InlayHint[] {
+    const hints: InlayHint[] = []
+
+    for (let i = 0; i < Math.min(args.length, names.length); i++) {
+        const name = names[i]
+        if (name === variableName) {
+            break
+        }
+
+        // Hints would be redundant for unnamed arguments (~) and
+        // arguments which already match the declared name
+        if (name === '~' || args[i].text === name) {
+            continue
+        }
+
+        hints.push({
+            position: textDocument.positionAt(args[i].offset),
+            label: `${name}:`,
+            kind: InlayHintKind.Parameter,
+            paddingRight: true
+        })
+    }
+
+    return hints
+}
+
+export default InlayHintProvider
@@ -0,0 +1,229 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import * as fs from 'fs/promises'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import FileInfoIndex, { FunctionOrUnboundIdentifier, getAllFunctionScopes, MatlabFunctionScopeInfo, MatlabGlobalScopeInfo } from '../../indexing/FileInfoIndex'
+import Indexer from '../../indexing/Indexer'
+import PathResolver from '../navigation/PathResolver'
+import { CallArgument, getAssignedOutputs, getCallArguments } from '../../utils/CallArgumentUtils'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+import { ResolvedFunction, resolveCalledFunction } from '../../utils/FunctionResolutionUtils'
+
+/**
+ * The ID of diagnostics reported for calls passing too many input arguments
+ */
+export const TOO_MANY_INPUTS_ID = 'TooManyInputs'
+
+/**
+ * The ID of diagnostics reported for calls requesting too many output arguments
+ */
+export const TOO_MANY_OUTPUTS_ID = 'TooManyOutputs'
+
+// Matches a single assignment preceding a function call (e.g. "x = " or "s.field(2) = ")
+const SINGLE_ASSIGNMENT_REGEX = /^\s*[A-Za-z]\w*(?:\.\w+|\([^()]*\)|\{[^{}]*\})*\s*=\s*$/
+
+// Matches an argument using name=value syntax (e.g. "Color=red"), which passes two inputs
+const NAME_VALUE_ARGUMENT_REGEX = /^[A-Za-z]\w*(?:\.\w+)*\s*=(?!=)/
+
+/**
+ * Finds calls to indexed functions in other files which pass more input arguments, or
+ * request more output arguments, than the function accepts. Code Analyzer only checks
+ * calls to functions within the same file.
+ *
+ * Calls are not checked when the number of arguments cannot be determined, such as when
+ * a comma-separated list (e.g. "c{:}") is passed, or when the function accepts name-value
+ * arguments through an arguments block.
+ */
+class ArgumentCountAnalyzer {
+    constructor (
+        private readonly documentIndexer: DocumentIndexer,
+        private readonly fileInfoIndex: FileInfoIndex,
+        private readonly indexer: Indexer,
+        private readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Finds calls with too many input or output arguments.
+     *
+     * @param uri The URI of the file containing the code
+     * @param code The code
+     * @returns Diagnostics for the calls with too many arguments
+     */
+    async analyze (uri: string, code: string): Promise<Diagnostic[]> {
+        const textDocument = TextDocument.create(uri, 'matlab', 0, code)
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(uri)
+        if (codeInfo == null) {
+            return []
+        }
+
+        // Avoid resolving the same function, and reading the same file, multiple times
+        const resolvedFunctions = new Map<string, ResolvedFunction | null>()
+        const fileContents = new Map<string, string | null>()
+
+        const diagnostics: Diagnostic[] = []
+        const scopes: Array<MatlabGlobalScopeInfo | MatlabFunctionScopeInfo> = [codeInfo.globalScopeInfo, ...getAllFunctionScopes(codeInfo)]
+
+        for (const scope of scopes) {
+            for (const referenceInfo of scope.functionOrUnboundReferences.values()) {
+                for (const reference of referenceInfo.references) {
+                    if (!isReferenceInCode(textDocument, reference)) {
+                        // The index does not match the code
+                        continue
+                    }
+
+                    let resolvedFunction = resolvedFunctions.get(reference.name)
+                    if (resolvedFunction === undefined) {
+                        resolvedFunction = await resolveCalledFunction(uri, reference, this.fileInfoIndex, this.pathResolver, this.indexer)
+                        resolvedFunctions.set(reference.name, resolvedFunction)
+                    }
+
+                    if (resolvedFunction == null || resolvedFunction.location.uri === uri) {
+                        // Calls within the same file are checked by Code Analyzer
+                        continue
+                    }
+
+                    const declarationUri = resolvedFunction.location.uri
+                    if (!fileContents.has(declarationUri)) {
+                        fileContents.set(declarationUri, await readFile(declarationUri))
+                    }
+
+                    diagnostics.push(...this.checkCall(
+                        textDocument, reference, resolvedFunction, fileContents.get(declarationUri) ?? null
+                    ))
+                }
+            }
+        }
+
+        return diagnostics
+    }
+
+    /**
+     * Checks the number of input and output arguments in a function call.
+     *
+     * @param textDocument The document containing the call
+     * @param reference The reference to the called function
+     * @param resolvedFunction The called function
+     * @param declarationCode The code of the file declaring the called function, if available
+     * @returns Diagnostics for any excess input or output arguments
+     */
+    private checkCall (
+        textDocument: TextDocument, reference: FunctionOrUnboundIdentifier, resolvedFunction: ResolvedFunction, declarationCode: string | null
+    ): Diagnostic[] {
+        const text = textDocument.getText()
+        const functionScope = resolvedFunction.functionScope
+        const inputNames = [...functionScope.inputArgs]
+        const outputNames = [...functionScope.outputArgs]
+        const relatedInformation = [DiagnosticRelatedInformation.create(resolvedFunction.location, `'${reference.name}' is declared here.`)]
+        const diagnostics: Diagnostic[] = []
+
+        const args = getCallArguments(text, textDocument.offsetAt(reference.range.end)) ?? []
+        const inputCount = getInputCount(args)
+        // Input names are stored uniquely, so unnamed inputs (~) cannot be counted
+        const canCheckInputs = inputCount != null &&
+            !inputNames.includes('varargin') &&
+            !inputNames.includes('~') &&
+            !hasNameValueArguments(functionScope, inputNames, declarationCode)
+
+        if (canCheckInputs && inputCount > inputNames.length) {
+            const diagnostic = Diagnostic.create(
+                reference.range,
+                `Too many input arguments. '${reference.name}' accepts at most ${inputNames.length} input(s), but ${inputCount} are passed.`,
+                DiagnosticSeverity.Warning,
+                TOO_MANY_INPUTS_ID,
+                'MATLAB'
+            )
+            diagnostic.relatedInformation = relatedInformation
+            diagnostics.push(diagnostic)
+        }
+
+        const outputCount = getOutputCount(text, textDocument.offsetAt(reference.range.start))
+        if (!outputNames.includes('varargout') && outputCount > outputNames.length) {
+            const diagnostic = Diagnostic.create(
+                reference.range,
+                `Too many output arguments. '${reference.name}' returns at most ${outputNames.length} output(s), but ${outputCount} are requested.`,
+                DiagnosticSeverity.Warning,
+                TOO_MANY_OUTPUTS_ID,
+                'MATLAB'
+            )
+            diagnostic.relatedInformation = relatedInformation
+            diagnostics.push(diagnostic)
+        }
+
+        return diagnostics
+    }
+}
+
+/**
+ * Gets the number of inputs passed by the arguments in a call.
+ *
+ * @returns The number of inputs, or null if it cannot be determined
+ */
+function getInputCount (args: CallArgument[]): number | null {
+    let count = 0
+
+    for (const arg of args) {
+        if (arg.text.endsWith('}') || arg.text === ':') {
+            // Indexing into a cell array may produce any number of inputs
+            return null
+        }
+
+        count += NAME_VALUE_ARGUMENT_REGEX.test(arg.text) ? 2 : 1
+    }
+
+    return count
+}
+
+/**
+ * Gets the number of outputs requested from a call, based on the assignment containing it.
+ * Calls which are not assigned are considered to request no outputs.
+ */
+function getOutputCount (text: string, offset: number): number {
+    const outputs = getAssignedOutputs(text, offset)
+    if (outputs != null) {
+        return outputs.length
+    }
+
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+    return SINGLE_ASSIGNMENT_REGEX.test(text.substring(lineStart, offset)) ? 1 : 0
+}
+
+/**
+ * Determines whether a function accepts name-value arguments declared in an arguments
+ * block (e.g. "opts.Color" when the last input is "opts"). Such functions accept two
+ * inputs for each name-value argument.
+ */
+function hasNameValueArguments (functionScope: MatlabFunctionScopeInfo, inputNames: string[], declarationCode: string | null): boolean {
+    const lastInput = inputNames[inputNames.length - 1]
+    if (lastInput == null) {
+        return false
+    }
+
+    if (declarationCode == null) {
+        // Assume name-value arguments may be accepted
+        return true
+    }
+
+    const functionLines = declarationCode.split(/\r?\n/).slice(functionScope.range.start.line, functionScope.range.end.line + 1)
+    return functionLines.some(line => line.trimStart().startsWith(`${lastInput}.`))
+}
+
+/**
+ * Determines whether a reference from the index is found at the same location in the code.
+ */
+function isReferenceInCode (textDocument: TextDocument, reference: FunctionOrUnboundIdentifier): boolean {
+    return textDocument.getText(reference.range).replace(/\s/g, '') === reference.name
+}
+
+async function readFile (uri: string): Promise<string | null> {
+    try {
+        return await fs.readFile(FileNameUtils.getFilePathFromUri(uri), 'utf8')
+    } catch {
+        return null
+    }
+}
+
+export default ArgumentCountAnalyzer
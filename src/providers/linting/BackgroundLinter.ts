@@ -0,0 +1,161 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { FileEvent, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { URI } from 'vscode-uri'
+import ClientConnection from '../../ClientConnection'
+import ConfigurationManager, { Settings } from '../../lifecycle/ConfigurationManager'
+import MVMServer from '../../mvm/MVMServer'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+import { findMFilesInFolder } from '../../utils/FsUtils'
+import LintingSupportProvider from './LintingSupportProvider'
+
+// The time to wait between linting files (in ms), to limit the load on MATLAB
+const LINT_INTERVAL = 250
+
+// The time to wait before checking again whether linting can resume (in ms)
+const PAUSED_INTERVAL = 2000
+
+/**
+ * Lints the MATLAB code files in the workspace which are not open, so that problems
+ * are reported even for files which the user is not editing. Linting happens in the
+ * background, one file at a time, and is paused while the user is interactively
+ * using MATLAB.
+ *
+ * Background linting is enabled by the `backgroundLinting` setting.
+ */
+export default class BackgroundLinter {
+    // The URIs of the files waiting to be linted
+    private readonly queuedFiles = new Set<string>()
+    // The URIs of the files whose diagnostics have been published by background linting
+    private readonly lintedFiles = new Set<string>()
+    private isProcessingQueue = false
+
+    constructor (
+        private readonly lintingSupportProvider: LintingSupportProvider,
+        private readonly mvmServer: MVMServer,
+        private readonly documentManager: TextDocuments<TextDocument>
+    ) {}
+
+    /**
+     * Queues every MATLAB code file in the workspace folders to be linted.
+     */
+    async lintWorkspace (): Promise<void> {
+        if (!(await this.isEnabled())) {
+            return
+        }
+
+        const folders = await ClientConnection.getConnection().workspace.getWorkspaceFolders()
+
+        if (folders == null) {
+            return
+        }
+
+        for (const folder of folders) {
+            const filePaths = await findMFilesInFolder(URI.parse(folder.uri).fsPath)
+            filePaths.forEach(filePath => this.queuedFiles.add(URI.file(filePath).toString()))
+        }
+
+        void this.processQueue()
+    }
+
+    /**
+     * Handles changes to the `backgroundLinting` setting. When background linting is
+     * enabled, the workspace is linted. When it is disabled, queued files are no longer
+     * linted and the diagnostics published for files which are not open are cleared.
+     *
+     * @param configuration The new configuration
+     */
+    async handleBackgroundLintingChanged (configuration: Settings): Promise<void> {
+        if (configuration.backgroundLinting) {
+            await this.lintWorkspace()
+            return
+        }
+
+        this.queuedFiles.clear()
+
+        for (const uri of this.lintedFiles) {
+            if (this.documentManager.get(uri) == null) {
+                this.lintingSupportProvider.clearDiagnosticsForFile(uri)
+            }
+        }
+        this.lintedFiles.clear()
+    }
+
+    /**
+     * Queues a file to be linted. The file is not linted if it is open when it reaches
+     * the front of the queue.
+     *
+     * @param uri The file's URI
+     */
+    async queueFile (uri: string): Promise<void> {
+        if (!(await this.isEnabled()) || !FileNameUtils.isMFile(uri)) {
+            return
+        }
+
+        this.queuedFiles.add(uri)
+        void this.processQueue()
+    }
+
+    /**
+     * Handles changes to files on disk by linting the changed files. Diagnostics for
+     * deleted files are cleared.
+     *
+     * @param changes The file changes
+     */
+    async handleWatchedFilesChanged (changes: FileEvent[]): Promise<void> {
+        for (const change of changes) {
+            await this.queueFile(change.uri)
+        }
+    }
+
+    /**
+     * Lints the queued files, one at a time.
+     */
+    private async processQueue (): Promise<void> {
+        if (this.isProcessingQueue) {
+            return
+        }
+
+        this.isProcessingQueue = true
+
+        try {
+            while (this.queuedFiles.size > 0) {
+                if (this.mvmServer.isUserInteracting()) {
+                    // Avoid slowing MATLAB while the user is running code
+                    await wait(PAUSED_INTERVAL)
+                    continue
+                }
+
+                const uri = this.queuedFiles.values().next().value as string
+                this.queuedFiles.delete(uri)
+
+                if (this.documentManager.get(uri) != null) {
+                    // Open documents are linted as they are edited
+                    continue
+                }
+
+                await this.lintingSupportProvider.lintFile(uri)
+
+                if (await this.isEnabled()) {
+                    this.lintedFiles.add(uri)
+                } else {
+                    // Background linting was disabled while the file was being linted
+                    this.lintingSupportProvider.clearDiagnosticsForFile(uri)
+                }
+
+                await wait(LINT_INTERVAL)
+            }
+        } finally {
+            this.isProcessingQueue = false
+        }
+    }
+
+    private async isEnabled (): Promise<boolean> {
+        return (await ConfigurationManager.getConfiguration()).backgroundLinting
+    }
+}
+
+async function wait (delay: number): Promise<void> {
+    await new Promise<void>(resolve => setTimeout(resolve, delay))
+}
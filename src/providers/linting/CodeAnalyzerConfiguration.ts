@@ -0,0 +1,218 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { DiagnosticSeverity } from 'vscode-languageserver'
+import ConfigurationManager, { LintSeverity } from '../../lifecycle/ConfigurationManager'
+import Logger from '../../logging/Logger'
+import { LintResults } from './LintingSupportProvider'
+
+const CONFIGURATION_FOLDER = 'resources'
+const CONFIGURATION_FILE = 'codeAnalyzerConfiguration.json'
+const GENERATED_CONFIGURATION_FOLDER = path.join(os.tmpdir(), 'matlabls')
+
+// The paths of the configuration files which have already been generated
+const generatedConfigurationFiles = new Set<string>()
+
+/**
+ * The settings for a single check within a Code Analyzer configuration file
+ */
+interface CheckConfiguration {
+    enabled?: boolean
+    severity?: string
+}
+
+/**
+ * The contents of a Code Analyzer configuration file. Only the properties used to
+ * enable, disable, and change the severity of checks are included.
+ */
+interface ConfigurationFile {
+    baseConfiguration?: string
+    checks?: { [id: string]: CheckConfiguration }
+}
+
+/**
+ * The Code Analyzer configuration for a file
+ */
+export interface LintConfiguration {
+    // The IDs of the checks which are explicitly enabled, including checks disabled by default
+    enabledIds: string[]
+    // The IDs of the disabled checks
+    disabledIds: string[]
+    // The severities of checks whose severity is overridden
+    severityOverrides: { [id: string]: DiagnosticSeverity }
+}
+
+const SEVERITY_MAP: { [severity: string]: DiagnosticSeverity } = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    information: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+}
+
+/**
+ * Gets the Code Analyzer configuration for a file.
+ *
+ * The configuration is read from the `resources/codeAnalyzerConfiguration.json` file
+ * in the closest folder containing the file. As in MATLAB, configurations with a
+ * `baseConfiguration` of "closestParentFolder" (the default) build on the configuration
+ * from the parent folders. The `lintDisabledIds` and `lintSeverityOverrides` settings
+ * take precedence over the configuration files.
+ *
+ * @param filePath The path of the file, or null if the file has not been saved
+ * @returns The configuration
+ */
+export async function getLintConfiguration (filePath: string | null): Promise<LintConfiguration> {
+    const checks = filePath != null ? await getChecksFromConfigurationFiles(path.dirname(filePath)) : {}
+
+    const configuration = await ConfigurationManager.getConfiguration()
+
+    configuration.lintDisabledIds.forEach(id => {
+        checks[id] = { ...checks[id], enabled: false }
+    })
+
+    Object.entries(configuration.lintSeverityOverrides).forEach(([id, severity]: [string, LintSeverity]) => {
+        checks[id] = { ...checks[id], severity }
+    })
+
+    const lintConfiguration: LintConfiguration = { enabledIds: [], disabledIds: [], severityOverrides: {} }
+
+    Object.entries(checks).forEach(([id, check]) => {
+        if (check.enabled === true) {
+            lintConfiguration.enabledIds.push(id)
+        } else if (check.enabled === false) {
+            lintConfiguration.disabledIds.push(id)
+        }
+
+        const severity = check.severity != null ? SEVERITY_MAP[check.severity.toLowerCase()] : undefined
+        if (severity != null) {
+            lintConfiguration.severityOverrides[id] = severity
+        }
+    })
+
+    return lintConfiguration
+}
+
+/**
+ * Gets the path of a configuration file which enables and disables checks as specified
+ * by a Code Analyzer configuration. This is passed to Code Analyzer with the `-config`
+ * option. The file is generated the first time it is needed.
+ *
+ * @param configuration The configuration
+ * @returns The path of the configuration file, or null if the configuration does not
+ *     enable or disable any checks, or the file could not be written
+ */
+export async function getConfigurationFilePath (configuration: LintConfiguration): Promise<string | null> {
+    if (configuration.enabledIds.length === 0 && configuration.disabledIds.length === 0) {
+        return null
+    }
+
+    const checks: { [id: string]: CheckConfiguration } = {}
+    configuration.enabledIds.forEach(id => { checks[id] = { enabled: true } })
+    configuration.disabledIds.forEach(id => { checks[id] = { enabled: false } })
+
+    // The checks are combined from every applicable configuration file and setting
+    const configurationFile: ConfigurationFile = { baseConfiguration: 'factory', checks }
+    const contents = JSON.stringify(configurationFile, null, 4)
+    const hash = createHash('sha256').update(contents).digest('hex')
+    const filePath = path.join(GENERATED_CONFIGURATION_FOLDER, `codeAnalyzerConfiguration-${hash}.json`)
+
+    if (generatedConfigurationFiles.has(filePath)) {
+        return filePath
+    }
+
+    try {
+        await fs.mkdir(GENERATED_CONFIGURATION_FOLDER, { recursive: true })
+        await fs.writeFile(filePath, contents, 'utf8')
+    } catch (err) {
+        Logger.error(`Error writing Code Analyzer configuration file: ${filePath}`)
+        return null
+    }
+
+    generatedConfigurationFiles.add(filePath)
+    return filePath
+}
+
+/**
+ * Applies the severity overrides from a Code Analyzer configuration to lint results.
+ * Checks are enabled and disabled by Code Analyzer, using the configuration file
+ * from {@link getConfigurationFilePath}.
+ *
+ * @param lintResults The lint results
+ * @param configuration The configuration
+ * @returns The lint results with the severities overridden
+ */
+export function applyLintConfiguration (lintResults: LintResults, configuration: LintConfiguration): LintResults {
+    lintResults.diagnostics.forEach(diagnostic => {
+        const severity = configuration.severityOverrides[String(diagnostic.code)]
+        if (severity != null) {
+            diagnostic.severity = severity
+        }
+    })
+
+    return lintResults
+}
+
+/**
+ * Removes the diagnostics (and corresponding code actions) from disabled checks. This is
+ * only needed for diagnostics reported by the language server rather than Code Analyzer,
+ * such as those for unused suppressions and duplicate definitions.
+ *
+ * @param lintResults The lint results
+ * @param configuration The configuration
+ * @returns The lint results from enabled checks
+ */
+export function removeDisabledChecks (lintResults: LintResults, configuration: LintConfiguration): LintResults {
+    const diagnostics = lintResults.diagnostics.filter(diagnostic => !configuration.disabledIds.includes(String(diagnostic.code)))
+
+    const codeActions = lintResults.codeActions.filter(codeAction => {
+        return codeAction.diagnostics?.every(diagnostic => diagnostics.includes(diagnostic)) ?? true
+    })
+
+    return { diagnostics, codeActions }
+}
+
+/**
+ * Gets the check settings from the configuration files applying to a folder.
+ *
+ * @param folderPath The folder path
+ * @returns The check settings, by check ID
+ */
+async function getChecksFromConfigurationFiles (folderPath: string): Promise<{ [id: string]: CheckConfiguration }> {
+    const configurationFile = await readConfigurationFile(path.join(folderPath, CONFIGURATION_FOLDER, CONFIGURATION_FILE))
+    const parentFolderPath = path.dirname(folderPath)
+    const isRootFolder = parentFolderPath === folderPath
+
+    if (configurationFile == null) {
+        return isRootFolder ? {} : await getChecksFromConfigurationFiles(parentFolderPath)
+    }
+
+    const shouldUseParentConfiguration = (configurationFile.baseConfiguration ?? 'closestParentFolder') === 'closestParentFolder'
+    const checks = shouldUseParentConfiguration && !isRootFolder ? await getChecksFromConfigurationFiles(parentFolderPath) : {}
+
+    Object.entries(configurationFile.checks ?? {}).forEach(([id, check]) => {
+        checks[id] = { ...checks[id], ...check }
+    })
+
+    return checks
+}
+
+async function readConfigurationFile (filePath: string): Promise<ConfigurationFile | null> {
+    let contents: string
+    try {
+        contents = await fs.readFile(filePath, 'utf8')
+    } catch {
+        // No configuration file in this folder
+        return null
+    }
+
+    try {
+        return JSON.parse(contents) as ConfigurationFile
+    } catch (err) {
+        Logger.error(`Error parsing Code Analyzer configuration file: ${filePath}`)
+        return null
+    }
+}
@@ -0,0 +1,50 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { CodeDescription, DiagnosticTag } from 'vscode-languageserver'
+
+const DOCUMENTATION_SEARCH_URL = 'https://www.mathworks.com/help/search.html'
+
+/**
+ * The tags applied to diagnostics for known Code Analyzer message IDs
+ */
+const MESSAGE_TAGS = new Map<string, DiagnosticTag[]>([
+    // The value assigned to a variable appears to be unused
+    ['NASGU', [DiagnosticTag.Unnecessary]],
+    // The values assigned to some outputs appear to be unused
+    ['ASGLU', [DiagnosticTag.Unnecessary]],
+    // An input argument appears to be unused
+    ['INUSD', [DiagnosticTag.Unnecessary]],
+    ['INUSL', [DiagnosticTag.Unnecessary]],
+    // A local function appears to be unused
+    ['DEFNU', [DiagnosticTag.Unnecessary]],
+    // A statement cannot be reached
+    ['UNRCH', [DiagnosticTag.Unnecessary]],
+    // A function will be removed in a future release
+    ['REMFF1', [DiagnosticTag.Deprecated]],
+    // FINDSTR will be removed in a future release
+    ['FSTR', [DiagnosticTag.Deprecated]],
+    // LASTERR will be removed in a future release
+    ['LERR', [DiagnosticTag.Deprecated]]
+])
+
+/**
+ * Gets the tags to apply to diagnostics with the given Code Analyzer message ID,
+ * marking unused code as unnecessary and usage of removed functionality as deprecated.
+ *
+ * @param id The message ID
+ * @returns The tags, or undefined if no tags apply to the message
+ */
+export function getTagsForMessage (id: string): DiagnosticTag[] | undefined {
+    const tags = MESSAGE_TAGS.get(id)
+    return tags != null ? [...tags] : undefined
+}
+
+/**
+ * Gets a link to the documentation for the given Code Analyzer message ID.
+ *
+ * @param id The message ID
+ * @returns The code description, linking to a documentation search for the ID
+ */
+export function getCodeDescriptionForMessage (id: string): CodeDescription {
+    return { href: `${DOCUMENTATION_SEARCH_URL}?qdoc=${encodeURIComponent(id)}` }
+}
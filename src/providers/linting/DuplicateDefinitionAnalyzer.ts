@@ -0,0 +1,186 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location } from 'vscode-languageserver'
+import * as path from 'path'
+import { URI } from 'vscode-uri'
+import FileInfoIndex, { getAllFunctionScopes, MatlabClassdefInfo, MatlabCodeInfo, MatlabGlobalScopeInfo } from '../../indexing/FileInfoIndex'
+import ClientConnection from '../../ClientConnection'
+
+/**
+ * The ID of diagnostics reported for names defined in multiple files
+ */
+export const DUPLICATE_DEFINITION_ID = 'DuplicateDefinition'
+
+/**
+ * A function or class declared within a file, which may be called from other files
+ */
+interface QualifiedDefinition {
+    // The package-qualified name (e.g. "pkg.MyClass" or "pkg.MyClass.method")
+    qualifiedName: string
+    location: Location
+}
+
+/**
+ * Finds functions and classes which are defined with the same package-qualified name in
+ * multiple indexed files within the workspace folders. For example, two folders may both contain "myFunction.m", or a
+ * function in "+pkg/+MyClass/method.m" may clash with a method of the class "pkg.MyClass".
+ * When both files are on the MATLAB path, the order of the path determines which one
+ * is called.
+ *
+ * Local functions, nested functions, and functions within private folders are only called
+ * from a limited context, so they are not checked.
+ */
+class DuplicateDefinitionAnalyzer {
+    // The locations of the definitions in the workspace folders, grouped by qualified name,
+    // along with the index version and workspace folders from which they were found
+    private workspaceDefinitions: { key: string, definitionsByName: Map<string, Location[]> } | null = null
+
+    constructor (private readonly fileInfoIndex: FileInfoIndex) {}
+
+    /**
+     * Finds the definitions within a file which are also defined in other indexed files
+     * within the workspace folders.
+     *
+     * @param uri The URI of the file
+     * @returns Diagnostics for the duplicate definitions
+     */
+    async analyze (uri: string): Promise<Diagnostic[]> {
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(uri)
+        if (codeInfo == null || !canBeCalledFromOtherFiles(uri)) {
+            return []
+        }
+
+        const definitions = getQualifiedDefinitions(codeInfo)
+        if (definitions.length === 0) {
+            return []
+        }
+
+        const workspaceDefinitions = await this.getWorkspaceDefinitions()
+
+        const diagnostics: Diagnostic[] = []
+
+        for (const definition of definitions) {
+            const conflictingLocations = (workspaceDefinitions.get(definition.qualifiedName) ?? [])
+                .filter(location => location.uri !== uri)
+            if (conflictingLocations.length === 0) {
+                continue
+            }
+
+            const name = definition.qualifiedName
+            const diagnostic = Diagnostic.create(
+                definition.location.range,
+                `'${name}' is also defined in ${conflictingLocations.length} other file(s). The order of the MATLAB path determines which definition is used.`,
+                DiagnosticSeverity.Warning,
+                DUPLICATE_DEFINITION_ID,
+                'MATLAB'
+            )
+            diagnostic.relatedInformation = conflictingLocations.map(
+                location => DiagnosticRelatedInformation.create(location, `'${name}' is also defined here.`)
+            )
+            diagnostics.push(diagnostic)
+        }
+
+        return diagnostics
+    }
+
+    /**
+     * Gets the locations of the definitions in every indexed file within the workspace
+     * folders. Files outside of the workspace folders, such as toolbox files, are excluded.
+     * The definitions are only found again when the index or workspace folders change.
+     *
+     * @returns The locations of the definitions, grouped by qualified name
+     */
+    private async getWorkspaceDefinitions (): Promise<Map<string, Location[]>> {
+        const folders = await ClientConnection.getConnection().workspace.getWorkspaceFolders() ?? []
+        const folderPaths = folders.map(folder => URI.parse(folder.uri).fsPath)
+
+        const key = JSON.stringify([this.fileInfoIndex.version, folderPaths])
+        if (this.workspaceDefinitions?.key === key) {
+            return this.workspaceDefinitions.definitionsByName
+        }
+
+        const definitionsByName = new Map<string, Location[]>()
+
+        for (const [uri, codeInfo] of this.fileInfoIndex.codeInfoCache) {
+            if (!canBeCalledFromOtherFiles(uri) || !isInFolders(URI.parse(uri).fsPath, folderPaths)) {
+                continue
+            }
+
+            for (const definition of getQualifiedDefinitions(codeInfo)) {
+                const locations = definitionsByName.get(definition.qualifiedName) ?? []
+                locations.push(definition.location)
+                definitionsByName.set(definition.qualifiedName, locations)
+            }
+        }
+
+        this.workspaceDefinitions = { key, definitionsByName }
+
+        return definitionsByName
+    }
+}
+
+/**
+ * Gets the functions and classes declared in a file which may be called from other files:
+ * the class and its methods (other than the constructor), or the main function of a
+ * function file.
+ */
+function getQualifiedDefinitions (codeInfo: MatlabCodeInfo): QualifiedDefinition[] {
+    const uri = codeInfo.uri
+    const filePath = URI.parse(uri).fsPath
+    const fileName = path.parse(filePath).name
+    const qualify = (name: string, container: string): string => container === '' ? name : `${container}.${name}`
+
+    // For files within a class folder, methods belong to the folder's class
+    const folderName = path.basename(path.dirname(filePath))
+    const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+    const className = classdefInfo?.declarationNameId.name ?? (folderName.startsWith('@') ? folderName.substring(1) : undefined)
+    const classQualifiedName = className != null ? qualify(className, codeInfo.package) : undefined
+
+    const definitions: QualifiedDefinition[] = []
+
+    if (classdefInfo != null && classQualifiedName != null) {
+        definitions.push({ qualifiedName: classQualifiedName, location: Location.create(uri, classdefInfo.declarationNameId.range) })
+    }
+
+    getAllFunctionScopes(codeInfo).forEach(functionScopeInfo => {
+        const name = functionScopeInfo.declarationNameId.name
+        const range = functionScopeInfo.declarationNameId.range
+        const parentScope = functionScopeInfo.parentScope
+
+        if (functionScopeInfo.functionInfo.isConstructor) {
+            // The constructor is called using the class name
+            return
+        }
+
+        if (parentScope instanceof MatlabClassdefInfo && classQualifiedName != null) {
+            // Method defined in the classdef file
+            definitions.push({ qualifiedName: qualify(name, classQualifiedName), location: Location.create(uri, range) })
+        } else if (parentScope instanceof MatlabGlobalScopeInfo && name === fileName && classdefInfo == null) {
+            // Main function of a function file, which is a method when in a class folder
+            definitions.push({ qualifiedName: qualify(name, classQualifiedName ?? codeInfo.package), location: Location.create(uri, range) })
+        }
+    })
+
+    return definitions
+}
+
+/**
+ * Determines whether the code in a file may be called from other files. This excludes
+ * unsaved files and files within private folders.
+ */
+function canBeCalledFromOtherFiles (uri: string): boolean {
+    const parsedUri = URI.parse(uri)
+    return parsedUri.scheme === 'file' && !path.dirname(parsedUri.fsPath).split(path.sep).includes('private')
+}
+
+/**
+ * Determines whether a file is within any of the given folders.
+ */
+function isInFolders (filePath: string, folderPaths: string[]): boolean {
+    return folderPaths.some(folderPath => {
+        const relativePath = path.relative(folderPath, filePath)
+        return relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+    })
+}
+
+export default DuplicateDefinitionAnalyzer
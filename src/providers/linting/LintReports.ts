@@ -0,0 +1,306 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { CodeAction, Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver'
+import * as path from 'path'
+import { URI } from 'vscode-uri'
+import { FileLintResults } from './LintingSupportProvider'
+
+/**
+ * The formats in which lint results can be reported
+ */
+export enum LintReportFormat {
+    Text = 'text',
+    Sarif = 'sarif',
+    JUnit = 'junit'
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_VERSION = '2.1.0'
+const TOOL_NAME = 'MATLAB Code Analyzer'
+const TOOL_INFORMATION_URI = 'https://www.mathworks.com/help/matlab/matlab_prog/matlab-code-analyzer-report.html'
+
+/**
+ * A region within a file. Lines and columns are 1-based, and the end column
+ * is exclusive.
+ */
+interface SarifRegion {
+    startLine: number
+    startColumn: number
+    endLine: number
+    endColumn: number
+}
+
+interface SarifArtifactLocation {
+    uri: string
+}
+
+interface SarifFix {
+    description: { text: string }
+    artifactChanges: Array<{
+        artifactLocation: SarifArtifactLocation
+        replacements: Array<{
+            deletedRegion: SarifRegion
+            insertedContent?: { text: string }
+        }>
+    }>
+}
+
+interface SarifResult {
+    ruleId: string
+    ruleIndex: number
+    level: 'error' | 'warning' | 'note'
+    message: { text: string }
+    locations: Array<{
+        physicalLocation: {
+            artifactLocation: SarifArtifactLocation
+            region: SarifRegion
+        }
+    }>
+    fixes?: SarifFix[]
+    properties: {
+        fixAvailable: boolean
+    }
+}
+
+interface SarifRule {
+    id: string
+}
+
+/**
+ * A Static Analysis Results Interchange Format (SARIF) 2.1.0 log
+ */
+export interface SarifLog {
+    $schema: string
+    version: string
+    runs: Array<{
+        tool: {
+            driver: {
+                name: string
+                informationUri: string
+                rules: SarifRule[]
+            }
+        }
+        artifacts: Array<{ location: SarifArtifactLocation }>
+        results: SarifResult[]
+    }>
+}
+
+/**
+ * Creates a report of the results of linting files.
+ *
+ * @param fileResults The results of linting each file
+ * @param format The format of the report
+ * @param rootPath The path of the folder containing the files. File paths in text and
+ *     JUnit reports are relative to this folder.
+ * @returns The report
+ */
+export function createLintReport (fileResults: FileLintResults[], format: LintReportFormat, rootPath: string): string {
+    switch (format) {
+        case LintReportFormat.Sarif:
+            return JSON.stringify(createSarifLog(fileResults), null, 4)
+        case LintReportFormat.JUnit:
+            return createJUnitReport(fileResults, rootPath)
+        default:
+            return createTextReport(fileResults, rootPath)
+    }
+}
+
+/**
+ * Creates a plain text report of the results of linting files, with one line for each
+ * diagnostic (e.g. "folder/file.m:2:5: warning: Message [ID]") followed by a summary.
+ *
+ * @param fileResults The results of linting each file
+ * @param rootPath The path of the folder which file paths are relative to
+ * @returns The report
+ */
+export function createTextReport (fileResults: FileLintResults[], rootPath: string): string {
+    const lines: string[] = []
+    let errorCount = 0
+    let warningCount = 0
+
+    fileResults.forEach(fileResult => {
+        const filePath = getRelativePath(fileResult.uri, rootPath)
+
+        fileResult.diagnostics.forEach(diagnostic => {
+            const start = diagnostic.range.start
+            const level = getSarifLevel(diagnostic.severity)
+            lines.push(`${filePath}:${start.line + 1}:${start.character + 1}: ${level}: ${diagnostic.message} [${String(diagnostic.code ?? '')}]`)
+
+            if (diagnostic.severity === DiagnosticSeverity.Error) {
+                errorCount++
+            } else if (diagnostic.severity === DiagnosticSeverity.Warning) {
+                warningCount++
+            }
+        })
+    })
+
+    lines.push(`${errorCount} error(s), ${warningCount} warning(s) in ${fileResults.length} file(s)`)
+
+    return lines.join('\n')
+}
+
+/**
+ * Creates a JUnit XML report of the results of linting files. Each file is reported
+ * as a test case, which fails when the file has any diagnostics.
+ *
+ * @param fileResults The results of linting each file
+ * @param rootPath The path of the folder which file paths are relative to
+ * @returns The report
+ */
+export function createJUnitReport (fileResults: FileLintResults[], rootPath: string): string {
+    const failureCount = fileResults.filter(fileResult => fileResult.diagnostics.length > 0).length
+
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${TOOL_NAME}" tests="${fileResults.length}" failures="${failureCount}">`,
+        `    <testsuite name="${TOOL_NAME}" tests="${fileResults.length}" failures="${failureCount}">`
+    ]
+
+    fileResults.forEach(fileResult => {
+        const filePath = escapeXml(getRelativePath(fileResult.uri, rootPath))
+
+        if (fileResult.diagnostics.length === 0) {
+            lines.push(`        <testcase classname="${filePath}" name="${filePath}"/>`)
+            return
+        }
+
+        const details = fileResult.diagnostics.map(diagnostic => {
+            const start = diagnostic.range.start
+            return `L ${start.line + 1} (C ${start.character + 1}): ${String(diagnostic.code ?? '')}: ${diagnostic.message}`
+        })
+
+        lines.push(
+            `        <testcase classname="${filePath}" name="${filePath}">`,
+            `            <failure message="${fileResult.diagnostics.length} Code Analyzer message(s)" type="${TOOL_NAME}">${escapeXml(details.join('\n'))}</failure>`,
+            '        </testcase>'
+        )
+    })
+
+    lines.push('    </testsuite>', '</testsuites>')
+
+    return lines.join('\n')
+}
+
+/**
+ * Creates a SARIF 2.1.0 log from the results of linting files.
+ *
+ * Each diagnostic is reported as a result, with the diagnostic's ID as the rule ID.
+ * When Code Analyzer can automatically fix a diagnostic, the fix is included.
+ *
+ * @param fileResults The results of linting each file
+ * @returns The SARIF log
+ */
+export function createSarifLog (fileResults: FileLintResults[]): SarifLog {
+    const rules: SarifRule[] = []
+    const ruleIndices = new Map<string, number>()
+    const results: SarifResult[] = []
+
+    fileResults.forEach(fileResult => {
+        fileResult.diagnostics.forEach(diagnostic => {
+            const ruleId = String(diagnostic.code ?? '')
+
+            let ruleIndex = ruleIndices.get(ruleId)
+            if (ruleIndex === undefined) {
+                ruleIndex = rules.length
+                rules.push({ id: ruleId })
+                ruleIndices.set(ruleId, ruleIndex)
+            }
+
+            const fixes = getFixesForDiagnostic(diagnostic, fileResult.codeActions)
+                .map(codeAction => createSarifFix(codeAction, fileResult.uri))
+
+            const result: SarifResult = {
+                ruleId,
+                ruleIndex,
+                level: getSarifLevel(diagnostic.severity),
+                message: { text: diagnostic.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: fileResult.uri },
+                        region: createSarifRegion(diagnostic.range)
+                    }
+                }],
+                properties: {
+                    fixAvailable: fixes.length > 0
+                }
+            }
+
+            if (fixes.length > 0) {
+                result.fixes = fixes
+            }
+
+            results.push(result)
+        })
+    })
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: SARIF_VERSION,
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    informationUri: TOOL_INFORMATION_URI,
+                    rules
+                }
+            },
+            artifacts: fileResults.map(fileResult => ({ location: { uri: fileResult.uri } })),
+            results
+        }]
+    }
+}
+
+/**
+ * Gets the code actions which fix the given diagnostic.
+ */
+function getFixesForDiagnostic (diagnostic: Diagnostic, codeActions: CodeAction[]): CodeAction[] {
+    return codeActions.filter(codeAction => codeAction.diagnostics?.includes(diagnostic) === true && codeAction.edit != null)
+}
+
+function createSarifFix (codeAction: CodeAction, uri: string): SarifFix {
+    const edits: TextEdit[] = codeAction.edit?.changes?.[uri] ?? []
+
+    return {
+        description: { text: codeAction.title },
+        artifactChanges: [{
+            artifactLocation: { uri },
+            replacements: edits.map(edit => ({
+                deletedRegion: createSarifRegion(edit.range),
+                insertedContent: { text: edit.newText }
+            }))
+        }]
+    }
+}
+
+function createSarifRegion (range: Range): SarifRegion {
+    return {
+        startLine: range.start.line + 1,
+        startColumn: range.start.character + 1,
+        endLine: range.end.line + 1,
+        endColumn: range.end.character + 1
+    }
+}
+
+function getSarifLevel (severity: DiagnosticSeverity | undefined): 'error' | 'warning' | 'note' {
+    switch (severity) {
+        case DiagnosticSeverity.Error:
+            return 'error'
+        case DiagnosticSeverity.Warning:
+            return 'warning'
+        default:
+            return 'note'
+    }
+}
+
+function getRelativePath (uri: string, rootPath: string): string {
+    return path.relative(rootPath, URI.parse(uri).fsPath)
+}
+
+function escapeXml (text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
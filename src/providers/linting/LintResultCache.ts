@@ -0,0 +1,114 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import ConfigurationManager from '../../lifecycle/ConfigurationManager'
+import Logger from '../../logging/Logger'
+
+// The maximum number of results held in memory
+const MAX_MEMORY_CACHE_SIZE = 200
+
+/**
+ * Caches raw lint data, so that code which has already been linted does not need
+ * to be sent to MATLAB (or the mlint executable) again.
+ *
+ * Results are held in memory. When the `lintCacheFolder` setting is specified, results
+ * are also written to that folder so that they persist between sessions.
+ */
+class LintResultCache {
+    // Maps cache keys to lint data, in order of least to most recently used
+    private readonly memoryCache = new Map<string, string[]>()
+
+    /**
+     * Creates a key identifying the lint data for code.
+     *
+     * @param linter Identifies the linter (e.g. the MATLAB release or mlint executable)
+     * @param fileName The name of the file containing the code
+     * @param code The linted code
+     * @param options Any other options affecting the lint data, such as the Code Analyzer configuration
+     * @returns The key
+     */
+    static createKey (linter: string, fileName: string, code: string, options: object): string {
+        return createHash('sha256')
+            .update(linter)
+            .update('\0')
+            .update(fileName)
+            .update('\0')
+            .update(JSON.stringify(options))
+            .update('\0')
+            .update(code)
+            .digest('hex')
+    }
+
+    /**
+     * Gets cached lint data.
+     *
+     * @param key The cache key
+     * @returns The lint data, or null if no data is cached for the key
+     */
+    async get (key: string): Promise<string[] | null> {
+        const lintData = this.memoryCache.get(key)
+        if (lintData != null) {
+            // Mark as most recently used
+            this.memoryCache.delete(key)
+            this.memoryCache.set(key, lintData)
+            return lintData
+        }
+
+        const cacheFile = await this.getCacheFilePath(key)
+        if (cacheFile == null) {
+            return null
+        }
+
+        try {
+            const diskLintData = JSON.parse(await fs.readFile(cacheFile, 'utf8')) as string[]
+            this.setInMemory(key, diskLintData)
+            return diskLintData
+        } catch {
+            // Not cached on disk - no action
+            return null
+        }
+    }
+
+    /**
+     * Caches lint data.
+     *
+     * @param key The cache key
+     * @param lintData The lint data
+     */
+    async set (key: string, lintData: string[]): Promise<void> {
+        this.setInMemory(key, lintData)
+
+        const cacheFile = await this.getCacheFilePath(key)
+        if (cacheFile == null) {
+            return
+        }
+
+        try {
+            await fs.mkdir(path.dirname(cacheFile), { recursive: true })
+            await fs.writeFile(cacheFile, JSON.stringify(lintData), 'utf8')
+        } catch (err) {
+            Logger.error(`Error writing lint cache file: ${cacheFile}`)
+            Logger.error(err as string)
+        }
+    }
+
+    private setInMemory (key: string, lintData: string[]): void {
+        this.memoryCache.delete(key)
+        this.memoryCache.set(key, lintData)
+
+        if (this.memoryCache.size > MAX_MEMORY_CACHE_SIZE) {
+            // Evict the least recently used result
+            const oldestKey = this.memoryCache.keys().next().value as string
+            this.memoryCache.delete(oldestKey)
+        }
+    }
+
+    private async getCacheFilePath (key: string): Promise<string | null> {
+        const cacheFolder = (await ConfigurationManager.getConfiguration()).lintCacheFolder.trim()
+        return cacheFolder !== '' ? path.join(cacheFolder, `${key}.json`) : null
+    }
+}
+
+export default LintResultCache
@@ -1,7 +1,12 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { execFile, ExecFileException } from 'child_process'
-import { CodeAction, CodeActionKind, CodeActionParams, Command, Diagnostic, DiagnosticSeverity, Position, Range, TextDocumentEdit, TextEdit, VersionedTextDocumentIdentifier, WorkspaceEdit } from 'vscode-languageserver'
+import { createHash } from 'crypto'
+import {
+    CancellationToken, CodeAction, CodeActionKind, CodeActionParams, Command, Diagnostic, DiagnosticSeverity, DocumentDiagnosticParams,
+    DocumentDiagnosticReport, DocumentDiagnosticReportKind, OptionalVersionedTextDocumentIdentifier, Position, Range, TextDocumentEdit, TextDocuments, TextEdit,
+    VersionedTextDocumentIdentifier, WorkspaceDiagnosticParams, WorkspaceDiagnosticReport, WorkspaceDocumentDiagnosticReport, WorkspaceEdit
+} from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
 import ConfigurationManager from '../../lifecycle/ConfigurationManager'
 import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
@@ -14,10 +19,23 @@ import ClientConnection from '../../ClientConnection'
 import MVM from '../../mvm/impl/MVM'
 import parse from '../../mvm/MdaParser'
 import * as FileNameUtils from '../../utils/FileNameUtils'
+import { findMFilesInFolder } from '../../utils/FsUtils'
+import { applyLintConfiguration, getConfigurationFilePath, getLintConfiguration, LintConfiguration, removeDisabledChecks } from './CodeAnalyzerConfiguration'
+import LintResultCache from './LintResultCache'
+import ArgumentCountAnalyzer from './ArgumentCountAnalyzer'
+import NameShadowingAnalyzer from './NameShadowingAnalyzer'
+import DuplicateDefinitionAnalyzer from './DuplicateDefinitionAnalyzer'
+import FileInfoIndex from '../../indexing/FileInfoIndex'
+import PathResolver from '../navigation/PathResolver'
+import { getCodeDescriptionForMessage, getTagsForMessage } from './CodeAnalyzerMessages'
+import { getUnusedSuppressionLintResults, UNUSED_SUPPRESSION_ID } from './UnusedSuppressions'
+import { arePositionsEqual, isPositionLessThan } from '../../utils/PositionUtils'
+import { URI } from 'vscode-uri'
 
 type mlintSeverity = '0' | '1' | '2' | '3' | '4'
 
 const LINT_DELAY = 500 // Delay (in ms) after keystroke before attempting to lint the document
+const WORKSPACE_DIAGNOSTIC_DELAY = 10000 // Delay (in ms) before reporting workspace diagnostics when no files have changed
 
 // Lint result parsing constants
 const LINT_MESSAGE_REGEX = /L (\d+) \(C (\d+)-?(\d*)\): ([\dA-Za-z]+): ML(\d): (.*)/
@@ -25,11 +43,34 @@ const FIX_FLAG_REGEX = /\(CAN FIX\)/
 const FIX_MESSAGE_REGEX = /----FIX MESSAGE<\w+>\s+<([^>]*)>/
 const FIX_CHANGE_REGEX = /----CHANGE MESSAGE L (\d+) \(C (\d+)\);\s+L (\d+) \(C (\d+)\):\s+<([^>]*)>/
 
+const SUPPRESSION_PRAGMA = '%#ok'
+
+/**
+ * The kind of code action which applies every available Code Analyzer fix in a file
+ */
+export const FIX_ALL_CODE_ACTION_KIND = `${CodeActionKind.SourceFixAll}.matlab`
+
+export interface LintResults {
+    diagnostics: Diagnostic[]
+    codeActions: CodeAction[]
+}
+
+/**
+ * The results of linting a file
+ */
+export interface FileLintResults extends LintResults {
+    uri: string
+}
+
 /**
  * Handles requests for linting-related features.
  * Currently, this handles displaying diagnostics, providing quick-fixes,
  * and suppressing diagnostics.
  *
+ * Diagnostics are sent to the client as documents change. For clients which
+ * support pull diagnostics, the client instead requests diagnostics for open
+ * documents and for the other files in the workspace.
+ *
  * Note: When MATLAB® is not connected, diagnostics are only updated when
  * the file is saved and suppressing warnings is not available.
  */
@@ -45,7 +86,40 @@ class LintingSupportProvider {
     private readonly _pendingFilesToLint = new Map<string, NodeJS.Timeout>()
     private readonly _availableCodeActions = new Map<string, CodeAction[]>()
 
-    constructor (private readonly matlabLifecycleManager: MatlabLifecycleManager, private readonly mvm: MVM) {}
+    private readonly lintResultCache = new LintResultCache()
+
+    // Maps URI to the cross-file diagnostics last computed for the file, along with
+    // the code and the index and path versions from which they were computed
+    private readonly crossFileDiagnosticsCache = new Map<string, { key: string, diagnostics: Diagnostic[] }>()
+
+    private isPullDiagnosticsEnabled = false
+    private isDiagnosticRefreshSupported = false
+
+    constructor (
+        private readonly matlabLifecycleManager: MatlabLifecycleManager,
+        private readonly mvm: MVM,
+        // When provided, calls to functions in other files are checked for too many arguments
+        private readonly argumentCountAnalyzer?: ArgumentCountAnalyzer,
+        // When provided, files are checked for names which shadow other files on the path
+        private readonly nameShadowingAnalyzer?: NameShadowingAnalyzer,
+        // When provided, functions and classes are checked for definitions in other indexed files
+        private readonly duplicateDefinitionAnalyzer?: DuplicateDefinitionAnalyzer,
+        // When provided, cross-file diagnostics are only recomputed after the index changes
+        private readonly fileInfoIndex?: FileInfoIndex,
+        // When provided, cross-file diagnostics are only recomputed after the MATLAB path changes
+        private readonly pathResolver?: PathResolver
+    ) {}
+
+    /**
+     * Enables pull diagnostics. Once enabled, diagnostics are no longer sent to the
+     * client, and are instead computed when requested by the client.
+     *
+     * @param isRefreshSupported Whether the client supports requests to refresh diagnostics
+     */
+    enablePullDiagnostics (isRefreshSupported: boolean): void {
+        this.isPullDiagnosticsEnabled = true
+        this.isDiagnosticRefreshSupported = isRefreshSupported
+    }
 
     /**
      * Queues a document to be linted. This handles debouncing so
@@ -55,6 +129,11 @@ class LintingSupportProvider {
      * @param connection The language server connection
      */
     queueLintingForDocument (textDocument: TextDocument): void {
+        if (this.isPullDiagnosticsEnabled) {
+            // The client requests diagnostics when the document changes
+            return
+        }
+
         const uri = textDocument.uri
         this.clearTimerForDocumentUri(uri)
         this._pendingFilesToLint.set(
@@ -68,56 +147,237 @@ class LintingSupportProvider {
     /**
      * Lints the document and displays diagnostics.
      *
+     * When pull diagnostics are enabled, the client is instead asked to
+     * request diagnostics again.
+     *
      * @param textDocument The document being linted
      * @param connection The language server connection
      */
     async lintDocument (textDocument: TextDocument): Promise<void> {
         const uri = textDocument.uri
         this.clearTimerForDocumentUri(uri)
+
+        if (this.isPullDiagnosticsEnabled) {
+            this.refreshDiagnostics()
+            return
+        }
+
         this.clearCodeActionsForDocumentUri(uri)
 
         const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection()
         const isMatlabAvailable = matlabConnection != null
 
-        const fileName = FileNameUtils.getFilePathFromUri(uri, true)
-
-        let lintData: string[] = []
-        const code = textDocument.getText()
+        const lintResults = await this.lintCode(uri, textDocument.getText(), isMatlabAvailable)
 
-        const analysisLimit = (await ConfigurationManager.getConfiguration()).maxFileSizeForAnalysis
-        if (analysisLimit > 0 && code.length > analysisLimit) {
+        if (lintResults == null) {
             this.clearDiagnosticsForDocument(textDocument) // Clear document to handle setting changing value
             return
         }
 
-        if (isMatlabAvailable) {
-            // Use MATLAB-based linting for better results and fixes
-            lintData = await this.getLintResultsFromMatlab(code, fileName)
-        } else if (FileNameUtils.isMFile(uri)) {
-            // Try to use mlint executable for basic linting
-            lintData = await this.getLintResultsFromExecutable(fileName)
+        // Store code actions
+        this._availableCodeActions.set(uri, lintResults.codeActions)
+
+        // Report diagnostics
+        void ClientConnection.getConnection().sendDiagnostics({
+            uri,
+            diagnostics: lintResults.diagnostics
+        })
+    }
+
+    /**
+     * Handles a request for the diagnostics in a document.
+     *
+     * @param params Parameters from the document diagnostic request
+     * @param documentManager The text document manager
+     * @returns A full report of the document's diagnostics, or an unchanged report if
+     *     the diagnostics have not changed since the client's previous request
+     */
+    async handleDocumentDiagnosticRequest (params: DocumentDiagnosticParams, documentManager: TextDocuments<TextDocument>): Promise<DocumentDiagnosticReport> {
+        const uri = params.textDocument.uri
+        const textDocument = documentManager.get(uri)
+
+        if (textDocument == null) {
+            return { kind: DocumentDiagnosticReportKind.Full, items: [] }
         }
 
-        const lintResults = this.processLintResults(uri, lintData)
-        const diagnostics = lintResults.diagnostics
+        const code = textDocument.getText()
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+        const resultId = await this.getResultId(uri, code, isMatlabAvailable)
+
+        if (resultId === params.previousResultId) {
+            return { kind: DocumentDiagnosticReportKind.Unchanged, resultId }
+        }
+
+        const lintResults = await this.lintCode(uri, code, isMatlabAvailable)
 
         // Store code actions
-        this._availableCodeActions.set(uri, lintResults.codeActions)
+        this._availableCodeActions.set(uri, lintResults?.codeActions ?? [])
+
+        return {
+            kind: DocumentDiagnosticReportKind.Full,
+            resultId,
+            items: lintResults?.diagnostics ?? []
+        }
+    }
+
+    /**
+     * Handles a request for the diagnostics in all MATLAB code files within the
+     * workspace folders. Open documents are excluded, as their diagnostics are
+     * reported through document diagnostic requests.
+     *
+     * @param params Parameters from the workspace diagnostic request
+     * @param documentManager The text document manager
+     * @param token A token indicating whether the request has been cancelled
+     * @returns A report of the diagnostics in each file
+     */
+    async handleWorkspaceDiagnosticRequest (
+        params: WorkspaceDiagnosticParams, documentManager: TextDocuments<TextDocument>, token?: CancellationToken
+    ): Promise<WorkspaceDiagnosticReport> {
+        const previousResultIds = new Map(params.previousResultIds.map(previousResultId => [previousResultId.uri, previousResultId.value]))
+        const items: WorkspaceDocumentDiagnosticReport[] = []
+
+        const folders = await ClientConnection.getConnection().workspace.getWorkspaceFolders()
+        if (folders == null) {
+            return { items }
+        }
+
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+
+        for (const folder of folders) {
+            const filePaths = await findMFilesInFolder(URI.parse(folder.uri).fsPath)
+
+            for (const filePath of filePaths) {
+                if (token?.isCancellationRequested === true) {
+                    return { items }
+                }
+
+                const uri = URI.file(filePath).toString()
+                if (documentManager.get(uri) != null) {
+                    continue
+                }
+
+                let code: string
+                try {
+                    code = await fs.readFile(filePath, 'utf8')
+                } catch (err) {
+                    Logger.error(`Error reading file for workspace diagnostics: ${filePath}`)
+                    continue
+                }
+
+                const resultId = await this.getResultId(uri, code, isMatlabAvailable)
+
+                if (resultId === previousResultIds.get(uri)) {
+                    items.push({ kind: DocumentDiagnosticReportKind.Unchanged, resultId, uri, version: null })
+                    continue
+                }
+
+                const lintResults = await this.lintCode(uri, code, isMatlabAvailable)
+                items.push({
+                    kind: DocumentDiagnosticReportKind.Full,
+                    resultId,
+                    uri,
+                    version: null,
+                    items: lintResults?.diagnostics ?? []
+                })
+            }
+        }
+
+        // Clients typically request workspace diagnostics again as soon as a report is received.
+        // When no files have changed, delay the report to avoid repeatedly reading the workspace.
+        if (items.every(item => item.kind === DocumentDiagnosticReportKind.Unchanged)) {
+            await waitUnlessCancelled(WORKSPACE_DIAGNOSTIC_DELAY, token)
+        }
+
+        return { items }
+    }
+
+    /**
+     * Lints a file which is not open, using its contents saved on disk, and displays
+     * diagnostics. When the file cannot be read (e.g. because it has been deleted), its
+     * diagnostics are cleared.
+     *
+     * When pull diagnostics are enabled, the file's diagnostics are reported through
+     * workspace diagnostics instead.
+     *
+     * @param uri The file's URI
+     */
+    async lintFile (uri: string): Promise<void> {
+        if (this.isPullDiagnosticsEnabled) {
+            return
+        }
+
+        const code = await this.readSavedCode(uri)
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+        const lintResults = code != null ? await this.lintCode(uri, code, isMatlabAvailable) : null
 
-        // Report diagnostics
         void ClientConnection.getConnection().sendDiagnostics({
             uri,
-            diagnostics
+            diagnostics: lintResults?.diagnostics ?? []
         })
     }
 
     clearDiagnosticsForDocument (textDocument: TextDocument): void {
+        this.clearDiagnosticsForFile(textDocument.uri)
+    }
+
+    /**
+     * Clears the diagnostics published for a file, such as a file linted by `lintFile`.
+     *
+     * @param uri The file's URI
+     */
+    clearDiagnosticsForFile (uri: string): void {
         void ClientConnection.getConnection().sendDiagnostics({
-            uri: textDocument.uri,
+            uri,
             diagnostics: []
         })
     }
 
+    /**
+     * Determines whether code can be linted, either because MATLAB is connected
+     * or because the mlint executable can be found.
+     *
+     * @returns True if code can be linted, false otherwise
+     */
+    async isLintingAvailable (): Promise<boolean> {
+        return this.matlabLifecycleManager.isMatlabConnected() || (await this.getMlintExecutable()) != null
+    }
+
+    /**
+     * Lints every MATLAB code file within the given folders. The files are linted
+     * using MATLAB when it is connected, and using the mlint executable otherwise.
+     *
+     * Files which exceed the maximum file size for analysis are not included.
+     *
+     * @param folderPaths The paths of the folders to lint
+     * @returns The results of linting each file
+     */
+    async lintFolders (folderPaths: string[]): Promise<FileLintResults[]> {
+        const results: FileLintResults[] = []
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+
+        for (const folderPath of folderPaths) {
+            const filePaths = await findMFilesInFolder(folderPath)
+
+            for (const filePath of filePaths) {
+                let code: string
+                try {
+                    code = await fs.readFile(filePath, 'utf8')
+                } catch (err) {
+                    Logger.error(`Error reading file for linting: ${filePath}`)
+                    continue
+                }
+
+                const uri = URI.file(filePath).toString()
+                const lintResults = await this.lintCode(uri, code, isMatlabAvailable)
+                if (lintResults != null) {
+                    results.push({ uri, ...lintResults })
+                }
+            }
+        }
+
+        return results
+    }
+
     /**
      * Handles a request for code actions.
      *
@@ -138,6 +398,17 @@ class LintingSupportProvider {
             return params.context.diagnostics.some(diag => this.isSameDiagnostic(diagnostic, diag))
         })
 
+        // Add an action to apply all fixes, when requested (e.g. when the client fixes all problems on save)
+        const isFixAllRequested = params.context.only?.some(
+            kind => kind === FIX_ALL_CODE_ACTION_KIND || FIX_ALL_CODE_ACTION_KIND.startsWith(`${kind}.`)
+        ) ?? false
+        if (isFixAllRequested) {
+            const fixAllAction = createFixAllCodeAction(uri, actions)
+            if (fixAllAction != null) {
+                codeActions.push(fixAllAction)
+            }
+        }
+
         if (!this.matlabLifecycleManager.isMatlabConnected()) {
             // Cannot suppress warnings without MATLAB
             return codeActions
@@ -147,8 +418,8 @@ class LintingSupportProvider {
         const diagnostics = params.context.diagnostics
         const commands: Command[] = []
         diagnostics.forEach(diagnostic => {
-            // Don't allow suppressing errors
-            if (diagnostic.severity === DiagnosticSeverity.Error) {
+            // Don't allow suppressing errors, or unnecessary suppressions
+            if (diagnostic.severity === DiagnosticSeverity.Error || diagnostic.code === UNUSED_SUPPRESSION_ID) {
                 return
             }
 
@@ -185,6 +456,49 @@ class LintingSupportProvider {
         return codeActions
     }
 
+    /**
+     * Gets an edit which applies every non-conflicting Code Analyzer fix in the given files.
+     * Open documents are linted using their current contents, and other files are linted
+     * using the contents saved on disk. When MATLAB is not available, open documents whose
+     * contents differ from the saved file are skipped, as the mlint executable lints the
+     * saved file.
+     *
+     * @param uris The URIs of the files to fix
+     * @param documentManager The text document manager
+     * @returns The edit, containing versioned changes for each file with fixes
+     */
+    async getFixAllEdit (uris: string[], documentManager: TextDocuments<TextDocument>): Promise<WorkspaceEdit> {
+        const documentChanges: TextDocumentEdit[] = []
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+
+        for (const uri of uris) {
+            const document = documentManager.get(uri)
+            const savedCode = document == null || !isMatlabAvailable ? await this.readSavedCode(uri) : null
+            const code = document?.getText() ?? savedCode
+
+            if (code == null) {
+                Logger.error(`Error reading file to apply fixes: ${uri}`)
+                continue
+            }
+
+            if (document != null && !isMatlabAvailable && code !== savedCode) {
+                // The fixes would not apply to the unsaved changes
+                continue
+            }
+
+            const lintResults = await this.lintCode(uri, code, isMatlabAvailable)
+            const edits = getNonConflictingFixEdits(uri, lintResults?.codeActions ?? [])
+            if (edits.length > 0) {
+                documentChanges.push(TextDocumentEdit.create(
+                    OptionalVersionedTextDocumentIdentifier.create(uri, document?.version ?? null),
+                    edits
+                ))
+            }
+        }
+
+        return { documentChanges }
+    }
+
     /**
      * Attempt to suppress a diagnostic.
      *
@@ -234,6 +548,267 @@ class LintingSupportProvider {
         }
     }
 
+    /**
+     * Removes each %#ok pragma (or message ID within a pragma) in a document which no longer
+     * suppresses any messages.
+     *
+     * @param textDocument The document
+     */
+    async removeUnusedSuppressions (textDocument: TextDocument): Promise<void> {
+        const isMatlabAvailable = this.matlabLifecycleManager.isMatlabConnected()
+        const lintResults = await this.lintCode(textDocument.uri, textDocument.getText(), isMatlabAvailable)
+
+        const codeActions = lintResults?.codeActions.filter(codeAction => {
+            return codeAction.diagnostics?.some(diagnostic => diagnostic.code === UNUSED_SUPPRESSION_ID) === true
+        }) ?? []
+        const edits = getNonConflictingFixEdits(textDocument.uri, codeActions)
+
+        if (edits.length === 0) {
+            return
+        }
+
+        const wsEdit: WorkspaceEdit = {
+            changes: {
+                [textDocument.uri]: edits
+            },
+            documentChanges: [
+                TextDocumentEdit.create(
+                    VersionedTextDocumentIdentifier.create(textDocument.uri, textDocument.version),
+                    edits
+                )
+            ]
+        }
+
+        void ClientConnection.getConnection().workspace.applyEdit(wsEdit)
+    }
+
+    /**
+     * Requests that the client refreshes pulled diagnostics, if supported.
+     */
+    private refreshDiagnostics (): void {
+        if (this.isDiagnosticRefreshSupported) {
+            void ClientConnection.getConnection().languages.diagnostics.refresh()
+        }
+    }
+
+    /**
+     * Lints code using MATLAB, or using the mlint executable when MATLAB is not available.
+     *
+     * @param uri The URI of the file containing the code
+     * @param code The code to be linted
+     * @param isMatlabAvailable Whether MATLAB is available for linting
+     * @returns The diagnostics and code actions for the code, or null if the code
+     *     exceeds the maximum file size for analysis
+     */
+    private async lintCode (uri: string, code: string, isMatlabAvailable: boolean): Promise<LintResults | null> {
+        const analysisLimit = (await ConfigurationManager.getConfiguration()).maxFileSizeForAnalysis
+        if (analysisLimit > 0 && code.length > analysisLimit) {
+            return null
+        }
+
+        const configuration = await this.getLintConfigurationForUri(uri)
+
+        const lintData = await this.getLintData(uri, code, isMatlabAvailable, false, configuration)
+        const lintResults = this.processLintResults(uri, lintData ?? [])
+
+        // Results reported by the language server rather than Code Analyzer, whose
+        // disabled checks must be removed separately
+        const serverLintResults: LintResults = { diagnostics: [], codeActions: [] }
+
+        // Suppressions can only be checked when the linted code is the given code. The mlint
+        // executable lints the file saved on disk, which may differ from the given code.
+        const isCodeLinted = isMatlabAvailable || (await this.readSavedCode(uri)) === code
+
+        if (lintData != null && isCodeLinted && code.includes(SUPPRESSION_PRAGMA)) {
+            // Lint again, ignoring suppressions, to determine which suppressions are unnecessary
+            const unsuppressedLintData = await this.getLintData(uri, code, isMatlabAvailable, true, configuration)
+
+            // If linting failed, every suppression would appear to be unnecessary
+            if (unsuppressedLintData != null) {
+                const unsuppressedDiagnostics = this.processLintResults(uri, unsuppressedLintData).diagnostics
+                const unusedSuppressionResults = getUnusedSuppressionLintResults(uri, code, unsuppressedDiagnostics)
+
+                serverLintResults.diagnostics.push(...unusedSuppressionResults.diagnostics)
+                serverLintResults.codeActions.push(...unusedSuppressionResults.codeActions)
+            }
+        }
+
+        serverLintResults.diagnostics.push(...await this.getCrossFileDiagnostics(uri, code))
+
+        const enabledServerLintResults = removeDisabledChecks(serverLintResults, configuration)
+        lintResults.diagnostics.push(...enabledServerLintResults.diagnostics)
+        lintResults.codeActions.push(...enabledServerLintResults.codeActions)
+
+        return applyLintConfiguration(lintResults, configuration)
+    }
+
+    /**
+     * Gets the diagnostics which depend on other files, rather than only on the code.
+     * These are cached, and only recomputed when the code, the index, or the MATLAB
+     * path has changed.
+     *
+     * @param uri The URI of the file containing the code
+     * @param code The code
+     * @returns The argument count, name shadowing, and duplicate definition diagnostics for the code
+     */
+    private async getCrossFileDiagnostics (uri: string, code: string): Promise<Diagnostic[]> {
+        const key = `${this.getCrossFileVersion()}:${hashCode(code)}`
+        const cachedEntry = this.crossFileDiagnosticsCache.get(uri)
+        if (cachedEntry?.key === key) {
+            // Copy the diagnostics, as their severity may be changed by the configuration
+            return cachedEntry.diagnostics.map(diagnostic => ({ ...diagnostic }))
+        }
+
+        const diagnostics: Diagnostic[] = []
+
+        if (this.argumentCountAnalyzer != null) {
+            diagnostics.push(...await this.argumentCountAnalyzer.analyze(uri, code))
+        }
+
+        if (this.nameShadowingAnalyzer != null) {
+            diagnostics.push(...await this.nameShadowingAnalyzer.analyze(uri))
+        }
+
+        if (this.duplicateDefinitionAnalyzer != null) {
+            diagnostics.push(...await this.duplicateDefinitionAnalyzer.analyze(uri))
+        }
+
+        this.crossFileDiagnosticsCache.set(uri, { key, diagnostics })
+
+        return diagnostics.map(diagnostic => ({ ...diagnostic }))
+    }
+
+    /**
+     * Gets a version identifying the state of the other files on which cross-file
+     * diagnostics depend. This changes whenever the index or the MATLAB path changes.
+     *
+     * @returns The version
+     */
+    private getCrossFileVersion (): string {
+        return `${this.fileInfoIndex?.version ?? 0}:${this.pathResolver?.pathVersion ?? 0}`
+    }
+
+    /**
+     * Gets raw linting data, using MATLAB or the mlint executable. Previously computed
+     * data is reused when the same code has already been linted with the same options.
+     *
+     * @param uri The URI of the file containing the code
+     * @param code The code to be linted
+     * @param isMatlabAvailable Whether MATLAB is available for linting
+     * @param shouldIgnoreSuppressions Whether messages suppressed with %#ok pragmas should be reported
+     * @param configuration The Code Analyzer configuration for the file
+     * @returns Raw lint data for the code, or null if linting failed
+     */
+    private async getLintData (
+        uri: string,
+        code: string,
+        isMatlabAvailable: boolean,
+        shouldIgnoreSuppressions: boolean,
+        configuration: LintConfiguration
+    ): Promise<string[] | null> {
+        const fileName = FileNameUtils.getFilePathFromUri(uri, true)
+        let linter: string
+        let lintedCode: string | null = code
+        let mlintExecutable: string | null = null
+
+        if (isMatlabAvailable) {
+            linter = `matlab ${this.matlabLifecycleManager.getMatlabRelease() ?? ''}`
+        } else if (FileNameUtils.isMFile(uri)) {
+            mlintExecutable = await this.getMlintExecutable()
+            if (mlintExecutable == null) {
+                // Unable to locate executable
+                return null
+            }
+            linter = `mlint ${mlintExecutable}`
+            // The mlint executable lints the file saved on disk, rather than the given code
+            lintedCode = await this.readSavedCode(uri)
+        } else {
+            return null
+        }
+
+        const cacheKey = lintedCode != null
+            ? LintResultCache.createKey(linter, fileName, lintedCode, { shouldIgnoreSuppressions, configuration })
+            : null
+        const cachedLintData = cacheKey != null ? await this.lintResultCache.get(cacheKey) : null
+        if (cachedLintData != null) {
+            return cachedLintData
+        }
+
+        // Checks are enabled and disabled by Code Analyzer, so that checks which are disabled by default can be enabled
+        const configurationFilePath = await getConfigurationFilePath(configuration)
+
+        const lintData = mlintExecutable == null
+            // Use MATLAB-based linting for better results and fixes
+            ? await this.getLintResultsFromMatlab(code, fileName, shouldIgnoreSuppressions, configurationFilePath)
+            // Use mlint executable for basic linting
+            : await this.getLintResultsFromExecutable(mlintExecutable, fileName, shouldIgnoreSuppressions, configurationFilePath)
+
+        if (lintData == null) {
+            // Linting failed
+            return null
+        }
+
+        if (cacheKey != null) {
+            await this.lintResultCache.set(cacheKey, lintData)
+        }
+
+        return lintData
+    }
+
+    /**
+     * Gets the Code Analyzer configuration for the file with the given URI.
+     *
+     * @param uri The file's URI
+     * @returns The configuration
+     */
+    private async getLintConfigurationForUri (uri: string): Promise<LintConfiguration> {
+        const isSavedFile = URI.parse(uri).scheme === 'file'
+        return await getLintConfiguration(isSavedFile ? FileNameUtils.getFilePathFromUri(uri) : null)
+    }
+
+    /**
+     * Gets an ID identifying the result of linting code. The ID changes whenever
+     * the code, the way in which the code is linted (including the Code Analyzer
+     * configuration), or the index or MATLAB path on which diagnostics depending on
+     * other files are based change.
+     *
+     * @param uri The URI of the file containing the code
+     * @param code The code to be linted
+     * @param isMatlabAvailable Whether MATLAB is available for linting
+     * @returns The result ID
+     */
+    private async getResultId (uri: string, code: string, isMatlabAvailable: boolean): Promise<string> {
+        // The mlint executable lints the file saved on disk, rather than the given code
+        const lintedCode = isMatlabAvailable ? code : (await this.readSavedCode(uri) ?? code)
+
+        const analysisLimit = (await ConfigurationManager.getConfiguration()).maxFileSizeForAnalysis
+        const configuration = await this.getLintConfigurationForUri(uri)
+
+        return createHash('sha256')
+            .update(isMatlabAvailable ? 'matlab' : 'mlint')
+            .update(`${analysisLimit}`)
+            .update(JSON.stringify(configuration))
+            .update(this.getCrossFileVersion())
+            .update(code)
+            .update(lintedCode)
+            .digest('hex')
+    }
+
+    /**
+     * Reads the contents of a file saved on disk.
+     *
+     * @param uri The file's URI
+     * @returns The file's contents, or null if the file cannot be read
+     */
+    private async readSavedCode (uri: string): Promise<string | null> {
+        try {
+            return await fs.readFile(FileNameUtils.getFilePathFromUri(uri), 'utf8')
+        } catch {
+            // File has not been saved - no action
+            return null
+        }
+    }
+
     /**
      * Clears any active linting timers for the provided document URI.
      *
@@ -261,52 +836,53 @@ class LintingSupportProvider {
      *
      * @param code The code to be linted
      * @param fileName The file's name
-     * @param matlabConnection The connection to MATLAB
+     * @param shouldIgnoreSuppressions Whether messages suppressed with %#ok pragmas should be reported
+     * @param configurationFilePath The path of the Code Analyzer configuration file, if any
      * @returns Raw lint data for the code
      */
-    private async getLintResultsFromMatlab (code: string, fileName: string): Promise<string[]> {
+    private async getLintResultsFromMatlab (
+        code: string, fileName: string, shouldIgnoreSuppressions = false, configurationFilePath: string | null = null
+    ): Promise<string[] | null> {
         if (code.length === 0 || !this.mvm.isReady()) {
             // If no code in document or the MVM is not yet ready,
             // return early with an empty lint result
-            return []
+            return code.length === 0 ? [] : null
         }
 
         try {
             const response = await this.mvm.feval(
                 'matlabls.handlers.linting.getLintData',
                 1,
-                [code, fileName]
+                [code, fileName, shouldIgnoreSuppressions, configurationFilePath ?? '']
             )
 
             if ('error' in response) {
                 // Handle MVMError
                 Logger.error('Error received while linting document:')
                 Logger.error(response.error.msg)
-                return []
+                return null
             }
 
             return parse(response.result[0]) as string[]
         } catch (err) {
             Logger.error('Error caught while linting document:')
             Logger.error(err as string)
-            return []
+            return null
         }
     }
 
     /**
      * Gets raw linting data using the mlint executable.
      *
+     * @param mlintExecutable The path to the mlint executable
      * @param fileName The file's name
-     * @returns Raw lint data for the file
+     * @param shouldIgnoreSuppressions Whether messages suppressed with %#ok pragmas should be reported
+     * @param configurationFilePath The path of the Code Analyzer configuration file, if any
+     * @returns Raw lint data for the file, or null if linting failed
      */
-    private async getLintResultsFromExecutable (fileName: string): Promise<string[]> {
-        const mlintExecutable = await this.getMlintExecutable()
-
-        if (mlintExecutable == null) {
-            // Unable to locate executable
-            return []
-        }
-
+    private async getLintResultsFromExecutable (
+        mlintExecutable: string, fileName: string, shouldIgnoreSuppressions = false, configurationFilePath: string | null = null
+    ): Promise<string[] | null> {
         const mlintArgs = [
             fileName,
             '-id',
@@ -314,7 +890,15 @@ class LintingSupportProvider {
             '-fix'
         ]
 
-        return await new Promise<string[]>(resolve => {
+        if (shouldIgnoreSuppressions) {
+            mlintArgs.push('-notok')
+        }
+
+        if (configurationFilePath != null) {
+            mlintArgs.push(`-config=${configurationFilePath}`)
+        }
+
+        return await new Promise<string[] | null>(resolve => {
             try {
                 execFile(
                     mlintExecutable,
@@ -322,13 +906,14 @@ class LintingSupportProvider {
                     (error: ExecFileException | null, stdout: string, stderr: string) => {
                         if (error != null) {
                             Logger.error(`Error from mlint executable: ${error.message}\n${error.stack ?? ''}`)
-                            resolve([])
+                            resolve(null)
                         }
                         resolve(stderr.split('\n')) // For some reason, mlint appears to output on stderr instead of stdout
                     }
                 )
             } catch (e) {
                 Logger.error(`Error executing mlint executable at ${mlintExecutable}`)
+                resolve(null)
             }
         })
     }
@@ -412,7 +997,7 @@ class LintingSupportProvider {
      * @param lintData The lint data for the document
      * @returns Parsed diagnostics and code actions
      */
-    private processLintResults (uri: string, lintData: string[]): { diagnostics: Diagnostic[], codeActions: CodeAction[] } {
+    private processLintResults (uri: string, lintData: string[]): LintResults {
         const diagnostics: Diagnostic[] = []
         const codeActions: CodeAction[] = []
 
@@ -447,6 +1032,11 @@ class LintingSupportProvider {
             }
 
             const diagnostic = Diagnostic.create(Range.create(line, startColumn, line, endColumn), lintMessage, severity, id, 'MATLAB')
+            diagnostic.codeDescription = getCodeDescriptionForMessage(id)
+            const tags = getTagsForMessage(id)
+            if (tags != null) {
+                diagnostic.tags = tags
+            }
             diagnostics.push(diagnostic)
 
             // Parse fix data for this diagnostic, if it exists
@@ -538,4 +1128,82 @@ class LintingSupportProvider {
     }
 }
 
+/**
+ * Creates a code action which applies every non-conflicting fix in a file.
+ *
+ * @param uri The URI of the file
+ * @param codeActions The code actions fixing individual diagnostics in the file
+ * @returns The code action, or null if there are no fixes to apply
+ */
+function createFixAllCodeAction (uri: string, codeActions: CodeAction[]): CodeAction | null {
+    const edits = getNonConflictingFixEdits(uri, codeActions)
+    if (edits.length === 0) {
+        return null
+    }
+
+    return CodeAction.create('Fix all auto-fixable problems', { changes: { [uri]: edits } }, FIX_ALL_CODE_ACTION_KIND)
+}
+
+/**
+ * Gets the edits from each code action fixing a diagnostic in a file. When the edits from
+ * multiple code actions overlap, only the first code action's edits are included, so that
+ * the fixes do not conflict.
+ *
+ * @param uri The URI of the file
+ * @param codeActions The code actions fixing individual diagnostics in the file
+ * @returns The edits
+ */
+function getNonConflictingFixEdits (uri: string, codeActions: CodeAction[]): TextEdit[] {
+    const acceptedEdits: TextEdit[] = []
+
+    codeActions.forEach(codeAction => {
+        const edits = codeAction.edit?.changes?.[uri] ?? []
+        const hasConflict = edits.some(edit => acceptedEdits.some(acceptedEdit => doEditsConflict(edit, acceptedEdit)))
+        if (!hasConflict) {
+            acceptedEdits.push(...edits)
+        }
+    })
+
+    return acceptedEdits
+}
+
+/**
+ * Determines whether two edits conflict, because their ranges overlap or because
+ * both start at the same position (in which case the order they are applied is unclear).
+ */
+function doEditsConflict (a: TextEdit, b: TextEdit): boolean {
+    return arePositionsEqual(a.range.start, b.range.start) ||
+        (isPositionLessThan(a.range.start, b.range.end) && isPositionLessThan(b.range.start, a.range.end))
+}
+
+/**
+ * Waits for the given amount of time, or until the request is cancelled.
+ *
+ * @param delay The time to wait (in ms)
+ * @param token A token indicating whether the request has been cancelled
+ */
+async function waitUnlessCancelled (delay: number, token?: CancellationToken): Promise<void> {
+    await new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+            listener?.dispose()
+            resolve()
+        }, delay)
+
+        const listener = token?.onCancellationRequested(() => {
+            clearTimeout(timer)
+            resolve()
+        })
+    })
+}
+
+/**
+ * Computes a hash of code, for identifying the code without storing it.
+ *
+ * @param code The code
+ * @returns The hash
+ */
+function hashCode (code: string): string {
+    return createHash('sha256').update(code).digest('hex')
+}
+
 export default LintingSupportProvider
@@ -0,0 +1,172 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location, Range } from 'vscode-languageserver'
+import * as path from 'path'
+import { URI } from 'vscode-uri'
+import FileInfoIndex from '../../indexing/FileInfoIndex'
+import PathResolver, { ResolvedPath } from '../navigation/PathResolver'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+
+/**
+ * The ID of diagnostics reported for files whose names conflict with other files on the path
+ */
+export const SHADOWED_NAME_ID = 'ShadowedName'
+
+/**
+ * A workspace file with the same name as other files on the MATLAB path
+ */
+export interface NameConflict {
+    // The URI of the workspace file
+    uri: string
+    // The name defined by the file
+    name: string
+    // Whether the file takes precedence over the conflicting files. This is false
+    // when the file is on the path behind a conflicting file.
+    isShadowing: boolean
+    // The other files defining the same name, in order of precedence
+    conflictingPaths: ResolvedPath[]
+}
+
+/**
+ * Finds workspace files whose names shadow functions which ship with MATLAB, or other
+ * files on the MATLAB path. The conflicts are determined by MATLAB (equivalent to
+ * "which -all"), so no conflicts are found when MATLAB is not connected.
+ *
+ * Files within package, class, and private folders are not checked, as they are only
+ * called using a qualified name or from a limited context.
+ */
+class NameShadowingAnalyzer {
+    constructor (
+        private readonly fileInfoIndex: FileInfoIndex,
+        private readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Finds conflicts between the name of a file and other files on the path.
+     *
+     * @param uri The URI of the file
+     * @returns Diagnostics for the conflicting name
+     */
+    async analyze (uri: string): Promise<Diagnostic[]> {
+        const conflicts = await this.findNameConflicts([uri])
+
+        return conflicts.map(conflict => this.createDiagnostic(conflict))
+    }
+
+    /**
+     * Finds the files whose names conflict with other files on the path.
+     *
+     * @param uris The URIs of the files to check
+     * @returns The conflicts found, in the same order as the files
+     */
+    async findNameConflicts (uris: string[]): Promise<NameConflict[]> {
+        const files = uris
+            .filter(uri => canShadowName(uri))
+            .map(uri => ({ uri, name: getNameFromUri(uri) }))
+
+        if (files.length === 0) {
+            return []
+        }
+
+        const resolvedPaths = await this.pathResolver.resolveAllPaths(files.map(file => file.name))
+        if (resolvedPaths == null) {
+            return []
+        }
+
+        const conflicts: NameConflict[] = []
+
+        files.forEach((file, index) => {
+            const paths = resolvedPaths[index] ?? []
+            const fileIndex = paths.findIndex(resolvedPath => areUrisEqual(resolvedPath.uri, file.uri))
+            const conflictingPaths = paths.filter((_, pathIndex) => pathIndex !== fileIndex)
+
+            if (conflictingPaths.length > 0) {
+                conflicts.push({
+                    ...file,
+                    // Files not on the path take precedence when in the current folder
+                    isShadowing: fileIndex <= 0,
+                    conflictingPaths
+                })
+            }
+        })
+
+        return conflicts
+    }
+
+    private createDiagnostic (conflict: NameConflict): Diagnostic {
+        const { name, conflictingPaths } = conflict
+        const isMatlabFunction = conflictingPaths.some(resolvedPath => resolvedPath.isMatlabFunction)
+
+        let message: string
+        if (conflict.isShadowing) {
+            message = isMatlabFunction
+                ? `'${name}' shadows a MATLAB function with the same name.`
+                : `'${name}' shadows other files with the same name on the MATLAB path.`
+        } else {
+            message = `'${name}' is shadowed by another file with the same name on the MATLAB path, so this file is not called.`
+        }
+
+        const diagnostic = Diagnostic.create(
+            this.getDeclarationRange(conflict.uri),
+            message,
+            DiagnosticSeverity.Warning,
+            SHADOWED_NAME_ID,
+            'MATLAB'
+        )
+
+        // MATLAB functions may not have a file which can be shown
+        const relatedPaths = conflictingPaths.filter(resolvedPath => !resolvedPath.isMatlabFunction)
+        if (relatedPaths.length > 0) {
+            diagnostic.relatedInformation = relatedPaths.map(resolvedPath => DiagnosticRelatedInformation.create(
+                Location.create(resolvedPath.uri, Range.create(0, 0, 0, 0)),
+                `'${name}' is also defined here.`
+            ))
+        }
+
+        return diagnostic
+    }
+
+    /**
+     * Gets the range of the name declared by a file (i.e. the class name or the first
+     * function name). For scripts, or files which are not indexed, this is the start
+     * of the file.
+     */
+    private getDeclarationRange (uri: string): Range {
+        const globalScopeInfo = this.fileInfoIndex.codeInfoCache.get(uri)?.globalScopeInfo
+
+        const classdefInfo = globalScopeInfo?.classScope?.classdefInfo
+        if (classdefInfo != null) {
+            return classdefInfo.declarationNameId.range
+        }
+
+        const functionInfo = globalScopeInfo?.functionScopes.values().next().value
+        return functionInfo?.functionScopeInfo?.declarationNameId.range ?? Range.create(0, 0, 0, 0)
+    }
+}
+
+/**
+ * Determines whether a file may shadow other files. Files within package (+), class (@),
+ * or private folders are excluded.
+ */
+function canShadowName (uri: string): boolean {
+    if (!FileNameUtils.isMFile(uri)) {
+        return false
+    }
+
+    const folders = path.dirname(URI.parse(uri).fsPath).split(path.sep)
+    return !folders.some(folder => folder.startsWith('+') || folder.startsWith('@') || folder === 'private')
+}
+
+function getNameFromUri (uri: string): string {
+    return path.basename(URI.parse(uri).fsPath, '.m')
+}
+
+function areUrisEqual (uri1: string, uri2: string): boolean {
+    const path1 = path.normalize(URI.parse(uri1).fsPath)
+    const path2 = path.normalize(URI.parse(uri2).fsPath)
+
+    // File names are not case sensitive on Windows
+    return process.platform === 'win32' ? path1.toLowerCase() === path2.toLowerCase() : path1 === path2
+}
+
+export default NameShadowingAnalyzer
@@ -0,0 +1,223 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, DiagnosticTag, Range, TextEdit } from 'vscode-languageserver'
+import { LintResults } from './LintingSupportProvider'
+import { splitLines, Token, tokenize, TokenType } from '../../utils/MatlabLexer'
+
+/**
+ * The ID of diagnostics reported for unnecessary %#ok pragmas
+ */
+export const UNUSED_SUPPRESSION_ID = 'UnusedSuppression'
+
+const PRAGMA_REGEX = /^%#ok(?:<([^>]*)>)?/
+
+/**
+ * An unnecessary %#ok pragma, or an unnecessary message ID within a pragma
+ */
+export interface UnusedSuppression {
+    // The range of the unnecessary pragma or message ID
+    range: Range
+    // The unnecessarily suppressed message IDs, or an empty array for a pragma which suppresses all messages on its line
+    ids: string[]
+    // The edit removing the unnecessary pragma or message ID
+    edit: TextEdit
+}
+
+/**
+ * Information about a single line of code
+ */
+interface LineInfo {
+    // The index at which the line's comment starts, or -1 if there is no comment
+    commentStart: number
+    // Whether the line is continued onto the next line ("...")
+    hasContinuation: boolean
+}
+
+/**
+ * Finds the %#ok pragmas which do not suppress any messages.
+ *
+ * A pragma is unnecessary when none of the messages it suppresses are reported. Pragmas
+ * apply to the line they are on (along with the preceding lines of a continued statement),
+ * while message IDs prefixed with "*" apply to the entire file.
+ *
+ * @param code The code containing the pragmas
+ * @param unsuppressedDiagnostics The diagnostics reported for the code when %#ok pragmas
+ *     are ignored
+ * @returns The unnecessary pragmas and message IDs
+ */
+export function findUnusedSuppressions (code: string, unsuppressedDiagnostics: Diagnostic[]): UnusedSuppression[] {
+    const lines = splitLines(code)
+    const lineInfos = tokenize(code).map(getLineInfo)
+
+    const idsInFile = new Set<string>()
+    const idsByLine = new Map<number, Set<string>>()
+    unsuppressedDiagnostics.forEach(diagnostic => {
+        const id = String(diagnostic.code)
+        const line = diagnostic.range.start.line
+        idsInFile.add(id)
+        idsByLine.set(line, (idsByLine.get(line) ?? new Set<string>()).add(id))
+    })
+
+    const unusedSuppressions: UnusedSuppression[] = []
+
+    lines.forEach((lineText, line) => {
+        const commentStart = lineInfos[line].commentStart
+        if (commentStart === -1) {
+            return
+        }
+
+        const match = PRAGMA_REGEX.exec(lineText.substring(commentStart))
+        if (match == null) {
+            return
+        }
+
+        // The pragma applies to each line of a continued statement
+        let statementStart = line
+        while (statementStart > 0 && lineInfos[statementStart - 1].hasContinuation) {
+            statementStart--
+        }
+        const idsOnLines = new Set<string>()
+        for (let i = statementStart; i <= line; i++) {
+            idsByLine.get(i)?.forEach(id => idsOnLines.add(id))
+        }
+
+        const pragmaRange = Range.create(line, commentStart, line, commentStart + match[0].length)
+        const idTokens = getIdTokens(match[1] ?? '', commentStart + '%#ok<'.length)
+
+        if (idTokens.length === 0) {
+            // The pragma suppresses all messages on the line
+            if (idsOnLines.size === 0) {
+                unusedSuppressions.push({ range: pragmaRange, ids: [], edit: getPragmaRemovalEdit(lines, line, pragmaRange) })
+            }
+            return
+        }
+
+        const unusedTokens = idTokens.filter(token => {
+            const isFileWide = token.text.startsWith('*')
+            const id = isFileWide ? token.text.substring(1) : token.text
+            return isFileWide ? !idsInFile.has(id) : !idsOnLines.has(id)
+        })
+
+        if (unusedTokens.length === idTokens.length) {
+            unusedSuppressions.push({
+                range: pragmaRange,
+                ids: unusedTokens.map(token => token.text),
+                edit: getPragmaRemovalEdit(lines, line, pragmaRange)
+            })
+            return
+        }
+
+        unusedTokens.forEach(token => {
+            unusedSuppressions.push({
+                range: Range.create(line, token.start, line, token.start + token.text.length),
+                ids: [token.text],
+                edit: getIdRemovalEdit(line, token, idTokens)
+            })
+        })
+    })
+
+    return unusedSuppressions
+}
+
+/**
+ * Creates diagnostics and code actions for the unnecessary %#ok pragmas in code.
+ *
+ * @param uri The URI of the file containing the code
+ * @param code The code
+ * @param unsuppressedDiagnostics The diagnostics reported for the code when %#ok pragmas
+ *     are ignored
+ * @returns The diagnostics, tagged as unnecessary, and code actions which remove the pragmas
+ */
+export function getUnusedSuppressionLintResults (uri: string, code: string, unsuppressedDiagnostics: Diagnostic[]): LintResults {
+    const diagnostics: Diagnostic[] = []
+    const codeActions: CodeAction[] = []
+
+    findUnusedSuppressions(code, unsuppressedDiagnostics).forEach(unusedSuppression => {
+        const message = unusedSuppression.ids.length === 0
+            ? 'Unnecessary %#ok suppression. No messages are reported on this line.'
+            : `Unnecessary %#ok suppression of ${unusedSuppression.ids.join(', ')}.`
+
+        const diagnostic = Diagnostic.create(unusedSuppression.range, message, DiagnosticSeverity.Information, UNUSED_SUPPRESSION_ID, 'MATLAB')
+        diagnostic.tags = [DiagnosticTag.Unnecessary]
+        diagnostics.push(diagnostic)
+
+        const action = CodeAction.create('Remove unnecessary suppression', { changes: { [uri]: [unusedSuppression.edit] } }, CodeActionKind.QuickFix)
+        action.diagnostics = [diagnostic]
+        codeActions.push(action)
+    })
+
+    return { diagnostics, codeActions }
+}
+
+interface IdToken {
+    // The index of the ID within the line
+    start: number
+    text: string
+}
+
+/**
+ * Gets the message IDs listed within a pragma (e.g. "NASGU" and "*AGROW" in "%#ok<NASGU,*AGROW>").
+ */
+function getIdTokens (idList: string, listStart: number): IdToken[] {
+    const tokens: IdToken[] = []
+    const idRegex = /[^,\s]+/g
+
+    let match: RegExpExecArray | null
+    while ((match = idRegex.exec(idList)) != null) {
+        tokens.push({ start: listStart + match.index, text: match[0] })
+    }
+
+    return tokens
+}
+
+/**
+ * Gets an edit removing an entire pragma. When the pragma is the only content of its
+ * comment, the comment (along with any preceding whitespace) is removed. When the pragma
+ * is the only content of its line, the line is removed.
+ */
+function getPragmaRemovalEdit (lines: string[], line: number, pragmaRange: Range): TextEdit {
+    const lineText = lines[line]
+    const codeText = lineText.substring(0, pragmaRange.start.character).trimEnd()
+    const remainingComment = lineText.substring(pragmaRange.end.character)
+
+    if (remainingComment.trim() !== '') {
+        // Keep the rest of the comment
+        return TextEdit.replace(pragmaRange, '%')
+    }
+
+    if (codeText === '') {
+        return line < lines.length - 1
+            ? TextEdit.del(Range.create(line, 0, line + 1, 0))
+            : TextEdit.del(Range.create(line, 0, line, lineText.length))
+    }
+
+    return TextEdit.del(Range.create(line, codeText.length, line, lineText.length))
+}
+
+/**
+ * Gets an edit removing a single message ID from a pragma, along with the comma
+ * separating it from the following (or, for the last ID, the preceding) ID.
+ */
+function getIdRemovalEdit (line: number, token: IdToken, idTokens: IdToken[]): TextEdit {
+    const index = idTokens.indexOf(token)
+
+    if (index < idTokens.length - 1) {
+        return TextEdit.del(Range.create(line, token.start, line, idTokens[index + 1].start))
+    }
+
+    const previousToken = idTokens[index - 1]
+    return TextEdit.del(Range.create(line, previousToken.start + previousToken.text.length, line, token.start + token.text.length))
+}
+
+/**
+ * Finds where a line's comment starts and whether the line is continued. Lines within
+ * block comments do not contain pragmas.
+ */
+function getLineInfo (tokens: Token[]): LineInfo {
+    const lastToken = tokens[tokens.length - 1]
+
+    return {
+        commentStart: lastToken?.type === TokenType.Comment ? lastToken.start : -1,
+        hasContinuation: lastToken?.type === TokenType.Continuation
+    }
+}
@@ -1,8 +1,16 @@
-// Copyright 2022 - 2024 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { ExecuteCommandParams, Range, TextDocuments } from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { URI } from 'vscode-uri'
 import LintingSupportProvider from '../linting/LintingSupportProvider'
+import { createSarifLog } from '../linting/LintReports'
+import NameShadowingAnalyzer, { NameConflict } from '../linting/NameShadowingAnalyzer'
+import { findMFilesInFolder } from '../../utils/FsUtils'
+import ClientConnection from '../../ClientConnection'
+import Logger from '../../logging/Logger'
 
 interface LintSuppressionArgs {
     id: string
@@ -10,16 +18,39 @@ interface LintSuppressionArgs {
     uri: string
 }
 
+interface LintFixAllArgs {
+    // The URI of the file to fix. If not specified, all files in the workspace folders are fixed.
+    uri?: string
+}
+
+interface LintRemoveUnusedSuppressionsArgs {
+    uri: string
+}
+
+interface LintWorkspaceArgs {
+    // The path of the SARIF file to write. Defaults to a file in the first workspace folder.
+    outputPath?: string
+}
+
 export const MatlabLSCommands = {
     MLINT_SUPPRESS_ON_LINE: 'matlabls.lint.suppress.line',
-    MLINT_SUPPRESS_IN_FILE: 'matlabls.lint.suppress.file'
+    MLINT_SUPPRESS_IN_FILE: 'matlabls.lint.suppress.file',
+    MLINT_WORKSPACE: 'matlabls.lint.workspace',
+    MLINT_FIX_ALL: 'matlabls.lint.fixAll',
+    MLINT_REMOVE_UNUSED_SUPPRESSIONS: 'matlabls.lint.removeUnusedSuppressions',
+    MLINT_SHADOWING_REPORT: 'matlabls.lint.shadowingReport'
 }
 
+const SARIF_FILE_NAME = 'codeAnalyzerResults.sarif'
+
 /**
  * Handles requests to execute commands
  */
 class ExecuteCommandProvider {
-    constructor (private readonly lintingSupportProvider: LintingSupportProvider) {}
+    constructor (
+        private readonly lintingSupportProvider: LintingSupportProvider,
+        private readonly nameShadowingAnalyzer: NameShadowingAnalyzer
+    ) {}
 
     /**
      * Handles command execution requests.
@@ -27,13 +58,27 @@ class ExecuteCommandProvider {
      * @param params Parameters from the onExecuteCommand request
      * @param documentManager The text document manager
      * @param connection The language server connection
+     * @returns The result of the command, if any
      */
-    async handleExecuteCommand (params: ExecuteCommandParams, documentManager: TextDocuments<TextDocument>): Promise<void> {
+    async handleExecuteCommand (params: ExecuteCommandParams, documentManager: TextDocuments<TextDocument>): Promise<unknown> {
         switch (params.command) {
             case MatlabLSCommands.MLINT_SUPPRESS_ON_LINE:
             case MatlabLSCommands.MLINT_SUPPRESS_IN_FILE:
                 void this.handleLintingSuppression(params, documentManager)
+                break
+            case MatlabLSCommands.MLINT_WORKSPACE:
+                return await this.handleLintWorkspace(params)
+            case MatlabLSCommands.MLINT_FIX_ALL:
+                await this.handleLintFixAll(params, documentManager)
+                break
+            case MatlabLSCommands.MLINT_REMOVE_UNUSED_SUPPRESSIONS:
+                await this.handleRemoveUnusedSuppressions(params, documentManager)
+                break
+            case MatlabLSCommands.MLINT_SHADOWING_REPORT:
+                return await this.handleShadowingReport()
         }
+
+        return null
     }
 
     /**
@@ -56,6 +101,107 @@ class ExecuteCommandProvider {
         const shouldSuppressThroughoutFile = params.command === MatlabLSCommands.MLINT_SUPPRESS_IN_FILE
         void this.lintingSupportProvider.suppressDiagnostic(doc, range, args.id, shouldSuppressThroughoutFile)
     }
+
+    /**
+     * Handles command to remove the unnecessary %#ok pragmas in a file.
+     *
+     * @param params Parameters from the onExecuteCommand request
+     * @param documentManager The text document manager
+     */
+    private async handleRemoveUnusedSuppressions (params: ExecuteCommandParams, documentManager: TextDocuments<TextDocument>): Promise<void> {
+        const args = params.arguments?.[0] as LintRemoveUnusedSuppressionsArgs
+        const doc = documentManager.get(args.uri)
+
+        if (doc == null) {
+            return
+        }
+
+        await this.lintingSupportProvider.removeUnusedSuppressions(doc)
+    }
+
+    /**
+     * Handles command to apply every non-conflicting Code Analyzer fix in a file, or in
+     * all MATLAB code files in the workspace folders, as a single edit.
+     *
+     * @param params Parameters from the onExecuteCommand request
+     * @param documentManager The text document manager
+     */
+    private async handleLintFixAll (params: ExecuteCommandParams, documentManager: TextDocuments<TextDocument>): Promise<void> {
+        const args = params.arguments?.[0] as LintFixAllArgs | undefined
+        // Files outside of the workspace folders (e.g. toolbox files on the path) are never edited
+        const uris = args?.uri != null ? [args.uri] : await this.getWorkspaceFileUris()
+
+        const edit = await this.lintingSupportProvider.getFixAllEdit(uris, documentManager)
+
+        if ((edit.documentChanges ?? []).length > 0) {
+            await ClientConnection.getConnection().workspace.applyEdit(edit)
+        }
+    }
+
+    /**
+     * Handles command to lint every MATLAB code file in the workspace folders,
+     * writing the results to a SARIF file.
+     *
+     * @param params Parameters from the onExecuteCommand request
+     * @returns The path of the SARIF file, or null if no file was written
+     */
+    private async handleLintWorkspace (params: ExecuteCommandParams): Promise<string | null> {
+        const folders = await ClientConnection.getConnection().workspace.getWorkspaceFolders()
+
+        if (folders == null || folders.length === 0) {
+            return null
+        }
+
+        const folderPaths = folders.map(folder => URI.parse(folder.uri).fsPath)
+        const args = params.arguments?.[0] as LintWorkspaceArgs | undefined
+        const outputPath = args?.outputPath ?? path.join(folderPaths[0], SARIF_FILE_NAME)
+
+        const results = await this.lintingSupportProvider.lintFolders(folderPaths)
+        const sarifLog = createSarifLog(results)
+
+        try {
+            await fs.writeFile(outputPath, JSON.stringify(sarifLog, null, 4), 'utf8')
+        } catch (err) {
+            Logger.error(`Error writing Code Analyzer results to ${outputPath}:`)
+            Logger.error(err as string)
+            return null
+        }
+
+        return outputPath
+    }
+
+    /**
+     * Handles command to find the MATLAB code files in the workspace folders whose
+     * names shadow MATLAB functions or other files on the path.
+     *
+     * @returns The files with conflicting names
+     */
+    private async handleShadowingReport (): Promise<NameConflict[]> {
+        const uris = await this.getWorkspaceFileUris()
+
+        return await this.nameShadowingAnalyzer.findNameConflicts(uris)
+    }
+
+    /**
+     * Finds the MATLAB code files in the workspace folders.
+     *
+     * @returns The URIs of the files
+     */
+    private async getWorkspaceFileUris (): Promise<string[]> {
+        const folders = await ClientConnection.getConnection().workspace.getWorkspaceFolders()
+
+        if (folders == null) {
+            return []
+        }
+
+        const uris: string[] = []
+        for (const folder of folders) {
+            const filePaths = await findMFilesInFolder(URI.parse(folder.uri).fsPath)
+            uris.push(...filePaths.map(filePath => URI.file(filePath).toString()))
+        }
+
+        return uris
+    }
 }
 
 export default ExecuteCommandProvider
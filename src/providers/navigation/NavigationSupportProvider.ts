@@ -1,14 +1,11 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
-import { DefinitionParams, DocumentSymbolParams, Location, Range, ReferenceParams, SymbolInformation, SymbolKind, TextDocuments } from 'vscode-languageserver'
+import {
+    DefinitionParams, DocumentSymbol, DocumentSymbolParams, Location, Range, ReferenceParams, SymbolInformation, SymbolKind, TextDocuments,
+    WorkspaceSymbolParams
+} from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
-import FileInfoIndex, {
-    FunctionContainer, MatlabClassdefInfo, MatlabClassInfo, MatlabCodeInfo, MatlabFunctionScopeInfo,
-    MatlabGlobalScopeInfo
-} from '../../indexing/FileInfoIndex'
-import { MatlabConnection } from '../../lifecycle/MatlabCommunicationManager'
-import LifecycleNotificationHelper from '../../lifecycle/LifecycleNotificationHelper'
-import { ActionErrorConditions } from '../../logging/TelemetryUtils'
+import FileInfoIndex, { getAllFunctionScopes, MatlabClassdefInfo, MatlabCodeInfo, MatlabFunctionScopeInfo } from '../../indexing/FileInfoIndex'
 import { RequestType, reportTelemetry } from '../../indexing/SymbolSearchService'
 import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
 import Indexer from '../../indexing/Indexer'
@@ -17,6 +14,21 @@ import PathResolver from './PathResolver'
 import NotificationService, { Notification } from '../../notifications/NotificationService'
 import * as SymbolSearchService from '../../indexing/SymbolSearchService'
 import { DocumentUri } from 'vscode-languageserver-types'
+import * as path from 'path'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+import { fuzzyMatch } from '../../utils/FuzzyMatchUtils'
+import { rangeContains } from '../../utils/RangeUtils'
+import { isPositionLessThan } from '../../utils/PositionUtils'
+
+const MAX_WORKSPACE_SYMBOLS = 500
+
+/**
+ * A symbol which may be returned from a workspace symbol search
+ */
+interface WorkspaceSymbolCandidate {
+    symbol: SymbolInformation
+    qualifiedName: string
+}
 
 class NavigationSupportProvider {
     constructor (
@@ -36,12 +48,9 @@ class NavigationSupportProvider {
      * @returns An array of locations
      */
     async handleDefOrRefRequest (params: DefinitionParams | ReferenceParams, documentManager: TextDocuments<TextDocument>, requestType: RequestType): Promise<Location[]> {
-        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
-        if (matlabConnection == null) {
-            LifecycleNotificationHelper.notifyMatlabRequirement()
-            reportTelemetry(requestType, ActionErrorConditions.MatlabUnavailable)
-            return []
-        }
+        // Start MATLAB if it is not already running. When MATLAB is not available, the
+        // code is indexed without MATLAB.
+        await this.matlabLifecycleManager.getMatlabConnection(true)
 
         const uri = params.textDocument.uri
         const textDocument = documentManager.get(uri)
@@ -63,35 +72,19 @@ class NavigationSupportProvider {
     }
 
     /**
+     * Handles requests for document symbols.
      *
-     * @param params Parameters for the document symbol request
+     * @param uri The URI of the document
      * @param documentManager The text document manager
      * @param requestType The type of request
+     * @param isHierarchical Whether the client supports hierarchical document symbols. If so,
+     *     symbols are nested within the symbols containing them (e.g. methods within their
+     *     methods block, which is within the classdef).
      * @returns Array of symbols found in the document
      */
-    async handleDocumentSymbol (uri: DocumentUri, documentManager: TextDocuments<TextDocument>, requestType: RequestType): Promise<SymbolInformation[]> {
-        // Get or wait for the MATLAB connection to handle files opened before MATLAB is ready.
-        // We do not want to trigger MATLAB to launch due to the frequency of this callback.
-        // However, simply returning [] in this case could cause a delay between MATLAB started
-        // and the symbols being identified.
-        // eslint-disable-next-line no-async-promise-executor
-        const matlabConnection = await new Promise<MatlabConnection | null>(async resolve => {
-            if (this.matlabLifecycleManager.isMatlabConnected()) {
-                resolve(await this.matlabLifecycleManager.getMatlabConnection())
-            } else {
-                // MATLAB is not already connected, so wait until it has connected to
-                // resolve the connection.
-                this.matlabLifecycleManager.eventEmitter.once('connected', async () => {
-                    resolve(await this.matlabLifecycleManager.getMatlabConnection())
-                })
-            }
-        })
-
-        if (matlabConnection == null) {
-            reportTelemetry(requestType, ActionErrorConditions.MatlabUnavailable)
-            return []
-        }
-
+    async handleDocumentSymbol (
+        uri: DocumentUri, documentManager: TextDocuments<TextDocument>, requestType: RequestType, isHierarchical = false
+    ): Promise<SymbolInformation[] | DocumentSymbol[]> {
         const textDocument = documentManager.get(uri)
 
         if (textDocument == null) {
@@ -107,6 +100,12 @@ class NavigationSupportProvider {
             return []
         }
 
+        this._sendSectionRangesForHighlighting(codeInfo, uri)
+
+        if (isHierarchical) {
+            return getHierarchicalDocumentSymbols(codeInfo)
+        }
+
         // Result symbols in document
         const result: SymbolInformation[] = []
 
@@ -130,7 +129,7 @@ class NavigationSupportProvider {
             classdef.propertiesBlocks.forEach(blockInfo => pushSymbol(blockInfo.name, SymbolKind.Property, blockInfo.range))
         }
 
-        this._getAllFunctionScopesInFile(codeInfo).forEach(functionScopeInfo => pushSymbol(
+        getAllFunctionScopes(codeInfo).forEach(functionScopeInfo => pushSymbol(
             functionScopeInfo.declarationNameId.name,
             functionScopeInfo.functionInfo.isMethod ? SymbolKind.Method : SymbolKind.Function,
             functionScopeInfo.range
@@ -142,31 +141,100 @@ class NavigationSupportProvider {
             }
         })
 
-        this._sendSectionRangesForHighlighting(codeInfo, uri)
-
         return result
     }
 
-    private _getAllFunctionScopesInFile (codeInfo: MatlabCodeInfo): MatlabFunctionScopeInfo[] {
-        const functionScopes: MatlabFunctionScopeInfo[] = []
-        this._getAllFunctionScopesInFileAcc(codeInfo.globalScopeInfo, functionScopes)
-        return functionScopes
+    /**
+     * Handles requests for workspace symbols.
+     *
+     * Symbols are searched for across every file in the index, and are matched
+     * fuzzily against the query. Queries containing dots (e.g. "pkg.sub.fun")
+     * are matched against the symbols' package-qualified names.
+     *
+     * @param params Parameters for the workspace symbol request
+     * @param requestType The type of request
+     * @returns Array of matching symbols, sorted from best to worst match
+     */
+    handleWorkspaceSymbol (params: WorkspaceSymbolParams, requestType: RequestType): SymbolInformation[] {
+        const query = params.query.trim()
+        const isQualifiedQuery = query.includes('.')
+
+        const matches: Array<{ symbol: SymbolInformation, score: number }> = []
+
+        for (const codeInfo of this.fileInfoIndex.codeInfoCache.values()) {
+            for (const candidate of this._getWorkspaceSymbolCandidates(codeInfo)) {
+                const score = fuzzyMatch(query, isQualifiedQuery ? candidate.qualifiedName : candidate.symbol.name)
+                if (score != null) {
+                    matches.push({ symbol: candidate.symbol, score })
+                }
+            }
+        }
+
+        reportTelemetry(requestType)
+
+        return matches
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_WORKSPACE_SYMBOLS)
+            .map(match => match.symbol)
     }
 
-    private _getAllFunctionScopesInFileAcc (scope: FunctionContainer, functionScopes: MatlabFunctionScopeInfo[]): void {
-        if (scope instanceof MatlabGlobalScopeInfo && scope.classScope) {
-            this._getAllFunctionScopesInFileAcc(scope.classScope, functionScopes)
+    /**
+     * Gets all of the symbols declared within a file which should be searchable
+     * from the workspace, along with their package-qualified names.
+     */
+    private _getWorkspaceSymbolCandidates (codeInfo: MatlabCodeInfo): WorkspaceSymbolCandidate[] {
+        const uri = codeInfo.uri
+        const fileName = path.parse(FileNameUtils.getFilePathFromUri(uri)).name
+        const qualify = (name: string, container: string): string => container === '' ? name : `${container}.${name}`
+
+        const candidates: WorkspaceSymbolCandidate[] = []
+        const pushCandidate = (name: string, kind: SymbolKind, range: Range, container: string, qualifiedName = qualify(name, container)): void => {
+            candidates.push({
+                symbol: SymbolInformation.create(name, kind, range, uri, container === '' ? undefined : container),
+                qualifiedName
+            })
         }
 
-        for (const functionInfo of scope.functionScopes.values()) {
-            const functionScopeInfo = functionInfo.functionScopeInfo
-            if (functionScopeInfo && (!(scope instanceof MatlabClassInfo)
-                                      || functionScopeInfo.parentScope instanceof MatlabClassdefInfo))
-            {
-                functionScopes.push(functionScopeInfo)
-                this._getAllFunctionScopesInFileAcc(functionScopeInfo, functionScopes)
-            }
+        // For files within a class folder, methods belong to the folder's class
+        const classFolderMatch = uri.match(/%40([a-zA-Z]\w*)\/[^/]*$/)
+        const className = codeInfo.globalScopeInfo.classScope?.classdefInfo?.declarationNameId.name ?? classFolderMatch?.[1]
+        const classQualifiedName = className != null ? qualify(className, codeInfo.package) : undefined
+
+        const classdef = codeInfo.globalScopeInfo.classScope?.classdefInfo
+        if (classdef != null && classQualifiedName != null) {
+            pushCandidate(classdef.declarationNameId.name, SymbolKind.Class, classdef.declarationNameId.range, codeInfo.package)
+
+            const classInfo = classdef.classInfo
+            classInfo.properties.forEach(propInfo => pushCandidate(propInfo.name, SymbolKind.Property, propInfo.range, classQualifiedName))
+            classInfo.enumerations.forEach(enumInfo => pushCandidate(enumInfo.name, SymbolKind.EnumMember, enumInfo.range, classQualifiedName))
         }
+
+        getAllFunctionScopes(codeInfo).forEach(functionScopeInfo => {
+            const name = functionScopeInfo.declarationNameId.name
+            const range = functionScopeInfo.declarationNameId.range
+            const parentScope = functionScopeInfo.parentScope
+
+            if (functionScopeInfo.functionInfo.isMethod && classQualifiedName != null) {
+                pushCandidate(name, SymbolKind.Method, range, classQualifiedName)
+            } else if (parentScope instanceof MatlabFunctionScopeInfo) {
+                // Nested function
+                pushCandidate(name, SymbolKind.Function, range, parentScope.declarationNameId.name, `${qualify(fileName, codeInfo.package)}>${name}`)
+            } else if (name === fileName) {
+                // Main function of a function file
+                pushCandidate(name, SymbolKind.Function, range, codeInfo.package)
+            } else {
+                // Local function
+                pushCandidate(name, SymbolKind.Function, range, fileName, `${qualify(fileName, codeInfo.package)}>${name}`)
+            }
+        })
+
+        codeInfo.sections.forEach(sectionInfo => {
+            if (sectionInfo.isExplicit) {
+                pushCandidate(sectionInfo.name, SymbolKind.Module, sectionInfo.range, fileName, `${qualify(fileName, codeInfo.package)}>${sectionInfo.name}`)
+            }
+        })
+
+        return candidates
     }
 
     private _sendSectionRangesForHighlighting (codeInfo: MatlabCodeInfo, uri: string): void {
@@ -177,4 +245,88 @@ class NavigationSupportProvider {
     }
 }
 
+/**
+ * Creates the hierarchical document symbols for a file.
+ *
+ * Symbols are nested based on their ranges, so that methods are nested within
+ * their methods block, properties within their properties block, blocks within
+ * the classdef, nested functions within their parent function, and code within
+ * the explicit section containing it.
+ *
+ * @param codeInfo The code info for the file
+ * @returns The top-level symbols in the file
+ */
+function getHierarchicalDocumentSymbols (codeInfo: MatlabCodeInfo): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = []
+
+    const pushSymbol = (name: string, kind: SymbolKind, range: Range, selectionRange: Range = range): void => {
+        symbols.push(DocumentSymbol.create(name, undefined, kind, range, selectionRange, []))
+    }
+
+    // Blocks are selected by their keyword (e.g. "properties" in "properties (Constant)")
+    const pushBlockSymbol = (name: string, kind: SymbolKind, range: Range): void => {
+        const keywordLength = name.split(/[\s(]/)[0].length
+        const keywordRange = Range.create(range.start, { line: range.start.line, character: range.start.character + keywordLength })
+        pushSymbol(name, kind, range, keywordRange)
+    }
+
+    const classdef: MatlabClassdefInfo | undefined = codeInfo.globalScopeInfo.classScope?.classdefInfo
+    if (classdef != null) {
+        pushSymbol(classdef.declarationNameId.name, SymbolKind.Class, classdef.range, classdef.declarationNameId.range)
+
+        const classInfo = classdef.classInfo
+
+        classInfo.enumerations.forEach(enumInfo => pushSymbol(enumInfo.name, SymbolKind.EnumMember, enumInfo.range))
+        classInfo.properties.forEach(propInfo => pushSymbol(propInfo.name, SymbolKind.Property, propInfo.range))
+        classdef.methodsBlocks.forEach(blockInfo => pushBlockSymbol(blockInfo.name, SymbolKind.Method, blockInfo.range))
+        classdef.enumerationsBlocks.forEach(blockInfo => pushBlockSymbol(blockInfo.name, SymbolKind.EnumMember, blockInfo.range))
+        classdef.propertiesBlocks.forEach(blockInfo => pushBlockSymbol(blockInfo.name, SymbolKind.Property, blockInfo.range))
+    }
+
+    getAllFunctionScopes(codeInfo).forEach(functionScopeInfo => pushSymbol(
+        functionScopeInfo.declarationNameId.name,
+        functionScopeInfo.functionInfo.isMethod ? SymbolKind.Method : SymbolKind.Function,
+        functionScopeInfo.range,
+        functionScopeInfo.declarationNameId.range
+    ))
+
+    codeInfo.sections.forEach(sectionInfo => {
+        if (sectionInfo.isExplicit) {
+            pushSymbol(sectionInfo.name, SymbolKind.Module, sectionInfo.range, Range.create(sectionInfo.range.start, sectionInfo.range.start))
+        }
+    })
+
+    // Sort symbols so that each symbol comes after any symbol containing it
+    symbols.sort((a, b) => {
+        if (isPositionLessThan(a.range.start, b.range.start)) {
+            return -1
+        }
+        if (isPositionLessThan(b.range.start, a.range.start)) {
+            return 1
+        }
+        if (isPositionLessThan(b.range.end, a.range.end)) {
+            return -1
+        }
+        return isPositionLessThan(a.range.end, b.range.end) ? 1 : 0
+    })
+
+    const topLevelSymbols: DocumentSymbol[] = []
+    symbols.forEach(symbol => insertDocumentSymbol(topLevelSymbols, symbol))
+
+    return topLevelSymbols
+}
+
+/**
+ * Inserts a symbol into the deepest symbol containing it, or as a sibling of the given symbols if none contain it.
+ */
+function insertDocumentSymbol (siblings: DocumentSymbol[], symbol: DocumentSymbol): void {
+    const parent = siblings.find(sibling => rangeContains(sibling.range, symbol.range))
+
+    if (parent?.children != null) {
+        insertDocumentSymbol(parent.children, symbol)
+    } else {
+        siblings.push(symbol)
+    }
+}
+
 export default NavigationSupportProvider
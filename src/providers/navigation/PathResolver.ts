@@ -1,4 +1,4 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { URI } from 'vscode-uri'
 import MVM from '../../mvm/impl/MVM'
@@ -6,9 +6,36 @@ import Logger from '../../logging/Logger'
 import parse from '../../mvm/MdaParser'
 import * as FileNameUtils from '../../utils/FileNameUtils'
 
+/**
+ * A file which defines a name on the MATLAB path
+ */
+export interface ResolvedPath {
+    uri: string
+    // Whether the file belongs to a function which ships with MATLAB
+    isMatlabFunction: boolean
+}
+
 class PathResolver {
+    private _pathVersion = 0
+
     constructor (private readonly mvm: MVM) {}
 
+    /**
+     * A counter which is incremented whenever the MATLAB path may have changed, and
+     * so names may resolve to different files.
+     */
+    get pathVersion (): number {
+        return this._pathVersion
+    }
+
+    /**
+     * Handles a possible change to the MATLAB path, such as when MATLAB connects, when
+     * workspace folders change, or when files are created or deleted.
+     */
+    handlePathChanged (): void {
+        this._pathVersion++
+    }
+
     /**
      * Attempts to resolve the given identifier to the file in which the identifier is defined.
      * For example, 'MyClass' may be resolved to 'file:///path/to/MyClass.m'.
@@ -51,6 +78,54 @@ class PathResolver {
             return null
         }
     }
+
+    /**
+     * Resolves each of the given names to every file which defines that name, in order
+     * of precedence. This is equivalent to using "which -all" in MATLAB, excluding class
+     * methods and private functions.
+     *
+     * @param names The names which should be resolved
+     *
+     * @returns The files defining each name, in the same order as the names, or null if
+     * the names could not be resolved.
+     */
+    async resolveAllPaths (names: string[]): Promise<ResolvedPath[][] | null> {
+        if (!this.mvm.isReady()) {
+            // MVM not yet ready
+            return null
+        }
+
+        try {
+            const mdaNames = {
+                mwtype: 'string',
+                mwsize: [1, names.length],
+                mwdata: names
+            }
+
+            const response = await this.mvm.feval(
+                'matlabls.handlers.navigation.resolveNameToAllPaths',
+                1,
+                [mdaNames]
+            )
+
+            if ('error' in response) {
+                Logger.error('Error received while resolving all paths:')
+                Logger.error(response.error.msg)
+                return null
+            }
+
+            const resolvedPaths = JSON.parse(parse(response.result[0]) as string) as Array<Array<{ path: string, isMatlabFunction: boolean }>>
+
+            return resolvedPaths.map(paths => paths.map(({ path, isMatlabFunction }) => ({
+                uri: URI.file(path).toString(),
+                isMatlabFunction
+            })))
+        } catch (err) {
+            Logger.error('Error caught while resolving all paths:')
+            Logger.error(err as string)
+            return null
+        }
+    }
 }
 
 export default PathResolver
@@ -1,10 +1,8 @@
-// Copyright 2025 The MathWorks, Inc.
+// Copyright 2025 - 2026 The MathWorks, Inc.
 
 import { WorkspaceEdit, PrepareRenameParams, RenameParams, Range, TextDocuments, TextEdit, Location } from 'vscode-languageserver'
 import { TextDocument } from 'vscode-languageserver-textdocument'
-import LifecycleNotificationHelper from '../../lifecycle/LifecycleNotificationHelper'
 import FileInfoIndex, { NamedRange } from '../../indexing/FileInfoIndex'
-import { ActionErrorConditions } from '../../logging/TelemetryUtils'
 import { RequestType, findSelectedIdentifierComponent, reportTelemetry } from '../../indexing/SymbolSearchService'
 import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
 import DocumentIndexer from '../../indexing/DocumentIndexer'
@@ -25,12 +23,9 @@ class RenameSymbolProvider {
      * @returns A range and placeholder text
      */
     async prepareRename (params: PrepareRenameParams, documentManager: TextDocuments<TextDocument>): Promise<{ range: Range, placeholder: string } | null> {
-        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
-        if (matlabConnection == null) {
-            LifecycleNotificationHelper.notifyMatlabRequirement()
-            reportTelemetry(RequestType.RenameSymbol, ActionErrorConditions.MatlabUnavailable)
-            return null
-        }
+        // Start MATLAB if it is not already running. When MATLAB is not available, the
+        // code is indexed without MATLAB.
+        await this.matlabLifecycleManager.getMatlabConnection(true)
 
         const uri = params.textDocument.uri
 
@@ -60,12 +55,9 @@ class RenameSymbolProvider {
      * @returns A WorkspaceEdit object
      */
     async handleRenameRequest (params: RenameParams, documentManager: TextDocuments<TextDocument>): Promise<WorkspaceEdit | null> {
-        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
-        if (matlabConnection == null) {
-            LifecycleNotificationHelper.notifyMatlabRequirement()
-            reportTelemetry(RequestType.RenameSymbol, ActionErrorConditions.MatlabUnavailable)
-            return null
-        }
+        // Start MATLAB if it is not already running. When MATLAB is not available, the
+        // code is indexed without MATLAB.
+        await this.matlabLifecycleManager.getMatlabConnection(true)
 
         const uri = params.textDocument.uri
 
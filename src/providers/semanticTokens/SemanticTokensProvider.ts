@@ -0,0 +1,299 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import {
+    Range, SemanticTokenModifiers, SemanticTokens, SemanticTokensBuilder, SemanticTokensLegend, SemanticTokensParams,
+    SemanticTokensRangeParams, SemanticTokenTypes, TextDocuments
+} from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import FileInfoIndex, {
+    getAllFunctionScopes, Identifier, MatlabClassInfo, MatlabCodeInfo, MatlabFunctionScopeInfo, MatlabGlobalScopeInfo
+} from '../../indexing/FileInfoIndex'
+
+const TOKEN_TYPES = [
+    SemanticTokenTypes.namespace,
+    SemanticTokenTypes.class,
+    SemanticTokenTypes.enumMember,
+    SemanticTokenTypes.property,
+    SemanticTokenTypes.method,
+    SemanticTokenTypes.function,
+    SemanticTokenTypes.variable,
+    SemanticTokenTypes.parameter
+]
+
+const TOKEN_MODIFIERS = [
+    SemanticTokenModifiers.declaration,
+    SemanticTokenModifiers.static,
+    'global'
+]
+
+/**
+ * The legend describing the semantic token types and modifiers reported by the server
+ */
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: TOKEN_TYPES,
+    tokenModifiers: TOKEN_MODIFIERS
+}
+
+/**
+ * Represents a single-line semantic token, prior to encoding
+ */
+interface SemanticToken {
+    line: number
+    char: number
+    length: number
+    type: string
+    modifiers: string[]
+}
+
+/**
+ * Handles requests for semantic tokens.
+ *
+ * Semantic tokens are computed from the code data index, which allows
+ * distinguishing identifiers which cannot be told apart syntactically (e.g.
+ * `x(1)` as indexing into a variable vs. `x(1)` as a function call).
+ */
+class SemanticTokensProvider {
+    constructor (
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly fileInfoIndex: FileInfoIndex
+    ) {}
+
+    /**
+     * Handles a request for the semantic tokens of a full document.
+     *
+     * @param params Parameters for the semantic tokens request
+     * @param documentManager The text document manager
+     * @returns The encoded semantic tokens
+     */
+    async handleSemanticTokensRequest (params: SemanticTokensParams, documentManager: TextDocuments<TextDocument>): Promise<SemanticTokens> {
+        return await this.getSemanticTokens(params.textDocument.uri, documentManager)
+    }
+
+    /**
+     * Handles a request for the semantic tokens within a range of a document.
+     *
+     * @param params Parameters for the semantic tokens range request
+     * @param documentManager The text document manager
+     * @returns The encoded semantic tokens
+     */
+    async handleSemanticTokensRangeRequest (params: SemanticTokensRangeParams, documentManager: TextDocuments<TextDocument>): Promise<SemanticTokens> {
+        return await this.getSemanticTokens(params.textDocument.uri, documentManager, params.range)
+    }
+
+    private async getSemanticTokens (uri: string, documentManager: TextDocuments<TextDocument>, range?: Range): Promise<SemanticTokens> {
+        const textDocument = documentManager.get(uri)
+        if (textDocument == null) {
+            return { data: [] }
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(uri)
+        if (codeInfo == null) {
+            return { data: [] }
+        }
+
+        let tokens = collectSemanticTokens(codeInfo)
+        if (range != null) {
+            tokens = tokens.filter(token => isTokenInRange(token, range))
+        }
+
+        const builder = new SemanticTokensBuilder()
+        tokens.forEach(token => builder.push(
+            token.line,
+            token.char,
+            token.length,
+            TOKEN_TYPES.indexOf(token.type as SemanticTokenTypes),
+            token.modifiers.reduce((bitset, modifier) => bitset | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0)
+        ))
+
+        return builder.build()
+    }
+}
+
+/**
+ * Collects the semantic tokens for a file from its code info.
+ *
+ * Tokens are collected in order of precedence, so when multiple tokens are
+ * found at the same position (e.g. a variable definition which is also
+ * recorded as a reference), the first one is kept.
+ *
+ * @param codeInfo The file's code info
+ * @returns The file's semantic tokens, sorted by position and non-overlapping
+ */
+function collectSemanticTokens (codeInfo: MatlabCodeInfo): SemanticToken[] {
+    const tokens: SemanticToken[] = []
+
+    const pushToken = (range: Range, type: string, modifiers: string[] = []): void => {
+        if (range.start.line !== range.end.line || range.end.character <= range.start.character) {
+            return
+        }
+        tokens.push({
+            line: range.start.line,
+            char: range.start.character,
+            length: range.end.character - range.start.character,
+            type,
+            modifiers
+        })
+    }
+
+    const globalScopeInfo = codeInfo.globalScopeInfo
+    const classInfo = codeInfo.associatedClassInfo
+
+    // Class, property, and enumeration declarations
+    const classdefInfo = globalScopeInfo.classScope?.classdefInfo
+    if (classdefInfo != null) {
+        pushToken(classdefInfo.declarationNameId.range, SemanticTokenTypes.class, [SemanticTokenModifiers.declaration])
+        classdefInfo.classInfo.properties.forEach(propertyInfo => {
+            pushToken(propertyInfo.range, SemanticTokenTypes.property, [SemanticTokenModifiers.declaration])
+        })
+        classdefInfo.classInfo.enumerations.forEach(enumInfo => {
+            pushToken(enumInfo.range, SemanticTokenTypes.enumMember, [SemanticTokenModifiers.declaration])
+        })
+    }
+
+    // Function and method declarations
+    const functionScopes = getAllFunctionScopes(codeInfo)
+    functionScopes.forEach(functionScope => {
+        const functionInfo = functionScope.functionInfo
+        const modifiers: string[] = [SemanticTokenModifiers.declaration]
+        if (functionInfo.isStaticMethod) {
+            modifiers.push(SemanticTokenModifiers.static)
+        }
+        pushToken(
+            functionScope.declarationNameId.range,
+            functionInfo.isMethod ? SemanticTokenTypes.method : SemanticTokenTypes.function,
+            modifiers
+        )
+    })
+
+    // Class references (which may be package-qualified)
+    codeInfo.classReferences.forEach(classReferenceInfo => {
+        classReferenceInfo.references.forEach(reference => {
+            const components = reference.name.split('.')
+            let char = reference.range.start.character
+            components.forEach((component, index) => {
+                const type = index === components.length - 1 ? SemanticTokenTypes.class : SemanticTokenTypes.namespace
+                pushToken(Range.create(reference.range.start.line, char, reference.range.start.line, char + component.length), type)
+                char += component.length + 1
+            })
+        })
+    })
+
+    // Variables and function calls within each scope
+    const scopes: Array<MatlabGlobalScopeInfo | MatlabFunctionScopeInfo> = [globalScopeInfo, ...functionScopes]
+    scopes.forEach(scope => {
+        const variableType = (name: string): string => {
+            if (scope instanceof MatlabFunctionScopeInfo && (scope.inputArgs.has(name) || scope.outputArgs.has(name))) {
+                return SemanticTokenTypes.parameter
+            }
+            return SemanticTokenTypes.variable
+        }
+        const variableModifiers = (name: string, isDefinition: boolean): string[] => {
+            const modifiers: string[] = []
+            if (isDefinition) {
+                modifiers.push(SemanticTokenModifiers.declaration)
+            }
+            if (scope.globals.has(name)) {
+                modifiers.push('global')
+            }
+            return modifiers
+        }
+
+        scope.variables.forEach((variableInfo, name) => {
+            variableInfo.definitions.forEach(definition => {
+                pushToken(definition.components[0].range, variableType(name), variableModifiers(name, true))
+                pushMemberTokens(definition, classInfo, pushToken)
+            })
+            variableInfo.references.forEach(reference => {
+                pushToken(reference.components[0].range, variableType(name), variableModifiers(name, false))
+                pushMemberTokens(reference, classInfo, pushToken)
+            })
+        })
+
+        scope.functionOrUnboundReferences.forEach(referenceInfo => {
+            referenceInfo.references.forEach(reference => {
+                const [firstComponent, ...otherComponents] = reference.components
+                if (otherComponents.length === 0) {
+                    pushToken(firstComponent.range, SemanticTokenTypes.function)
+                    return
+                }
+
+                // A dotted reference is only classified when it is a call to a static
+                // method of the class associated with this file (e.g. "MyClass.create")
+                const className = classInfo?.classdefInfo?.declarationNameId.name
+                const methodInfo = classInfo?.functionScopes.get(otherComponents[0].name)
+                if (firstComponent.name === className && methodInfo != null) {
+                    pushToken(firstComponent.range, SemanticTokenTypes.class)
+                    pushToken(
+                        otherComponents[0].range,
+                        SemanticTokenTypes.method,
+                        methodInfo.isStaticMethod ? [SemanticTokenModifiers.static] : []
+                    )
+                }
+            })
+        })
+    })
+
+    return sortAndRemoveOverlappingTokens(tokens)
+}
+
+/**
+ * Pushes tokens for the components following the first component of a
+ * variable identifier, which represent fields, properties, or method calls.
+ */
+function pushMemberTokens (
+    identifier: Identifier, classInfo: MatlabClassInfo | undefined, pushToken: (range: Range, type: string, modifiers?: string[]) => void
+): void {
+    identifier.components.slice(1).forEach(component => {
+        const methodInfo = classInfo?.functionScopes.get(component.name)
+        if (methodInfo != null && classInfo?.properties.has(component.name) !== true) {
+            pushToken(component.range, SemanticTokenTypes.method, methodInfo.isStaticMethod ? [SemanticTokenModifiers.static] : [])
+        } else {
+            pushToken(component.range, SemanticTokenTypes.property)
+        }
+    })
+}
+
+function sortAndRemoveOverlappingTokens (tokens: SemanticToken[]): SemanticToken[] {
+    // Stable sort, so that tokens with equal positions keep their precedence
+    const sortedTokens = tokens
+        .map((token, index) => ({ token, index }))
+        .sort((a, b) => {
+            if (a.token.line !== b.token.line) {
+                return a.token.line - b.token.line
+            }
+            if (a.token.char !== b.token.char) {
+                return a.token.char - b.token.char
+            }
+            return a.index - b.index
+        })
+        .map(({ token }) => token)
+
+    const result: SemanticToken[] = []
+    for (const token of sortedTokens) {
+        const previousToken = result[result.length - 1]
+        if (previousToken != null && previousToken.line === token.line && token.char < previousToken.char + previousToken.length) {
+            continue
+        }
+        result.push(token)
+    }
+
+    return result
+}
+
+function isTokenInRange (token: SemanticToken, range: Range): boolean {
+    if (token.line < range.start.line || token.line > range.end.line) {
+        return false
+    }
+    if (token.line === range.start.line && token.char + token.length <= range.start.character) {
+        return false
+    }
+    if (token.line === range.end.line && token.char >= range.end.character) {
+        return false
+    }
+    return true
+}
+
+export default SemanticTokensProvider
@@ -0,0 +1,251 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import {
+    Location, SymbolKind, TextDocuments, TypeHierarchyItem, TypeHierarchyPrepareParams, TypeHierarchySubtypesParams,
+    TypeHierarchySupertypesParams
+} from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import * as path from 'path'
+import MatlabLifecycleManager from '../../lifecycle/MatlabLifecycleManager'
+import LifecycleNotificationHelper from '../../lifecycle/LifecycleNotificationHelper'
+import FileInfoIndex, { MatlabClassdefInfo, MatlabCodeInfo, NamedRange } from '../../indexing/FileInfoIndex'
+import Indexer from '../../indexing/Indexer'
+import DocumentIndexer from '../../indexing/DocumentIndexer'
+import PathResolver from '../navigation/PathResolver'
+import * as SymbolSearchService from '../../indexing/SymbolSearchService'
+import { reportTelemetry, RequestType } from '../../indexing/SymbolSearchService'
+import { ActionErrorConditions } from '../../logging/TelemetryUtils'
+import { areRangesEqual } from '../../utils/RangeUtils'
+import { isPositionWithinRange } from '../../utils/PositionUtils'
+import * as FileNameUtils from '../../utils/FileNameUtils'
+
+/**
+ * Data attached to type hierarchy items, which is preserved by the client
+ * between the prepare request and the supertypes/subtypes requests
+ */
+interface TypeHierarchyItemData {
+    // The package-qualified name of the class (e.g. "pkg.sub.MyClass")
+    qualifiedName: string
+}
+
+/**
+ * Handles requests for the type hierarchy of classes.
+ *
+ * Supertypes are determined from the base classes listed in a classdef, and
+ * subtypes are found by searching every indexed classdef for base classes
+ * which refer to the selected class. As base classes must always be given by
+ * their package-qualified names, a base class refers to an indexed class if
+ * their qualified names match.
+ */
+class TypeHierarchyProvider {
+    constructor (
+        protected readonly matlabLifecycleManager: MatlabLifecycleManager,
+        protected readonly fileInfoIndex: FileInfoIndex,
+        protected readonly indexer: Indexer,
+        protected readonly documentIndexer: DocumentIndexer,
+        protected readonly pathResolver: PathResolver
+    ) {}
+
+    /**
+     * Handles a request to prepare the type hierarchy for the class at a given position.
+     *
+     * @param params Parameters for the prepare type hierarchy request
+     * @param documentManager The text document manager
+     * @returns The type hierarchy items for the class at the given position, or
+     *     null if there is no class at the position
+     */
+    async handlePrepareTypeHierarchy (params: TypeHierarchyPrepareParams, documentManager: TextDocuments<TextDocument>): Promise<TypeHierarchyItem[] | null> {
+        const matlabConnection = await this.matlabLifecycleManager.getMatlabConnection(true)
+        if (matlabConnection == null) {
+            LifecycleNotificationHelper.notifyMatlabRequirement()
+            reportTelemetry(RequestType.TypeHierarchy, ActionErrorConditions.MatlabUnavailable)
+            return null
+        }
+
+        const uri = params.textDocument.uri
+        const textDocument = documentManager.get(uri)
+
+        if (textDocument == null) {
+            reportTelemetry(RequestType.TypeHierarchy, 'No document')
+            return null
+        }
+
+        await this.documentIndexer.ensureDocumentIndexIsUpdated(textDocument)
+
+        // Base classes which are not indexed (e.g. handle) have no classdef to
+        // navigate to, but should still be able to show their subtypes
+        const baseClass = this.fileInfoIndex.codeInfoCache.get(uri)?.globalScopeInfo.classScope?.classdefInfo?.baseClasses.find(
+            baseClass => isPositionWithinRange(params.position, baseClass.range)
+        )
+        if (baseClass != null) {
+            return [await this.getBaseClassItem(baseClass, uri)]
+        }
+
+        const definitions = await SymbolSearchService.findDefinitions(
+            uri, params.position, this.fileInfoIndex, documentManager, this.pathResolver, this.indexer, RequestType.TypeHierarchy
+        )
+
+        const items = definitions
+            .map(definition => this.getTypeHierarchyItemForDefinition(definition))
+            .filter((item): item is TypeHierarchyItem => item != null)
+
+        return items.length > 0 ? items : null
+    }
+
+    /**
+     * Handles a request for the supertypes of a class (i.e. its base classes).
+     *
+     * @param params Parameters for the supertypes request
+     * @returns The supertypes of the class
+     */
+    async handleSupertypes (params: TypeHierarchySupertypesParams): Promise<TypeHierarchyItem[]> {
+        const item = params.item
+
+        if (!this.fileInfoIndex.codeInfoCache.has(item.uri)) {
+            await this.indexer.indexFile(item.uri)
+        }
+
+        const classdefInfo = this.fileInfoIndex.codeInfoCache.get(item.uri)?.globalScopeInfo.classScope?.classdefInfo
+        if (classdefInfo == null || !areRangesEqual(classdefInfo.declarationNameId.range, item.selectionRange)) {
+            // The class is not indexed (e.g. a built-in class)
+            return []
+        }
+
+        const supertypes: TypeHierarchyItem[] = []
+        for (const baseClass of classdefInfo.baseClasses) {
+            supertypes.push(await this.getBaseClassItem(baseClass, item.uri))
+        }
+
+        reportTelemetry(RequestType.TypeHierarchy)
+        return supertypes
+    }
+
+    /**
+     * Handles a request for the subtypes of a class (i.e. the classes which
+     * directly derive from it), searching all indexed files.
+     *
+     * @param params Parameters for the subtypes request
+     * @returns The subtypes of the class
+     */
+    handleSubtypes (params: TypeHierarchySubtypesParams): TypeHierarchyItem[] {
+        const qualifiedName = getQualifiedNameFromItem(params.item)
+        const subtypes: TypeHierarchyItem[] = []
+
+        for (const codeInfo of this.fileInfoIndex.codeInfoCache.values()) {
+            const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+            if (classdefInfo?.baseClasses.some(baseClass => baseClass.name === qualifiedName) === true) {
+                subtypes.push(createClassItem(codeInfo, classdefInfo))
+            }
+        }
+
+        reportTelemetry(RequestType.TypeHierarchy)
+        return subtypes
+    }
+
+    /**
+     * Creates the type hierarchy item for a base class listed in a classdef.
+     *
+     * The base class is first looked for among the indexed classes. If it is not
+     * indexed, its definition is looked for on the MATLAB path; failing that, the
+     * item refers to the base class as it is listed in the classdef.
+     *
+     * @param baseClass The base class, as listed in the classdef
+     * @param uri The URI of the file containing the classdef
+     * @returns The type hierarchy item for the base class
+     */
+    private async getBaseClassItem (baseClass: NamedRange, uri: string): Promise<TypeHierarchyItem> {
+        const indexedItem = this.findIndexedClassItem(baseClass.name)
+        if (indexedItem != null) {
+            return indexedItem
+        }
+
+        const definitions = await SymbolSearchService.findDefinitionsInIndexedFile(
+            uri, baseClass.range.start, this.fileInfoIndex, this.pathResolver, this.indexer
+        )
+
+        for (const definition of definitions) {
+            const item = this.getTypeHierarchyItemForDefinition(definition)
+            if (item != null) {
+                return item
+            }
+        }
+
+        const location = definitions.length > 0 ? definitions[0] : Location.create(uri, baseClass.range)
+        const data: TypeHierarchyItemData = { qualifiedName: baseClass.name }
+
+        return {
+            name: getUnqualifiedName(baseClass.name),
+            kind: SymbolKind.Class,
+            uri: location.uri,
+            range: location.range,
+            selectionRange: location.range,
+            detail: baseClass.name,
+            data
+        }
+    }
+
+    /**
+     * Creates the type hierarchy item for a definition location, if it refers to
+     * an indexed class.
+     *
+     * @param definition The definition location
+     * @returns The type hierarchy item, or null if the definition is not an indexed class
+     */
+    private getTypeHierarchyItemForDefinition (definition: Location): TypeHierarchyItem | null {
+        const codeInfo = this.fileInfoIndex.codeInfoCache.get(definition.uri)
+        const classdefInfo = codeInfo?.globalScopeInfo.classScope?.classdefInfo
+
+        if (codeInfo == null || classdefInfo == null || !areRangesEqual(classdefInfo.declarationNameId.range, definition.range)) {
+            return null
+        }
+
+        return createClassItem(codeInfo, classdefInfo)
+    }
+
+    /**
+     * Finds the indexed class with the given package-qualified name.
+     *
+     * @param qualifiedName The package-qualified class name
+     * @returns The type hierarchy item for the class, or null if no such class is indexed
+     */
+    private findIndexedClassItem (qualifiedName: string): TypeHierarchyItem | null {
+        for (const codeInfo of this.fileInfoIndex.codeInfoCache.values()) {
+            const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+            if (classdefInfo != null && getQualifiedClassName(codeInfo, classdefInfo) === qualifiedName) {
+                return createClassItem(codeInfo, classdefInfo)
+            }
+        }
+
+        return null
+    }
+}
+
+function createClassItem (codeInfo: MatlabCodeInfo, classdefInfo: MatlabClassdefInfo): TypeHierarchyItem {
+    const data: TypeHierarchyItemData = { qualifiedName: getQualifiedClassName(codeInfo, classdefInfo) }
+
+    return {
+        name: classdefInfo.declarationNameId.name,
+        kind: SymbolKind.Class,
+        uri: codeInfo.uri,
+        range: classdefInfo.range,
+        selectionRange: classdefInfo.declarationNameId.range,
+        detail: path.basename(FileNameUtils.getFilePathFromUri(codeInfo.uri)),
+        data
+    }
+}
+
+function getQualifiedClassName (codeInfo: MatlabCodeInfo, classdefInfo: MatlabClassdefInfo): string {
+    const className = classdefInfo.declarationNameId.name
+    return codeInfo.package === '' ? className : `${codeInfo.package}.${className}`
+}
+
+function getQualifiedNameFromItem (item: TypeHierarchyItem): string {
+    const data = item.data as TypeHierarchyItemData | undefined
+    return data?.qualifiedName ?? item.name
+}
+
+function getUnqualifiedName (qualifiedName: string): string {
+    return qualifiedName.substring(qualifiedName.lastIndexOf('.') + 1)
+}
+
+export default TypeHierarchyProvider
@@ -1,7 +1,7 @@
-// Copyright 2022 - 2025 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import { TextDocument } from 'vscode-languageserver-textdocument'
-import { ClientCapabilities, InitializeParams, InitializeResult, TextDocuments } from 'vscode-languageserver/node'
+import { ClientCapabilities, CodeActionKind, CodeLensRefreshRequest, DidChangeWatchedFilesNotification, InitializeParams, InitializeResult, TextDocuments } from 'vscode-languageserver/node'
 import DocumentIndexer from './indexing/DocumentIndexer'
 import WorkspaceIndexer from './indexing/WorkspaceIndexer'
 import ConfigurationManager, { ConnectionTiming } from './lifecycle/ConfigurationManager'
@@ -10,8 +10,12 @@ import Logger from './logging/Logger'
 import { Actions, reportTelemetryAction } from './logging/TelemetryUtils'
 import NotificationService, { Notification } from './notifications/NotificationService'
 import CompletionSupportProvider from './providers/completion/CompletionSupportProvider'
-import FormatSupportProvider from './providers/formatting/FormatSupportProvider'
-import LintingSupportProvider from './providers/linting/LintingSupportProvider'
+import FormatSupportProvider, { ON_TYPE_FORMATTING_TRIGGER_CHARACTERS } from './providers/formatting/FormatSupportProvider'
+import LintingSupportProvider, { FIX_ALL_CODE_ACTION_KIND } from './providers/linting/LintingSupportProvider'
+import BackgroundLinter from './providers/linting/BackgroundLinter'
+import ArgumentCountAnalyzer from './providers/linting/ArgumentCountAnalyzer'
+import NameShadowingAnalyzer from './providers/linting/NameShadowingAnalyzer'
+import DuplicateDefinitionAnalyzer from './providers/linting/DuplicateDefinitionAnalyzer'
 import ExecuteCommandProvider, { MatlabLSCommands } from './providers/lspCommands/ExecuteCommandProvider'
 import NavigationSupportProvider from './providers/navigation/NavigationSupportProvider'
 import LifecycleNotificationHelper from './lifecycle/LifecycleNotificationHelper'
@@ -22,6 +26,12 @@ import PathResolver from './providers/navigation/PathResolver'
 import Indexer from './indexing/Indexer'
 import RenameSymbolProvider from './providers/rename/RenameSymbolProvider'
 import HighlightSymbolProvider from './providers/highlighting/HighlightSymbolProvider'
+import HoverProvider from './providers/hover/HoverProvider'
+import SemanticTokensProvider, { SEMANTIC_TOKENS_LEGEND } from './providers/semanticTokens/SemanticTokensProvider'
+import CallHierarchyProvider from './providers/callHierarchy/CallHierarchyProvider'
+import TypeHierarchyProvider from './providers/typeHierarchy/TypeHierarchyProvider'
+import InlayHintProvider from './providers/inlayHints/InlayHintProvider'
+import CodeLensProvider from './providers/codeLens/CodeLensProvider'
 import { RequestType } from './indexing/SymbolSearchService'
 import { cacheAndClearProxyEnvironmentVariables } from './utils/ProxyUtils'
 import MatlabDebugAdaptorServer from './debug/MatlabDebugAdaptorServer'
@@ -51,7 +61,6 @@ export async function startServer (): Promise<void> {
     const matlabLifecycleManager = new MatlabLifecycleManager()
 
     const mvm = new MVM(matlabLifecycleManager, Logger);
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const mvmServer = new MVMServer(mvm, NotificationService);
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const matlabDebugAdaptor = new MatlabDebugAdaptorServer(mvm, new DebugServices(mvm));
@@ -67,18 +76,31 @@ export async function startServer (): Promise<void> {
 
     const formatSupportProvider = new FormatSupportProvider(matlabLifecycleManager, mvm)
     const foldingSupportProvider = new FoldingSupportProvider(matlabLifecycleManager, mvm)
-    const lintingSupportProvider = new LintingSupportProvider(matlabLifecycleManager, mvm)
-    const executeCommandProvider = new ExecuteCommandProvider(lintingSupportProvider)
+    const argumentCountAnalyzer = new ArgumentCountAnalyzer(documentIndexer, fileInfoIndex, indexer, pathResolver)
+    const nameShadowingAnalyzer = new NameShadowingAnalyzer(fileInfoIndex, pathResolver)
+    const duplicateDefinitionAnalyzer = new DuplicateDefinitionAnalyzer(fileInfoIndex)
+    const lintingSupportProvider = new LintingSupportProvider(
+        matlabLifecycleManager, mvm, argumentCountAnalyzer, nameShadowingAnalyzer, duplicateDefinitionAnalyzer, fileInfoIndex, pathResolver
+    )
+    const executeCommandProvider = new ExecuteCommandProvider(lintingSupportProvider, nameShadowingAnalyzer)
     const completionSupportProvider = new CompletionSupportProvider(matlabLifecycleManager, mvm)
     const navigationSupportProvider = new NavigationSupportProvider(matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, pathResolver)
     const renameSymbolProvider = new RenameSymbolProvider(matlabLifecycleManager, documentIndexer, fileInfoIndex)
     const highlightSymbolProvider = new HighlightSymbolProvider(matlabLifecycleManager, documentIndexer, indexer, fileInfoIndex)
+    const hoverProvider = new HoverProvider(matlabLifecycleManager, mvm, fileInfoIndex, indexer, documentIndexer, pathResolver)
+    const semanticTokensProvider = new SemanticTokensProvider(documentIndexer, fileInfoIndex)
+    const callHierarchyProvider = new CallHierarchyProvider(matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, pathResolver)
+    const typeHierarchyProvider = new TypeHierarchyProvider(matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, pathResolver)
+    const inlayHintProvider = new InlayHintProvider(documentIndexer, fileInfoIndex, indexer, pathResolver)
+    const codeLensProvider = new CodeLensProvider(documentIndexer, fileInfoIndex)
 
     let pathSynchronizer: PathSynchronizer | null
 
     // Create basic text document manager
     const documentManager: TextDocuments<TextDocument> = new TextDocuments(TextDocument)
 
+    const backgroundLinter = new BackgroundLinter(lintingSupportProvider, mvmServer, documentManager)
+
     let hasMatlabBeenRequested: boolean = false
 
     matlabLifecycleManager.eventEmitter.on('connected', () => {
@@ -88,21 +110,36 @@ export async function startServer (): Promise<void> {
     })
 
     mvm.on(IMVM.Events.stateChange, (state: MatlabMVMConnectionState) => {
+        // Names resolve to different files once MATLAB connects or disconnects
+        pathResolver.handlePathChanged()
+
         if (state === MatlabMVMConnectionState.CONNECTED) {
             // Handle when the MVM has connected
             mvm.feval('matlabls.utils.startupHelper', 0, [])
 
-            // Initiate workspace indexing
-            void workspaceIndexer.indexWorkspace()
+            // Initiate workspace indexing, followed by background linting of the workspace
+            void workspaceIndexer.indexWorkspace().then(async () => await backgroundLinter.lintWorkspace())
 
-            documentManager.all().forEach(textDocument => {
+            const openDocumentIndexingPromises = documentManager.all().map(async textDocument => {
                 // Lint the open documents
                 void lintingSupportProvider.lintDocument(textDocument)
 
+                void navigationSupportProvider.handleDocumentSymbol(textDocument.uri, documentManager, RequestType.DocumentSymbol)
+
                 // Index the open document
-                void documentIndexer.indexDocument(textDocument)
+                await documentIndexer.indexDocument(textDocument)
+            })
 
-                void navigationSupportProvider.handleDocumentSymbol(textDocument.uri, documentManager, RequestType.DocumentSymbol)
+            // Semantic tokens, inlay hints, and code lenses are computed from the index, so
+            // the client should request them again once the open documents have been indexed
+            void Promise.all(openDocumentIndexingPromises).then(() => {
+                if (capabilities.workspace?.semanticTokens?.refreshSupport === true) {
+                    void connection.languages.semanticTokens.refresh()
+                }
+                if (capabilities.workspace?.codeLens?.refreshSupport === true) {
+                    void connection.sendRequest(CodeLensRefreshRequest.type)
+                }
+                refreshInlayHints()
             })
         }
     })
@@ -113,10 +150,18 @@ export async function startServer (): Promise<void> {
     connection.onInitialize((params: InitializeParams) => {
         capabilities = params.capabilities
 
+        // Diagnostics are pulled by clients which support it, rather than being sent by the server
+        const isPullDiagnosticsSupported = capabilities.textDocument?.diagnostic != null
+        if (isPullDiagnosticsSupported) {
+            lintingSupportProvider.enablePullDiagnostics(capabilities.workspace?.diagnostics?.refreshSupport === true)
+        }
+
         // Defines the capabilities supported by this language server
         const initResult: InitializeResult = {
             capabilities: {
-                codeActionProvider: true,
+                codeActionProvider: {
+                    codeActionKinds: [CodeActionKind.QuickFix, FIX_ALL_CODE_ACTION_KIND]
+                },
                 completionProvider: {
                     triggerCharacters: [
                         '.', // Struct/class properties, package names, etc.
@@ -130,6 +175,10 @@ export async function startServer (): Promise<void> {
                 definitionProvider: true,
                 documentFormattingProvider: true,
                 documentRangeFormattingProvider: true,
+                documentOnTypeFormattingProvider: {
+                    firstTriggerCharacter: ON_TYPE_FORMATTING_TRIGGER_CHARACTERS[0],
+                    moreTriggerCharacter: ON_TYPE_FORMATTING_TRIGGER_CHARACTERS.slice(1)
+                },
                 executeCommandProvider: {
                     commands: Object.values(MatlabLSCommands)
                 },
@@ -139,10 +188,31 @@ export async function startServer (): Promise<void> {
                     triggerCharacters: ['(', ',']
                 },
                 documentSymbolProvider: true,
+                workspaceSymbolProvider: true,
                 renameProvider: {
                     prepareProvider: true
                 },
-                documentHighlightProvider: true
+                documentHighlightProvider: true,
+                hoverProvider: true,
+                semanticTokensProvider: {
+                    legend: SEMANTIC_TOKENS_LEGEND,
+                    full: true,
+                    range: true
+                },
+                callHierarchyProvider: true,
+                typeHierarchyProvider: true,
+                inlayHintProvider: true,
+                codeLensProvider: {
+                    resolveProvider: true
+                }
+            }
+        }
+
+        if (isPullDiagnosticsSupported) {
+            initResult.capabilities.diagnosticProvider = {
+                // Argument count diagnostics depend on functions declared in other files
+                interFileDependencies: true,
+                workspaceDiagnostics: true
             }
         }
 
@@ -158,6 +228,10 @@ export async function startServer (): Promise<void> {
         ConfigurationManager.addSettingCallback('signIn', handleSignInChanged)
         ConfigurationManager.addSettingCallback('installPath', handleInstallPathSettingChanged)
         ConfigurationManager.addSettingCallback('defaultEditor', configuration => handleDefaultEditorConfigChange(configuration, mvm))
+        ConfigurationManager.addSettingCallback('outputNameInlayHints', refreshInlayHints)
+        ConfigurationManager.addSettingCallback('lintDisabledIds', lintOpenDocuments)
+        ConfigurationManager.addSettingCallback('lintSeverityOverrides', lintOpenDocuments)
+        ConfigurationManager.addSettingCallback('backgroundLinting', configuration => backgroundLinter.handleBackgroundLintingChanged(configuration))
 
         const configuration = await ConfigurationManager.getConfiguration()
 
@@ -173,10 +247,22 @@ export async function startServer (): Promise<void> {
 
         workspaceIndexer.setupCallbacks(capabilities)
 
+        if (capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration === true) {
+            // Watch for changes to files on disk, so that files which are not open can be linted
+            void connection.client.register(DidChangeWatchedFilesNotification.type, {
+                watchers: [{ globPattern: '**/*.m' }]
+            })
+        }
+
         if (capabilities.workspace?.workspaceFolders != null) {
             // If workspace folders are supported, try to synchronize the MATLAB path with the user's workspace.
             pathSynchronizer = new PathSynchronizer(matlabLifecycleManager, mvm)
             pathSynchronizer.initialize()
+
+            connection.workspace.onDidChangeWorkspaceFolders(() => {
+                // Workspace folders are added to and removed from the MATLAB path
+                pathResolver.handlePathChanged()
+            })
         }
 
         void startMatlabIfOnStartLaunch()
@@ -189,10 +275,20 @@ export async function startServer (): Promise<void> {
             void matlabLifecycleManager.connectToMatlab().catch(reason => {
                 // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
                 Logger.error(`MATLAB onStart connection failed: ${reason}`)
+
+                indexAndLintWorkspaceWithoutMatlab()
             })
+        } else {
+            indexAndLintWorkspaceWithoutMatlab()
         }
     }
 
+    function indexAndLintWorkspaceWithoutMatlab (): void {
+        // Index the workspace without MATLAB, followed by background linting of the workspace.
+        // The workspace is indexed and linted again if MATLAB connects.
+        void workspaceIndexer.indexWorkspace().then(async () => await backgroundLinter.lintWorkspace())
+    }
+
     // Handles a shutdown request
     connection.onShutdown(async () => {
         // Shut down MATLAB
@@ -270,6 +366,9 @@ export async function startServer (): Promise<void> {
 
     documentManager.onDidClose(params => {
         lintingSupportProvider.clearDiagnosticsForDocument(params.document)
+
+        // When background linting is enabled, report problems in the saved file instead
+        void backgroundLinter.queueFile(params.document.uri)
     })
 
     // Handles files saved
@@ -288,13 +387,15 @@ export async function startServer (): Promise<void> {
         if (matlabLifecycleManager.isMatlabConnected()) {
             // Only want to lint on content changes when linting is being backed by MATLAB
             lintingSupportProvider.queueLintingForDocument(params.document)
-            documentIndexer.queueIndexingForDocument(params.document)
         }
+
+        // Documents are indexed without MATLAB when it is not connected
+        documentIndexer.queueIndexingForDocument(params.document)
     })
 
     // Handle execute command requests
-    connection.onExecuteCommand(params => {
-        void executeCommandProvider.handleExecuteCommand(params, documentManager)
+    connection.onExecuteCommand(async params => {
+        return await executeCommandProvider.handleExecuteCommand(params, documentManager)
     })
 
     /** -------------------- COMPLETION SUPPORT -------------------- **/
@@ -326,12 +427,36 @@ export async function startServer (): Promise<void> {
         return await formatSupportProvider.handleDocumentRangeFormatRequest(params, documentManager)
     })
 
+    connection.onDocumentOnTypeFormatting(async params => {
+        return await formatSupportProvider.handleDocumentOnTypeFormatRequest(params, documentManager)
+    })
+
     /** --------------------  LINTING SUPPORT   -------------------- **/
     connection.onCodeAction(params => {
         // Retrieve a list of possible code actions to be displayed by the IDE
         return lintingSupportProvider.handleCodeActionRequest(params)
     })
 
+    connection.languages.diagnostics.on(async params => {
+        return await lintingSupportProvider.handleDocumentDiagnosticRequest(params, documentManager)
+    })
+
+    connection.languages.diagnostics.onWorkspace(async (params, token) => {
+        return await lintingSupportProvider.handleWorkspaceDiagnosticRequest(params, documentManager, token)
+    })
+
+    connection.onDidChangeWatchedFiles(params => {
+        // Created and deleted files change which files names resolve to
+        pathResolver.handlePathChanged()
+        void backgroundLinter.handleWatchedFilesChanged(params.changes)
+    })
+
+    function lintOpenDocuments (): void {
+        documentManager.all().forEach(textDocument => {
+            void lintingSupportProvider.lintDocument(textDocument)
+        })
+    }
+
     /** --------------------  NAVIGATION SUPPORT   -------------------- **/
     connection.onDefinition(async params => {
         return await navigationSupportProvider.handleDefOrRefRequest(params, documentManager, RequestType.Definition)
@@ -342,7 +467,12 @@ export async function startServer (): Promise<void> {
     })
 
     connection.onDocumentSymbol(async params => {
-        return await navigationSupportProvider.handleDocumentSymbol(params.textDocument.uri, documentManager, RequestType.DocumentSymbol)
+        const isHierarchical = capabilities.textDocument?.documentSymbol?.hierarchicalDocumentSymbolSupport === true
+        return await navigationSupportProvider.handleDocumentSymbol(params.textDocument.uri, documentManager, RequestType.DocumentSymbol, isHierarchical)
+    })
+
+    connection.onWorkspaceSymbol(params => {
+        return navigationSupportProvider.handleWorkspaceSymbol(params, RequestType.WorkspaceSymbol)
     })
 
     // Start listening to open/change/close text document events
@@ -361,6 +491,66 @@ export async function startServer (): Promise<void> {
     connection.onDocumentHighlight(async params => {
         return await highlightSymbolProvider.handleDocumentHighlightRequest(params, documentManager)
     })
+
+    /** -------------------- SEMANTIC TOKENS SUPPORT -------------------- **/
+    connection.languages.semanticTokens.on(async params => {
+        return await semanticTokensProvider.handleSemanticTokensRequest(params, documentManager)
+    })
+
+    connection.languages.semanticTokens.onRange(async params => {
+        return await semanticTokensProvider.handleSemanticTokensRangeRequest(params, documentManager)
+    })
+
+    /** -------------------- CALL HIERARCHY SUPPORT -------------------- **/
+    connection.languages.callHierarchy.onPrepare(async params => {
+        return await callHierarchyProvider.handlePrepareCallHierarchy(params, documentManager)
+    })
+
+    connection.languages.callHierarchy.onIncomingCalls(async params => {
+        return await callHierarchyProvider.handleIncomingCalls(params)
+    })
+
+    connection.languages.callHierarchy.onOutgoingCalls(async params => {
+        return await callHierarchyProvider.handleOutgoingCalls(params)
+    })
+
+    /** -------------------- TYPE HIERARCHY SUPPORT -------------------- **/
+    connection.languages.typeHierarchy.onPrepare(async params => {
+        return await typeHierarchyProvider.handlePrepareTypeHierarchy(params, documentManager)
+    })
+
+    connection.languages.typeHierarchy.onSupertypes(async params => {
+        return await typeHierarchyProvider.handleSupertypes(params)
+    })
+
+    connection.languages.typeHierarchy.onSubtypes(params => {
+        return typeHierarchyProvider.handleSubtypes(params)
+    })
+
+    /** -------------------- INLAY HINT SUPPORT -------------------- **/
+    connection.languages.inlayHint.on(async params => {
+        return await inlayHintProvider.handleInlayHintRequest(params, documentManager)
+    })
+
+    function refreshInlayHints (): void {
+        if (capabilities.workspace?.inlayHint?.refreshSupport === true) {
+            void connection.languages.inlayHint.refresh()
+        }
+    }
+
+    /** -------------------- CODE LENS SUPPORT -------------------- **/
+    connection.onCodeLens(async params => {
+        return await codeLensProvider.handleCodeLensRequest(params, documentManager)
+    })
+
+    connection.onCodeLensResolve(codeLens => {
+        return codeLensProvider.handleCodeLensResolveRequest(codeLens)
+    })
+
+    /** -------------------- HOVER SUPPORT -------------------- **/
+    connection.onHover(async params => {
+        return await hoverProvider.handleHoverRequest(params, documentManager)
+    })
 }
 
 /** -------------------- Helper Functions -------------------- **/
@@ -0,0 +1,179 @@
+// Copyright 2026 The MathWorks, Inc.
+
+/**
+ * Represents an argument within a function call, or an output within a
+ * multiple assignment
+ */
+export interface CallArgument {
+    // The offset in the text at which the argument starts
+    offset: number
+    // The argument's text, with surrounding whitespace removed
+    text: string
+}
+
+const OPENING_BRACKETS = '([{'
+const CLOSING_BRACKETS = ')]}'
+
+// Characters after which a single quote is a transpose operator rather than the start of a character vector
+const TRANSPOSE_PRECEDING_CHAR_REGEX = /[\w)\]}.']/
+
+/**
+ * Gets the arguments passed in a function call.
+ *
+ * Arguments may span multiple lines using continuation ("..."), and may contain
+ * nested brackets, character vectors, and strings.
+ *
+ * @param text The text containing the function call
+ * @param offset The offset immediately following the function name in the call
+ * @returns The arguments in the call, or null if the function name is not followed by a
+ *     parenthesized argument list (e.g. the function is called with no parentheses)
+ */
+export function getCallArguments (text: string, offset: number): CallArgument[] | null {
+    if (text[offset] !== '(') {
+        return null
+    }
+
+    const args: CallArgument[] = []
+    let depth = 0
+    let argStart = offset + 1
+    let index = offset + 1
+
+    while (index < text.length) {
+        const char = text[index]
+
+        if (isStartOfQuotedText(text, index)) {
+            index = skipQuotedText(text, index)
+            continue
+        }
+
+        if (char === '.' && text.startsWith('...', index)) {
+            // Line continuation - the remainder of the line is a comment
+            const nextLineStart = skipToEndOfLine(text, index)
+            if (text.substring(argStart, index).trim() === '') {
+                argStart = nextLineStart
+            }
+            index = nextLineStart
+            continue
+        }
+
+        if (char === '%' || char === '\n' || char === '\r') {
+            // The call is not terminated on this line
+            return null
+        }
+
+        if (OPENING_BRACKETS.includes(char)) {
+            depth++
+        } else if (CLOSING_BRACKETS.includes(char)) {
+            if (depth === 0) {
+                pushArgument(args, text, argStart, index)
+                return args
+            }
+            depth--
+        } else if (char === ',' && depth === 0) {
+            pushArgument(args, text, argStart, index)
+            argStart = index + 1
+        }
+
+        index++
+    }
+
+    return null
+}
+
+/**
+ * Gets the outputs being assigned from a function call in a multiple assignment
+ * (e.g. "a" and "b" in "[a, b] = fun(x)").
+ *
+ * @param text The text containing the function call
+ * @param offset The offset at which the function call starts
+ * @returns The outputs being assigned, or null if the call is not the right-hand side of
+ *     a multiple assignment
+ */
+export function getAssignedOutputs (text: string, offset: number): CallArgument[] | null {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+    const linePrefix = text.substring(lineStart, offset)
+
+    const match = /\[([^[\]]*)\]\s*=\s*$/.exec(linePrefix)
+    if (match == null) {
+        return null
+    }
+
+    const listStart = lineStart + match.index + 1
+    const listEnd = listStart + match[1].length
+    const outputs: CallArgument[] = []
+    let depth = 0
+    let outputStart = listStart
+
+    // Outputs may be separated by commas or whitespace
+    for (let index = listStart; index < listEnd; index++) {
+        const char = text[index]
+
+        if (OPENING_BRACKETS.includes(char)) {
+            depth++
+        } else if (CLOSING_BRACKETS.includes(char)) {
+            depth--
+        } else if (depth === 0 && (char === ',' || /\s/.test(char))) {
+            pushArgument(outputs, text, outputStart, index)
+            outputStart = index + 1
+        }
+    }
+    pushArgument(outputs, text, outputStart, listEnd)
+
+    return outputs
+}
+
+function pushArgument (args: CallArgument[], text: string, start: number, end: number): void {
+    const argText = text.substring(start, end)
+    const trimmedText = argText.trim()
+
+    if (trimmedText === '') {
+        return
+    }
+
+    args.push({
+        offset: start + argText.length - argText.trimStart().length,
+        text: trimmedText
+    })
+}
+
+function isStartOfQuotedText (text: string, index: number): boolean {
+    const char = text[index]
+
+    if (char === '"') {
+        return true
+    }
+
+    if (char === '\'') {
+        const previousChar = index > 0 ? text[index - 1] : ''
+        return !TRANSPOSE_PRECEDING_CHAR_REGEX.test(previousChar)
+    }
+
+    return false
+}
+
+/**
+ * Skips over a character vector or string, where the quote character is escaped by doubling it.
+ *
+ * @returns The offset immediately following the closing quote
+ */
+function skipQuotedText (text: string, index: number): number {
+    const quote = text[index]
+    index++
+
+    while (index < text.length && text[index] !== '\n') {
+        if (text[index] === quote) {
+            if (text[index + 1] !== quote) {
+                return index + 1
+            }
+            index++
+        }
+        index++
+    }
+
+    return index
+}
+
+function skipToEndOfLine (text: string, index: number): number {
+    const lineEnd = text.indexOf('\n', index)
+    return lineEnd === -1 ? text.length : lineEnd + 1
+}
@@ -1,4 +1,4 @@
-// Copyright 2022 - 2023 The MathWorks, Inc.
+// Copyright 2022 - 2026 The MathWorks, Inc.
 
 import * as yargs from 'yargs'
 import { Argument } from '../lifecycle/ConfigurationManager'
@@ -10,6 +10,9 @@ export interface CliArgs {
     [Argument.ShouldIndexWorkspace]?: boolean
     [Argument.MatlabUrl]?: string
     [Argument.SnippetIgnoreList]?: string
+    [Argument.CheckFolder]?: string
+    [Argument.CheckFormat]?: string
+    [Argument.CheckWithMatlab]?: boolean
 }
 
 /**
@@ -44,10 +47,26 @@ function makeParser (): yargs.Argv<CliArgs> {
         type: 'string',
         description: 'A semi-colon separated list of MATLAB code snippets to ignore',
         default: ''
+    }).option(Argument.CheckFolder, {
+        type: 'string',
+        description: 'Runs Code Analyzer on the MATLAB code files in the given folder and reports the results, instead of running as an LSP server. Exits with a non-zero code when errors are found.',
+        requiresArg: true
+    }).option(Argument.CheckFormat, {
+        type: 'string',
+        description: 'The format of the results reported when using --check',
+        default: 'text',
+        choices: ['text', 'sarif', 'junit']
+    }).option(Argument.CheckWithMatlab, {
+        boolean: true,
+        default: false,
+        description: 'When using --check, starts MATLAB to run Code Analyzer. If MATLAB cannot be started, the mlint executable is used instead.',
+        requiresArg: false
     }).usage(
         'Usage: $0 {--node-ipc | --stdio | --socket=socket} options\n' +
+        '       $0 --check=folder [--format={text | sarif | junit}] [--checkWithMatlab] options\n' +
         '\n' +
-        '\tAn LSP server for MATLAB. This is meant to be invoked from an editor or IDE.\n'
+        '\tAn LSP server for MATLAB. This is meant to be invoked from an editor or IDE.\n' +
+        '\tWith --check, Code Analyzer is run on a folder and the results are reported.\n'
     ).group(
         ['node-ipc', 'stdio', 'socket'],
         'Required IPC flag'
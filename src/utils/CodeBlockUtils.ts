@@ -0,0 +1,178 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { isCommentLine, isStartOfStatement, Token, TokenType } from './MatlabLexer'
+
+/**
+ * A block of code which is terminated by "end" (e.g. an "if" statement or a "methods" block)
+ */
+export interface CodeBlock {
+    // The keyword which opens the block (e.g. "if" or "properties")
+    keyword: string
+    startLine: number
+    // The line containing the "end" keyword. For functions without "end", or blocks which
+    // are not terminated, this is the last line of code in the block.
+    endLine: number
+    // Whether the block is terminated by "end"
+    hasEnd: boolean
+    // The lines containing keywords which divide the block (e.g. "else" or "case")
+    dividerLines: number[]
+}
+
+const BLOCK_KEYWORDS = new Set(['classdef', 'function', 'if', 'for', 'parfor', 'while', 'switch', 'try', 'spmd'])
+
+// Blocks which are only found directly within a classdef block
+const CLASS_BLOCK_KEYWORDS = new Set(['properties', 'methods', 'events', 'enumeration'])
+
+// The keywords which divide each type of block
+const DIVIDER_KEYWORDS = new Map([
+    ['if', ['else', 'elseif']],
+    ['switch', ['case', 'otherwise']],
+    ['try', ['catch']]
+])
+
+/**
+ * Finds the blocks within tokenized code.
+ *
+ * Functions may either all be terminated by "end", or not be terminated at all, in which
+ * case each function ends before the next function.
+ *
+ * @param lines The tokenized lines of code
+ * @returns The blocks, ordered by their start lines
+ */
+export function findCodeBlocks (lines: Token[][]): CodeBlock[] {
+    const functionsHaveEnd = doFunctionsHaveEnd(lines)
+
+    const blocks: CodeBlock[] = []
+    const openBlocks: CodeBlock[] = []
+
+    const closeBlock = (endLine: number, hasEnd: boolean): void => {
+        const block = openBlocks.pop() as CodeBlock
+        block.endLine = endLine
+        block.hasEnd = hasEnd
+        blocks.push(block)
+    }
+
+    lines.forEach((tokens, line) => {
+        tokens.forEach((token, index) => {
+            const openBlock = openBlocks[openBlocks.length - 1]
+
+            if (token.type === TokenType.Keyword && token.text === 'end') {
+                if (openBlock != null) {
+                    closeBlock(line, true)
+                }
+                return
+            }
+
+            if (token.type === TokenType.Keyword && openBlock != null && DIVIDER_KEYWORDS.get(openBlock.keyword)?.includes(token.text) === true) {
+                openBlock.dividerLines.push(line)
+                return
+            }
+
+            const keyword = getBlockKeyword(lines, line, index, openBlock?.keyword)
+            if (keyword == null) {
+                return
+            }
+
+            if (keyword === 'function' && !functionsHaveEnd) {
+                // The previous function ends before this function
+                const endLine = getPreviousCodeLine(lines, line)
+                while (openBlocks.length > 0) {
+                    closeBlock(endLine, false)
+                }
+            }
+
+            openBlocks.push({ keyword, startLine: line, endLine: line, hasEnd: false, dividerLines: [] })
+        })
+    })
+
+    const lastLine = getPreviousCodeLine(lines, lines.length)
+    while (openBlocks.length > 0) {
+        closeBlock(Math.max(lastLine, openBlocks[openBlocks.length - 1].startLine), false)
+    }
+
+    return blocks.sort((a, b) => a.startLine - b.startLine)
+}
+
+/**
+ * Gets the keyword of the block opened by a token, if any.
+ *
+ * @param lines The tokenized lines of code
+ * @param line The line containing the token
+ * @param index The index of the token within the line
+ * @param openBlockKeyword The keyword of the innermost block containing the token, if any
+ * @returns The keyword, or null if the token does not open a block
+ */
+export function getBlockKeyword (lines: Token[][], line: number, index: number, openBlockKeyword: string | undefined): string | null {
+    const token = lines[line][index]
+
+    if (token.type === TokenType.Keyword) {
+        return BLOCK_KEYWORDS.has(token.text) ? token.text : null
+    }
+
+    if (token.type !== TokenType.Identifier || !isContextKeywordUsage(lines, line, index)) {
+        return null
+    }
+
+    const isClassBlock = CLASS_BLOCK_KEYWORDS.has(token.text) && openBlockKeyword === 'classdef'
+    const isArgumentsBlock = token.text === 'arguments' && openBlockKeyword === 'function'
+
+    return isClassBlock || isArgumentsBlock ? token.text : null
+}
+
+/**
+ * Determines whether an identifier is used as a keyword. Such keywords begin a statement,
+ * and are followed by attributes in parentheses (e.g. "methods (Static)"), if anything.
+ */
+function isContextKeywordUsage (lines: Token[][], line: number, index: number): boolean {
+    const nextToken = lines[line][index + 1]
+    const isFollowedByAttributes = nextToken == null ||
+        nextToken.type === TokenType.Comment ||
+        nextToken.type === TokenType.Separator ||
+        nextToken.text === '('
+
+    return isFollowedByAttributes && isStartOfStatement(lines, line, index)
+}
+
+/**
+ * Determines whether the functions within the code are terminated by "end". This is the
+ * case when there are more "end" keywords than blocks other than functions.
+ */
+export function doFunctionsHaveEnd (lines: Token[][]): boolean {
+    let hasClassdef = false
+    let functionCount = 0
+    let otherBlockCount = 0
+    let endCount = 0
+
+    lines.forEach((tokens, line) => tokens.forEach((token, index) => {
+        if (token.type === TokenType.Identifier) {
+            if (token.text === 'arguments' && isContextKeywordUsage(lines, line, index)) {
+                otherBlockCount++
+            }
+        } else if (token.type === TokenType.Keyword) {
+            if (token.text === 'classdef') {
+                hasClassdef = true
+            } else if (token.text === 'function') {
+                functionCount++
+            } else if (token.text === 'end') {
+                endCount++
+            } else if (BLOCK_KEYWORDS.has(token.text)) {
+                otherBlockCount++
+            }
+        }
+    }))
+
+    // Methods are always terminated by "end"
+    return hasClassdef || (functionCount > 0 && endCount > otherBlockCount)
+}
+
+/**
+ * Gets the last line before the given line which contains code.
+ */
+function getPreviousCodeLine (lines: Token[][], line: number): number {
+    for (let previous = line - 1; previous >= 0; previous--) {
+        if (lines[previous].length > 0 && !isCommentLine(lines[previous])) {
+            return previous
+        }
+    }
+    return Math.max(line - 1, 0)
+}
@@ -1,4 +1,4 @@
-// Copyright 2024 The MathWorks, Inc.
+// Copyright 2024 - 2026 The MathWorks, Inc.
 
 import * as fs from 'fs/promises';
 import { exec } from 'child_process';
@@ -88,3 +88,34 @@ export async function findExecutableOnPath (executable: string): Promise<string
         return null;
     }
 }
+
+/**
+ * Recursively finds the MATLAB code files (.m) within a folder. Hidden folders
+ * (e.g. '.git') are not searched.
+ * @param folderPath - The path of the folder to search.
+ * @returns {Promise<string[]>} The paths of the .m files found.
+ */
+export async function findMFilesInFolder (folderPath: string): Promise<string[]> {
+    const filePaths: string[] = [];
+
+    let entries;
+    try {
+        entries = await fs.readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+        Logger.error(`Error reading directory: ${(error as NodeJS.ErrnoException).message}`);
+        return filePaths;
+    }
+
+    for (const entry of entries) {
+        const entryPath = path.join(folderPath, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.')) {
+                filePaths.push(...await findMFilesInFolder(entryPath));
+            }
+        } else if (entry.isFile() && path.extname(entry.name) === '.m') {
+            filePaths.push(entryPath);
+        }
+    }
+
+    return filePaths;
+}
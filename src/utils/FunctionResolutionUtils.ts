@@ -0,0 +1,73 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import { Location } from 'vscode-languageserver'
+import FileInfoIndex, { FunctionOrUnboundIdentifier, getAllFunctionScopes, MatlabFunctionScopeInfo } from '../indexing/FileInfoIndex'
+import Indexer from '../indexing/Indexer'
+import * as SymbolSearchService from '../indexing/SymbolSearchService'
+import PathResolver from '../providers/navigation/PathResolver'
+import { areRangesEqual } from './RangeUtils'
+
+/**
+ * An indexed function called by a function reference
+ */
+export interface ResolvedFunction {
+    // The scope of the called function
+    functionScope: MatlabFunctionScopeInfo
+    // The location of the function's declaration
+    location: Location
+}
+
+/**
+ * Resolves the function called by a function reference.
+ *
+ * @param uri The URI of the file containing the reference
+ * @param reference The function reference
+ * @param fileInfoIndex The file info index
+ * @param pathResolver The path resolver
+ * @param indexer The indexer
+ * @returns The called function, or null if the reference cannot be resolved to an
+ *     indexed function (or to an indexed class with a constructor)
+ */
+export async function resolveCalledFunction (
+    uri: string, reference: FunctionOrUnboundIdentifier, fileInfoIndex: FileInfoIndex, pathResolver: PathResolver, indexer: Indexer
+): Promise<ResolvedFunction | null> {
+    // Resolving from the first component considers each dotted
+    // expansion (e.g. "pkg", then "pkg.fun") until one is found
+    const definitions: Location[] = await SymbolSearchService.findDefinitionsInIndexedFile(
+        uri, reference.components[0].range.start, fileInfoIndex, pathResolver, indexer
+    )
+
+    for (const definition of definitions) {
+        const functionScope = getFunctionScopeForDefinition(definition, fileInfoIndex)
+        if (functionScope != null) {
+            return { functionScope, location: definition }
+        }
+    }
+
+    return null
+}
+
+function getFunctionScopeForDefinition (definition: Location, fileInfoIndex: FileInfoIndex): MatlabFunctionScopeInfo | null {
+    const codeInfo = fileInfoIndex.codeInfoCache.get(definition.uri)
+    if (codeInfo == null) {
+        return null
+    }
+
+    const functionScope = getAllFunctionScopes(codeInfo).find(
+        scope => areRangesEqual(scope.declarationNameId.range, definition.range)
+    )
+    if (functionScope != null) {
+        return functionScope
+    }
+
+    // A call to a class refers to its constructor
+    const classdefInfo = codeInfo.globalScopeInfo.classScope?.classdefInfo
+    if (classdefInfo != null && areRangesEqual(classdefInfo.declarationNameId.range, definition.range)) {
+        const constructorInfo = classdefInfo.classInfo.functionScopes.get(classdefInfo.declarationNameId.name)
+        if (constructorInfo?.isConstructor === true) {
+            return constructorInfo.functionScopeInfo ?? null
+        }
+    }
+
+    return null
+}
@@ -0,0 +1,80 @@
+// Copyright 2026 The MathWorks, Inc.
+
+const CONSECUTIVE_MATCH_BONUS = 5
+const WORD_BOUNDARY_BONUS = 10
+const PREFIX_BONUS = 15
+const GAP_PENALTY = 1
+
+/**
+ * Determines whether a pattern fuzzily matches a candidate string, and if so,
+ * how well it matches.
+ *
+ * A pattern matches if its characters appear in the candidate in order
+ * (ignoring case), though not necessarily contiguously. Matches are scored
+ * higher when matched characters are consecutive, fall on word boundaries
+ * (e.g. the start of a dotted component, after an underscore, or at a
+ * camelCase hump), or when the pattern is a prefix of the candidate.
+ *
+ * @param pattern The pattern being searched for (e.g. "plt" or "pkg.fun")
+ * @param candidate The string being tested against the pattern
+ * @returns The match score (higher is better), or null if the candidate does not match
+ */
+export function fuzzyMatch (pattern: string, candidate: string): number | null {
+    if (pattern === '') {
+        return 0
+    }
+
+    const lowerPattern = pattern.toLowerCase()
+    const lowerCandidate = candidate.toLowerCase()
+
+    let score = 0
+    let patternIndex = 0
+    let previousMatchIndex = -1
+
+    for (let candidateIndex = 0; candidateIndex < candidate.length && patternIndex < pattern.length; candidateIndex++) {
+        if (lowerCandidate[candidateIndex] !== lowerPattern[patternIndex]) {
+            continue
+        }
+
+        if (previousMatchIndex === candidateIndex - 1) {
+            score += CONSECUTIVE_MATCH_BONUS
+        } else if (previousMatchIndex !== -1) {
+            score -= GAP_PENALTY * (candidateIndex - previousMatchIndex - 1)
+        }
+
+        if (isWordBoundary(candidate, candidateIndex)) {
+            score += WORD_BOUNDARY_BONUS
+        }
+
+        previousMatchIndex = candidateIndex
+        patternIndex++
+    }
+
+    if (patternIndex < pattern.length) {
+        // Not all characters in the pattern were matched
+        return null
+    }
+
+    if (lowerCandidate.startsWith(lowerPattern)) {
+        score += PREFIX_BONUS
+    }
+
+    // Prefer shorter candidates when matches are otherwise equivalent
+    return score - (candidate.length - pattern.length) * 0.01
+}
+
+function isWordBoundary (text: string, index: number): boolean {
+    if (index === 0) {
+        return true
+    }
+
+    const previousChar = text[index - 1]
+    const currentChar = text[index]
+
+    if (previousChar === '.' || previousChar === '_' || previousChar === '>') {
+        return true
+    }
+
+    // camelCase hump
+    return previousChar === previousChar.toLowerCase() && currentChar !== currentChar.toLowerCase()
+}
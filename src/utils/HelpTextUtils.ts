@@ -0,0 +1,119 @@
+// Copyright 2026 The MathWorks, Inc.
+
+const LINE_CONTINUATION_REGEX = /\.\.\..*$/
+const BLOCK_COMMENT_START_REGEX = /^\s*%\{\s*$/
+const BLOCK_COMMENT_END_REGEX = /^\s*%\}\s*$/
+const COMMENT_LINE_REGEX = /^\s*%(?![%{}])/
+
+/**
+ * Extracts the help text for a function or class from its source code.
+ *
+ * Following MATLAB's conventions, the help text is the first contiguous block
+ * of comments directly after the declaration (accounting for declarations
+ * which span multiple lines). If there is no such block, the contiguous block
+ * of comments directly before the declaration is used instead.
+ *
+ * @param lines The lines of the source file
+ * @param declarationLine The line on which the declaration begins
+ * @returns The help text, or an empty string if there is none
+ */
+export function getHelpText (lines: string[], declarationLine: number): string {
+    // Find the last line of the declaration
+    let lineIndex = declarationLine
+    while (lineIndex < lines.length - 1 && LINE_CONTINUATION_REGEX.test(lines[lineIndex])) {
+        lineIndex++
+    }
+
+    const helpLinesAfter = collectCommentBlock(lines, lineIndex + 1, 1)
+    if (helpLinesAfter.length > 0) {
+        return formatHelpLines(helpLinesAfter)
+    }
+
+    return formatHelpLines(collectCommentBlock(lines, declarationLine - 1, -1))
+}
+
+/**
+ * Extracts the help text for a class member (e.g. a property or enumeration),
+ * which is given either by the comments directly above it or by a trailing
+ * comment on the same line.
+ *
+ * @param lines The lines of the source file
+ * @param memberLine The line on which the member is declared
+ * @returns The help text, or an empty string if there is none
+ */
+export function getMemberHelpText (lines: string[], memberLine: number): string {
+    const helpLinesBefore = collectCommentBlock(lines, memberLine - 1, -1)
+    if (helpLinesBefore.length > 0) {
+        return formatHelpLines(helpLinesBefore)
+    }
+
+    const line = lines[memberLine] ?? ''
+    const commentIndex = line.indexOf('%')
+    if (commentIndex === -1) {
+        return ''
+    }
+
+    return formatHelpLines([line.substring(commentIndex + 1)])
+}
+
+/**
+ * Collects a contiguous block of comment lines, starting at the given line
+ * and moving in the given direction.
+ *
+ * Block comments (delimited by "%{" and "%}") are treated as a single unit.
+ *
+ * @param lines The lines of the source file
+ * @param startLine The line at which to start collecting
+ * @param direction 1 to collect lines moving down, -1 to collect lines moving up
+ * @returns The collected lines, in source order
+ */
+function collectCommentBlock (lines: string[], startLine: number, direction: 1 | -1): string[] {
+    const result: string[] = []
+    let lineIndex = startLine
+
+    while (lineIndex >= 0 && lineIndex < lines.length) {
+        const line = lines[lineIndex]
+
+        const isBlockDelimiter = direction === 1 ? BLOCK_COMMENT_START_REGEX : BLOCK_COMMENT_END_REGEX
+        if (isBlockDelimiter.test(line)) {
+            // Collect everything within the block comment
+            const closingDelimiter = direction === 1 ? BLOCK_COMMENT_END_REGEX : BLOCK_COMMENT_START_REGEX
+            const blockLines: string[] = []
+            lineIndex += direction
+            while (lineIndex >= 0 && lineIndex < lines.length && !closingDelimiter.test(lines[lineIndex])) {
+                blockLines.push(lines[lineIndex])
+                lineIndex += direction
+            }
+            result.push(...blockLines)
+            lineIndex += direction
+            continue
+        }
+
+        if (!COMMENT_LINE_REGEX.test(line)) {
+            break
+        }
+
+        result.push(line.replace(/^\s*%/, ''))
+        lineIndex += direction
+    }
+
+    return direction === 1 ? result : result.reverse()
+}
+
+/**
+ * Removes the indentation common to all of the given lines, as well as any
+ * trailing whitespace, and joins the lines.
+ */
+function formatHelpLines (helpLines: string[]): string {
+    const nonEmptyLines = helpLines.filter(line => line.trim() !== '')
+    if (nonEmptyLines.length === 0) {
+        return ''
+    }
+
+    const commonIndent = Math.min(...nonEmptyLines.map(line => line.length - line.trimStart().length))
+
+    return helpLines
+        .map(line => line.substring(commonIndent).trimEnd())
+        .join('\n')
+        .trim()
+}
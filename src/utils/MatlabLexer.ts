@@ -0,0 +1,285 @@
+// Copyright 2026 The MathWorks, Inc.
+
+/**
+ * The types of tokens in MATLAB code
+ */
+export enum TokenType {
+    Keyword = 'keyword',
+    Identifier = 'identifier',
+    Number = 'number',
+    // Character vectors ('abc') and strings ("abc")
+    String = 'string',
+    Operator = 'operator',
+    // Commas and semicolons
+    Separator = 'separator',
+    OpenBracket = 'openBracket',
+    CloseBracket = 'closeBracket',
+    Comment = 'comment',
+    // A line within a block comment (%{ ... %}), including the delimiting lines
+    BlockComment = 'blockComment',
+    // A line continuation (...) and the remainder of the line
+    Continuation = 'continuation'
+}
+
+/**
+ * A token within a line of MATLAB code
+ */
+export interface Token {
+    type: TokenType
+    text: string
+    // The zero-based line containing the token
+    line: number
+    // The character offsets within the line at which the token starts and ends
+    start: number
+    end: number
+    // The number of brackets which are open before the token
+    bracketDepth: number
+}
+
+/**
+ * The reserved keywords in MATLAB (see "iskeyword"). Other words which begin blocks,
+ * such as "properties" or "arguments", are only keywords in specific contexts, so they
+ * are tokenized as identifiers.
+ */
+export const KEYWORDS = new Set([
+    'break', 'case', 'catch', 'classdef', 'continue', 'else', 'elseif', 'end', 'for', 'function',
+    'global', 'if', 'otherwise', 'parfor', 'persistent', 'return', 'spmd', 'switch', 'try', 'while'
+])
+
+// Ordered so that longer operators are matched first
+const OPERATORS = [
+    '==', '~=', '<=', '>=', '&&', '||', '.*', './', '.\\', '.^', '.\'',
+    '+', '-', '*', '/', '\\', '^', '<', '>', '&', '|', '~', '!', '=', ':', '.', '@', '?', '\''
+]
+
+const NUMBER_REGEX = /^(?:0[xX][0-9a-fA-F]+(?:[su](?:8|16|32|64))?|0[bB][01]+(?:[su](?:8|16|32|64))?|(?:\d+(?:\.(?![*/\\^'])\d*)?|\.\d+)(?:[eEdD][+-]?\d+)?[ij]?)/
+const IDENTIFIER_REGEX = /^[A-Za-z]\w*/
+
+// Token types after which a single quote is a transpose operator rather than the start of a character vector
+const TRANSPOSABLE_TOKEN_TYPES = new Set([TokenType.Identifier, TokenType.Number, TokenType.CloseBracket])
+
+const BLOCK_COMMENT_START_REGEX = /^\s*%\{\s*$/
+const BLOCK_COMMENT_END_REGEX = /^\s*%\}\s*$/
+const SECTION_HEADER_REGEX = /^\s*%%(?:\s|$)/
+
+/**
+ * Splits code into lines.
+ *
+ * @param code The code
+ * @returns The lines, without line terminators
+ */
+export function splitLines (code: string): string[] {
+    return code.split(/\r\n|\r|\n/)
+}
+
+/**
+ * Tokenizes MATLAB code. Whitespace is not included in the tokens.
+ *
+ * @param code The code
+ * @returns The tokens within each line of the code
+ */
+export function tokenize (code: string): Token[][] {
+    const lines = splitLines(code)
+    const tokenizedLines: Token[][] = []
+
+    // The open brackets, from outermost to innermost
+    const bracketStack: string[] = []
+    let blockCommentDepth = 0
+
+    lines.forEach((lineText, line) => {
+        if (isBlockCommentStart(lineText) && (blockCommentDepth > 0 || canStartBlockComment(tokenizedLines, bracketStack.length))) {
+            blockCommentDepth++
+        }
+
+        if (blockCommentDepth > 0) {
+            if (isBlockCommentEnd(lineText)) {
+                blockCommentDepth--
+            }
+            tokenizedLines.push([{ type: TokenType.BlockComment, text: lineText, line, start: 0, end: lineText.length, bracketDepth: 0 }])
+            return
+        }
+
+        const tokens: Token[] = []
+        let index = 0
+
+        const pushToken = (type: TokenType, length: number): void => {
+            tokens.push({
+                type, text: lineText.substring(index, index + length), line, start: index, end: index + length, bracketDepth: bracketStack.length
+            })
+            index += length
+        }
+
+        while (index < lineText.length) {
+            const char = lineText[index]
+            const rest = lineText.substring(index)
+
+            if (/\s/.test(char)) {
+                index++
+            } else if (char === '%') {
+                pushToken(TokenType.Comment, rest.length)
+            } else if (rest.startsWith('...')) {
+                pushToken(TokenType.Continuation, rest.length)
+            } else if (char === '"' || (char === '\'' && !isTranspose(tokens, index, bracketStack[bracketStack.length - 1]))) {
+                pushToken(TokenType.String, getQuotedTextLength(rest))
+            } else if (IDENTIFIER_REGEX.test(rest)) {
+                const word = (IDENTIFIER_REGEX.exec(rest) as RegExpExecArray)[0]
+                pushToken(isKeyword(word, tokens, bracketStack.length) ? TokenType.Keyword : TokenType.Identifier, word.length)
+            } else if (NUMBER_REGEX.test(rest)) {
+                pushToken(TokenType.Number, (NUMBER_REGEX.exec(rest) as RegExpExecArray)[0].length)
+            } else if ('([{'.includes(char)) {
+                pushToken(TokenType.OpenBracket, 1)
+                bracketStack.push(char)
+            } else if (')]}'.includes(char)) {
+                bracketStack.pop()
+                pushToken(TokenType.CloseBracket, 1)
+            } else if (char === ',' || char === ';') {
+                pushToken(TokenType.Separator, 1)
+            } else {
+                const operator = OPERATORS.find(op => rest.startsWith(op)) ?? char
+                pushToken(TokenType.Operator, operator.length)
+            }
+        }
+
+        tokenizedLines.push(tokens)
+    })
+
+    return tokenizedLines
+}
+
+/**
+ * Determines whether a token is the first token of a statement. Statements begin at the
+ * start of a line (unless the previous line is continued) or after a comma or semicolon
+ * outside of brackets.
+ *
+ * @param lines The tokenized lines
+ * @param line The line containing the token
+ * @param index The index of the token within the line
+ * @returns true if the token begins a statement
+ */
+export function isStartOfStatement (lines: Token[][], line: number, index: number): boolean {
+    if (index > 0) {
+        const previousToken = lines[line][index - 1]
+        return previousToken.type === TokenType.Separator && previousToken.bracketDepth === 0
+    }
+
+    return !isContinuedFromPreviousLine(lines, line)
+}
+
+/**
+ * Determines whether a line continues the statement from the previous line, using a line
+ * continuation or an unclosed bracket.
+ */
+export function isContinuedFromPreviousLine (lines: Token[][], line: number): boolean {
+    const firstToken = lines[line][0]
+    if (firstToken != null && firstToken.bracketDepth > 0) {
+        return true
+    }
+
+    const previousLine = line > 0 ? lines[line - 1] : []
+    return previousLine[previousLine.length - 1]?.type === TokenType.Continuation
+}
+
+/**
+ * Determines whether a line is a section header (e.g. "%% Section").
+ */
+export function isSectionHeader (lineText: string): boolean {
+    return SECTION_HEADER_REGEX.test(lineText)
+}
+
+/**
+ * Determines whether a line starts a block comment (i.e. the line only contains "%{").
+ */
+export function isBlockCommentStart (lineText: string): boolean {
+    return BLOCK_COMMENT_START_REGEX.test(lineText)
+}
+
+/**
+ * Determines whether a line ends a block comment (i.e. the line only contains "%}").
+ */
+export function isBlockCommentEnd (lineText: string): boolean {
+    return BLOCK_COMMENT_END_REGEX.test(lineText)
+}
+
+/**
+ * Determines whether a line only contains a comment.
+ */
+export function isCommentLine (tokens: Token[]): boolean {
+    return tokens.length === 1 && (tokens[0].type === TokenType.Comment || tokens[0].type === TokenType.BlockComment)
+}
+
+/**
+ * Determines whether a block comment can start on the next line, which must not continue
+ * a statement.
+ */
+function canStartBlockComment (lines: Token[][], bracketDepth: number): boolean {
+    const previousLine = lines[lines.length - 1] ?? []
+    return bracketDepth === 0 && previousLine[previousLine.length - 1]?.type !== TokenType.Continuation
+}
+
+function isKeyword (word: string, previousTokens: Token[], bracketDepth: number): boolean {
+    if (!KEYWORDS.has(word)) {
+        return false
+    }
+
+    const previousToken = previousTokens[previousTokens.length - 1]
+    if (previousToken?.text === '.') {
+        // Field names (e.g. "s.end") are not keywords
+        return false
+    }
+
+    // Within brackets, "end" refers to the last index
+    return word !== 'end' || bracketDepth === 0
+}
+
+/**
+ * Determines whether a single quote is a transpose operator (e.g. "x'"), rather than the
+ * start of a character vector.
+ *
+ * @param previousTokens The tokens preceding the quote on its line
+ * @param index The offset of the quote within the line
+ * @param innermostBracket The innermost open bracket, if any
+ */
+function isTranspose (previousTokens: Token[], index: number, innermostBracket: string | undefined): boolean {
+    const previousToken = previousTokens[previousTokens.length - 1]
+    if (previousToken == null) {
+        return false
+    }
+
+    const isValue = TRANSPOSABLE_TOKEN_TYPES.has(previousToken.type) ||
+        (previousToken.type === TokenType.Operator && (previousToken.text === '\'' || previousToken.text === '.\''))
+    if (!isValue) {
+        return false
+    }
+
+    if (previousToken.end === index) {
+        return true
+    }
+
+    // Within square brackets or braces, whitespace separates elements (e.g. "[x 'abc']"),
+    // and a word followed by whitespace at the start of a line is a command (e.g. "disp 'abc'")
+    const isElementSeparator = innermostBracket === '[' || innermostBracket === '{'
+    const isCommandSyntax = innermostBracket == null && previousTokens.length === 1 && previousToken.type === TokenType.Identifier
+    return !isElementSeparator && !isCommandSyntax
+}
+
+/**
+ * Gets the length of quoted text, including the quotes. Quotes are escaped by repeating
+ * them (e.g. 'it''s'). Unterminated text continues to the end of the line.
+ */
+function getQuotedTextLength (text: string): number {
+    const quote = text[0]
+    let index = 1
+
+    while (index < text.length) {
+        if (text[index] === quote) {
+            if (text[index + 1] === quote) {
+                index += 2
+                continue
+            }
+            return index + 1
+        }
+        index++
+    }
+
+    return text.length
+}
@@ -1,4 +1,4 @@
-// Copyright 2025 The MathWorks, Inc.
+// Copyright 2025 - 2026 The MathWorks, Inc.
 
 import assert from 'assert'
 
@@ -72,6 +72,14 @@ describe('FileInfoIndex', () => {
             )
         })
 
+        it('increments the version of the index', () => {
+            const initialVersion = fileInfoIndex.version
+
+            fileInfoIndex.parseAndStoreCodeInfo('G_1.m', G_1_rawCodeData)
+
+            assert.strictEqual(fileInfoIndex.version, initialVersion + 1)
+        })
+
         it('overwrites old code info for a file with new code info for the same file', () => {
             fileInfoIndex.parseAndStoreCodeInfo('G_1.m', G_1_rawCodeData)
             // as if the contents of G_1.m were updated to match G_2.m
@@ -0,0 +1,98 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+
+import getMockMvm from '../mocks/Mvm.mock'
+
+import Indexer from '../../src/indexing/Indexer'
+import FileInfoIndex, { CodeInfo } from '../../src/indexing/FileInfoIndex'
+import MatlabLifecycleManager from '../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../src/lifecycle/ConfigurationManager'
+import { IMVM, MatlabMVMConnectionState } from '../../src/mvm/impl/MVM'
+
+describe('Indexer', () => {
+    let indexer: Indexer
+    let fileInfoIndex: FileInfoIndex
+    let mockMvm: any
+    let mockMatlabConnection: any
+    let parseAndStoreStub: sinon.SinonStub
+
+    beforeEach(() => {
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        mockMvm = getMockMvm()
+        fileInfoIndex = new FileInfoIndex()
+        indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+
+        mockMatlabConnection = {
+            getChannelId: () => 'channel',
+            subscribe: sinon.stub().returns('subscription'),
+            unsubscribe: sinon.stub()
+        }
+
+        mockMvm.isReady.returns(true)
+        sinon.stub(matlabLifecycleManager, 'getMatlabConnection').resolves(mockMatlabConnection)
+        sinon.stub(ConfigurationManager, 'getConfiguration').resolves({ maxFileSizeForAnalysis: 0 } as Settings)
+        parseAndStoreStub = sinon.stub(fileInfoIndex, 'parseAndStoreCodeInfo')
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#indexFolders', () => {
+        /**
+         * Sends a file's results over the response channel, as MATLAB does
+         */
+        const sendFileResults = (filePath: string, isDone: boolean): void => {
+            const callback = mockMatlabConnection.subscribe.firstCall.args[1]
+            callback({ filePath, isDone, codeData: {} as CodeInfo })
+        }
+
+        it('should resolve once the results for every file have been received', async () => {
+            mockMvm.feval.resolves({ result: [2] })
+            let isResolved = false
+
+            const indexingPromise = indexer.indexFolders(['/folder']).then(() => { isResolved = true })
+            await new Promise(resolve => setImmediate(resolve))
+
+            sendFileResults('/folder/a.m', false)
+            await new Promise(resolve => setImmediate(resolve))
+            assert.strictEqual(isResolved, false)
+
+            sendFileResults('/folder/b.m', true)
+            await indexingPromise
+
+            sinon.assert.calledTwice(parseAndStoreStub)
+            sinon.assert.calledOnceWithExactly(mockMatlabConnection.unsubscribe, 'subscription')
+        })
+
+        it('should resolve when there are no files to index', async () => {
+            mockMvm.feval.resolves({ result: [0] })
+
+            await indexer.indexFolders(['/folder'])
+
+            sinon.assert.notCalled(parseAndStoreStub)
+            sinon.assert.calledOnce(mockMatlabConnection.unsubscribe)
+        })
+
+        it('should resolve when MATLAB returns an error', async () => {
+            mockMvm.feval.resolves({ error: { msg: 'error' } })
+
+            await indexer.indexFolders(['/folder'])
+
+            sinon.assert.calledOnce(mockMatlabConnection.unsubscribe)
+        })
+
+        it('should resolve when MATLAB disconnects while indexing', async () => {
+            mockMvm.feval.resolves({ result: [2] })
+
+            const indexingPromise = indexer.indexFolders(['/folder'])
+            await new Promise(resolve => setImmediate(resolve))
+
+            mockMvm._emitEvent(IMVM.Events.stateChange, MatlabMVMConnectionState.DISCONNECTED)
+            await indexingPromise
+
+            sinon.assert.calledOnce(mockMatlabConnection.unsubscribe)
+        })
+    })
+})
@@ -0,0 +1,146 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import sinon from 'sinon'
+import { URI } from 'vscode-uri'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+import getMockMvm from '../mocks/Mvm.mock'
+
+import FileInfoIndex, { CodeInfo } from '../../src/indexing/FileInfoIndex'
+import Indexer from '../../src/indexing/Indexer'
+import { getOfflineCodeInfo } from '../../src/indexing/OfflineCodeInfo'
+import MatlabLifecycleManager from '../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../src/lifecycle/ConfigurationManager'
+
+/**
+ * Parses a test file without MATLAB, along with the data which MATLAB computes for the file
+ *
+ * @param relativePath The path of the file, relative to the test data folders
+ */
+function parseTestFile (relativePath: string): { actual: CodeInfo, expected: CodeInfo } {
+    const filePath = path.join(__dirname, 'testData', relativePath)
+    const code = fs.readFileSync(filePath).toString()
+
+    return {
+        actual: getOfflineCodeInfo(code, URI.file(filePath).toString()),
+        expected: require(`./rawCodeDataResourceFiles/${relativePath.replace(/\.m$/, '.json')}`)
+    }
+}
+
+describe('OfflineCodeInfo', () => {
+    describe('#getOfflineCodeInfo', () => {
+        const specCases = [
+            'generalCases/G_1', 'generalCases/G_2', 'generalCases/G_3', 'generalCases/G_4', 'generalCases/G_5',
+            'generalCases/G_6', 'generalCases/G_12',
+            'functionCases/F_1', 'functionCases/F_2', 'functionCases/F_3', 'functionCases/F_4', 'functionCases/F_5',
+            'functionCases/F_6', 'functionCases/F_7', 'functionCases/F_8', 'functionCases/F_9', 'functionCases/F_10',
+            'functionCases/F_11', 'functionCases/F_12', 'functionCases/F_21',
+            'classCases/C_1', 'classCases/C_2', 'classCases/C_3', 'classCases/C_6', 'classCases/C_7', 'classCases/C_8',
+            'classCases/C_9',
+            'dottedIdentifierCases/D_1', 'dottedIdentifierCases/D_3', 'dottedIdentifierCases/D_4',
+            'dottedIdentifierCases/D_10', 'dottedIdentifierCases/D_11',
+            'shadowingCases/S_1', 'shadowingCases/S_8'
+        ]
+
+        specCases.forEach(specCase => {
+            it(`should compute the same scopes and references as MATLAB for ${path.basename(specCase)}`, () => {
+                const { actual, expected } = parseTestFile(`improvedCodeAnalysisSpecCases/${specCase}.m`)
+
+                assert.deepStrictEqual(actual.globalScope, expected.globalScope)
+                assert.deepStrictEqual(actual.classReferences, expected.classReferences)
+                assert.strictEqual(actual.hasClassInfo, expected.hasClassInfo)
+                assert.strictEqual(actual.package, expected.package)
+            })
+        })
+
+        it('should compute class info for files in a class folder', () => {
+            for (const fileName of ['MyClass.m', 'staticMethod.m']) {
+                const { actual, expected } = parseTestFile(`@MyClass/${fileName}`)
+
+                assert.deepStrictEqual(actual.globalScope, expected.globalScope)
+                assert.deepStrictEqual(actual.classReferences, expected.classReferences)
+                assert.strictEqual(actual.hasClassInfo, true)
+                assert.strictEqual(actual.classDefFolder, path.join(__dirname, 'testData', '@MyClass'))
+            }
+        })
+
+        it('should determine the package from the file path', () => {
+            const uri = URI.file(path.join('/', 'code', '+pkg1', '+pkg2', '@MyClass', 'method.m')).toString()
+            const codeInfo = getOfflineCodeInfo('function method(obj)\nend', uri)
+
+            assert.strictEqual(codeInfo.package, 'pkg1.pkg2')
+            assert.strictEqual(codeInfo.globalScope.functionScopes[0].isPublic, true)
+        })
+
+        it('should compute explicit and implicit sections', () => {
+            const code = [
+                'x = 1;', // 0
+                '', // 1
+                '%% Create Data', // 2
+                'y = 2;', // 3
+                '', // 4
+                '%% Plot', // 5
+                'plot(x, y)' // 6
+            ].join('\n')
+
+            assert.deepStrictEqual(getOfflineCodeInfo(code, 'file:///script.m').sections, [
+                { name: 'Section 1', range: [0, 0, 1, 0], isExplicit: false },
+                { name: 'Create Data', range: [2, 0, 4, 0], isExplicit: true },
+                { name: 'Plot', range: [5, 0, 6, 10], isExplicit: true }
+            ])
+        })
+
+        it('should handle globals, loops, command syntax, and anonymous functions', () => {
+            const code = [
+                'function out = fun(in)', // 0
+                '    global g', // 1
+                '    hold on', // 2
+                '    f = @(x) x + in;', // 3
+                '    for k = 1:in', // 4
+                '        out(k) = f(k);', // 5
+                '    end', // 6
+                'end' // 7
+            ].join('\n')
+
+            const functionScope = getOfflineCodeInfo(code, 'file:///fun.m').globalScope.functionScopes[0]
+
+            assert.deepStrictEqual(functionScope.globals, ['g'])
+            assert.deepStrictEqual(functionScope.variableDefinitions.map(def => def.name), ['g', 'in', 'out', 'f', 'out', 'k'])
+            assert.deepStrictEqual(functionScope.functionOrUnboundReferences.map(ref => ref.name), ['hold'])
+        })
+    })
+})
+
+describe('Indexer', () => {
+    let indexer: Indexer
+    let fileInfoIndex: FileInfoIndex
+    let mockMvm: any
+
+    beforeEach(() => {
+        mockMvm = getMockMvm()
+        fileInfoIndex = new FileInfoIndex()
+        indexer = new Indexer(new MatlabLifecycleManager(), mockMvm, fileInfoIndex)
+
+        sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => ({ maxFileSizeForAnalysis: 0 }) as Settings)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#indexDocument', () => {
+        it('should index documents without MATLAB when it is not available', async () => {
+            mockMvm.isReady.returns(false)
+            const textDocument = TextDocument.create('file:///fun.m', 'matlab', 1, 'function fun()\n    x = 1;\nend')
+
+            await indexer.indexDocument(textDocument)
+
+            sinon.assert.notCalled(mockMvm.feval)
+            const codeInfo = fileInfoIndex.codeInfoCache.get('file:///fun.m')
+            assert.deepStrictEqual([...(codeInfo?.globalScopeInfo.functionScopes.keys() ?? [])], ['fun'])
+        })
+    })
+})
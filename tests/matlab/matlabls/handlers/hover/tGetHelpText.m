@@ -0,0 +1,37 @@
+% Copyright 2026 The MathWorks, Inc.
+classdef tGetHelpText < matlab.unittest.TestCase
+    methods (TestClassSetup)
+        function setup (testCase)
+            % Add function under test and test data to path
+            addpath("../../../../../matlab");
+
+            pathToAdd = fullfile(pwd, "testData");
+            addpath(pathToAdd);
+            testCase.addTeardown(@() rmpath(pathToAdd));
+        end
+    end
+
+    methods (Test)
+        % Test retrieving the help text of a user-defined function
+        function testHelpTextForUserFunction (testCase)
+            helpText = matlabls.handlers.hover.getHelpText("myDocumentedFunction");
+
+            testCase.verifySubstring(helpText, 'MYDOCUMENTEDFUNCTION Returns the input unchanged.');
+        end
+
+        % Test that hyperlink markup is removed from the help text
+        function testHyperlinksAreRemoved (testCase)
+            helpText = matlabls.handlers.hover.getHelpText("myDocumentedFunction");
+
+            testCase.verifyFalse(contains(helpText, '<a href'));
+            testCase.verifySubstring(helpText, 'disp');
+        end
+
+        % Test that no help text is returned for a nonexistent function
+        function testHelpTextForNonexistentFunction (testCase)
+            helpText = matlabls.handlers.hover.getHelpText("__nonexistent_function123_");
+
+            testCase.verifyEmpty(strtrim(helpText));
+        end
+    end
+end
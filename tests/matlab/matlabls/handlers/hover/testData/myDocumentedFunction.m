@@ -0,0 +1,6 @@
+function out = myDocumentedFunction (in)
+    % MYDOCUMENTEDFUNCTION Returns the input unchanged.
+    %   See also disp.
+
+    out = in;
+end
@@ -1,4 +1,4 @@
-% Copyright 2025 The MathWorks, Inc.
+% Copyright 2025 - 2026 The MathWorks, Inc.
 classdef tGetLintData < matlab.unittest.TestCase
     methods (TestClassSetup)
         function setup (~)
@@ -47,5 +47,34 @@ classdef tGetLintData < matlab.unittest.TestCase
 
             testCase.verifySubstring(lintData{3}, 'CHANGE MESSAGE');
         end
+
+        % Test that suppressed diagnostics are only reported when ignoring suppressions
+        function testIgnoreSuppressions (testCase)
+            code = 'x = 1 %#ok<NOPTS>';
+            fileName = 'myScript.m';
+
+            lintData = matlabls.handlers.linting.getLintData(code, fileName);
+            testCase.verifyEmpty(lintData);
+
+            lintData = matlabls.handlers.linting.getLintData(code, fileName, true);
+            testCase.verifyNotEmpty(lintData);
+            testCase.verifySubstring(lintData{1}, 'NOPTS');
+        end
+
+        % Test that checks are enabled and disabled by the configuration file
+        function testConfigFile (testCase)
+            code = 'x = 1';
+            fileName = 'myScript.m';
+            configFile = [tempname '.json'];
+            testCase.addTeardown(@() delete(configFile));
+            writelines('{"baseConfiguration": "factory", "checks": {"NOPTS": {"enabled": false}}}', configFile);
+
+            lintData = matlabls.handlers.linting.getLintData(code, fileName, false, configFile);
+            testCase.verifyEmpty(lintData);
+
+            lintData = matlabls.handlers.linting.getLintData(code, fileName, false, '');
+            testCase.verifyNotEmpty(lintData);
+            testCase.verifySubstring(lintData{1}, 'NOPTS');
+        end
     end
 end
@@ -0,0 +1,43 @@
+% Copyright 2026 The MathWorks, Inc.
+classdef tResolveNameToAllPaths < matlab.unittest.TestCase
+    methods (TestClassSetup)
+        function setup (~)
+            % Add function under test to path
+            addpath("../../../../../matlab");
+        end
+    end
+
+    methods (Test)
+        % Test a function which ships with MATLAB
+        function testResolveNameToShippingFunction (testCase)
+            result = matlabls.handlers.navigation.resolveNameToAllPaths("parula");
+
+            testCase.assertSubstring(result, strip(jsonencode(matlabroot), '"'));
+            testCase.assertSubstring(result, '"isMatlabFunction":true');
+        end
+
+        % Test a user-defined function which is located on the path
+        function testResolveNameToUserFunctionOnPath (testCase)
+            pathToAdd = fullfile(pwd, "testData");
+            addpath(pathToAdd);
+            testCase.addTeardown(@() rmpath(pathToAdd));
+
+            result = matlabls.handlers.navigation.resolveNameToAllPaths("myHelperFunction");
+
+            expectedPath = fullfile(pwd, "testData", "myHelperFunction.m");
+            expected = jsonencode({{struct('path', expectedPath, 'isMatlabFunction', false)}});
+            testCase.assertEqual(result, expected);
+        end
+
+        % Test resolving multiple names, including a nonexistent function
+        function testResolveMultipleNames (testCase)
+            names = ["parula", "__nonexistent_function123_"];
+
+            result = jsondecode(matlabls.handlers.navigation.resolveNameToAllPaths(names));
+
+            testCase.assertNumElements(result, 2);
+            testCase.assertNotEmpty(result{1});
+            testCase.assertEmpty(result{2});
+        end
+    end
+end
@@ -1,4 +1,4 @@
-// Copyright 2025 The MathWorks, Inc.
+// Copyright 2025 - 2026 The MathWorks, Inc.
 import sinon from 'sinon'
 
 export default function getMockMvm (): any {
@@ -12,6 +12,11 @@ export default function getMockMvm (): any {
         on: (event: string, callback: () => void) => {
             mockMvm._eventCallbacks[event] = callback
         },
+        off: (event: string, callback: () => void) => {
+            if (mockMvm._eventCallbacks[event] === callback) {
+                delete mockMvm._eventCallbacks[event]
+            }
+        },
         _eventCallbacks: {},
         _emitEvent: (event: string, eventData: any) => {
             const callback = mockMvm._eventCallbacks[event]
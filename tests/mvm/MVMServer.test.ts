@@ -0,0 +1,59 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+
+import getMockMvm from '../mocks/Mvm.mock'
+
+import MVMServer from '../../src/mvm/MVMServer'
+import { IMVM, MatlabMVMConnectionState, PromptState } from '../../src/mvm/impl/MVM'
+import NotificationService, { Notification } from '../../src/notifications/NotificationService'
+
+describe('MVMServer', () => {
+    let mockMvm: any
+    let mockNotificationService: any
+    let mvmServer: MVMServer
+
+    beforeEach(() => {
+        mockMvm = getMockMvm()
+        mockNotificationService = {
+            registerNotificationListener: sinon.stub(),
+            sendNotification: sinon.stub()
+        }
+        mvmServer = new MVMServer(mockMvm, mockNotificationService as typeof NotificationService)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#isUserInteracting', () => {
+        it('should return true while MATLAB is waiting in the debugger', () => {
+            assert.strictEqual(mvmServer.isUserInteracting(), false)
+
+            mockMvm._emitEvent(IMVM.Events.promptChange, PromptState.DEBUG)
+
+            assert.strictEqual(mvmServer.isUserInteracting(), true)
+        })
+
+        it('should return false once MATLAB disconnects during a debug session', () => {
+            mockMvm._emitEvent(IMVM.Events.promptChange, PromptState.DEBUG)
+
+            mockMvm._emitEvent(IMVM.Events.stateChange, MatlabMVMConnectionState.DISCONNECTED)
+
+            assert.strictEqual(mvmServer.isUserInteracting(), false)
+        })
+
+        it('should return false once MATLAB disconnects while running a requested eval', () => {
+            mockMvm.eval = sinon.stub().returns(new Promise(() => {}))
+            const evalListener = mockNotificationService.registerNotificationListener.args
+                .find((args: unknown[]) => args[0] === Notification.MVMEvalRequest)[1]
+
+            evalListener({ requestId: 1, command: 'pause(100)' })
+            assert.strictEqual(mvmServer.isUserInteracting(), true)
+
+            mockMvm._emitEvent(IMVM.Events.stateChange, MatlabMVMConnectionState.DISCONNECTED)
+
+            assert.strictEqual(mvmServer.isUserInteracting(), false)
+        })
+    })
+})
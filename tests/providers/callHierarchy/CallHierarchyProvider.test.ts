@@ -0,0 +1,158 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { CallHierarchyItem, Position, Range, SymbolKind, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import CallHierarchyProvider from '../../../src/providers/callHierarchy/CallHierarchyProvider'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import ClientConnection from '../../../src/ClientConnection'
+import getMockConnection from '../../mocks/Connection.mock'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('CallHierarchyProvider', () => {
+    const resourceFilePathPrefix = '../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases'
+
+    // F_3.m:
+    //   function f1()
+    //       f2();
+    //   end
+    //
+    //   f1();
+    //
+    //   function f2()
+    //       f1();
+    //       f2();
+    //       f3();
+    //
+    //       function f3()
+    //           f3();
+    //       end
+    //   end
+    const URI = 'file:///path/to/F_3.m'
+
+    const f1Item: CallHierarchyItem = {
+        name: 'f1',
+        kind: SymbolKind.Function,
+        uri: URI,
+        range: Range.create(0, 0, 2, 3),
+        selectionRange: Range.create(0, 9, 0, 11),
+        detail: 'F_3.m'
+    }
+
+    let F_3_rawCodeData: CodeInfo
+
+    let matlabLifecycleManager: MatlabLifecycleManager
+    let fileInfoIndex: FileInfoIndex
+    let documentManager: TextDocuments<TextDocument>
+    let callHierarchyProvider: CallHierarchyProvider
+
+    before(() => {
+        ClientConnection._setConnection(getMockConnection())
+        F_3_rawCodeData = require(`${resourceFilePathPrefix}/functionCases/F_3.json`)
+    })
+
+    after(() => {
+        ClientConnection._clearConnection()
+    })
+
+    beforeEach(() => {
+        const mockMvm = getMockMvm()
+        matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+        const documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+
+        sinon.stub(matlabLifecycleManager, 'getMatlabConnection').resolves({} as any)
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+        documentManager = new TextDocuments(TextDocument)
+        sinon.stub(documentManager, 'get').returns(TextDocument.create(URI, 'matlab', 1, ''))
+
+        callHierarchyProvider = new CallHierarchyProvider(
+            matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, new PathResolver(mockMvm)
+        )
+
+        fileInfoIndex.parseAndStoreCodeInfo(URI, F_3_rawCodeData)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#handlePrepareCallHierarchy', () => {
+        it('should prepare the item for a called function', async () => {
+            const result = await callHierarchyProvider.handlePrepareCallHierarchy(
+                { textDocument: { uri: URI }, position: Position.create(4, 1) }, documentManager
+            )
+
+            assert.deepStrictEqual(result, [f1Item])
+        })
+
+        it('should prepare the item for a function declaration', async () => {
+            const result = await callHierarchyProvider.handlePrepareCallHierarchy(
+                { textDocument: { uri: URI }, position: Position.create(0, 10) }, documentManager
+            )
+
+            assert.deepStrictEqual(result, [f1Item])
+        })
+
+        it('should return null when there is no function at the position', async () => {
+            const result = await callHierarchyProvider.handlePrepareCallHierarchy(
+                { textDocument: { uri: URI }, position: Position.create(3, 0) }, documentManager
+            )
+
+            assert.strictEqual(result, null)
+        })
+    })
+
+    describe('#handleIncomingCalls', () => {
+        it('should find calls from functions and from the script', async () => {
+            const result = await callHierarchyProvider.handleIncomingCalls({ item: f1Item })
+
+            assert.strictEqual(result.length, 2)
+
+            const scriptCall = result.find(call => call.from.kind === SymbolKind.File)
+            assert.strictEqual(scriptCall?.from.name, 'F_3.m')
+            assert.deepStrictEqual(scriptCall?.fromRanges, [Range.create(4, 0, 4, 2)])
+
+            const functionCall = result.find(call => call.from.kind === SymbolKind.Function)
+            assert.strictEqual(functionCall?.from.name, 'f2')
+            assert.deepStrictEqual(functionCall?.fromRanges, [Range.create(7, 4, 7, 6)])
+        })
+    })
+
+    describe('#handleOutgoingCalls', () => {
+        it('should find calls to local and nested functions', async () => {
+            const f2Item = (await callHierarchyProvider.handlePrepareCallHierarchy(
+                { textDocument: { uri: URI }, position: Position.create(6, 10) }, documentManager
+            ))![0]
+
+            const result = await callHierarchyProvider.handleOutgoingCalls({ item: f2Item })
+
+            assert.deepStrictEqual(
+                result.map(call => [call.to.name, call.fromRanges]).sort(),
+                [
+                    ['f1', [Range.create(7, 4, 7, 6)]],
+                    ['f2', [Range.create(8, 4, 8, 6)]],
+                    ['f3', [Range.create(9, 4, 9, 6)]]
+                ]
+            )
+        })
+
+        it('should not report calls which cannot be resolved', async () => {
+            const f3Item = (await callHierarchyProvider.handlePrepareCallHierarchy(
+                { textDocument: { uri: URI }, position: Position.create(11, 14) }, documentManager
+            ))![0]
+
+            const result = await callHierarchyProvider.handleOutgoingCalls({ item: f3Item })
+
+            assert.deepStrictEqual(result.map(call => call.to.name), ['f3'])
+        })
+    })
+})
@@ -0,0 +1,109 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { CodeLens, Location, Range, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import CodeLensProvider, { SHOW_REFERENCES_COMMAND } from '../../../src/providers/codeLens/CodeLensProvider'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('CodeLensProvider', () => {
+    const resourceFilePathPrefix = '../../indexing/rawCodeDataResourceFiles'
+
+    let F_3_rawCodeData: CodeInfo
+    let MyClass_rawCodeData: CodeInfo
+
+    let fileInfoIndex: FileInfoIndex
+    let documentManager: TextDocuments<TextDocument>
+    let codeLensProvider: CodeLensProvider
+
+    const getResolvedCodeLenses = async (uri: string): Promise<CodeLens[]> => {
+        sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, ''))
+
+        const codeLenses = await codeLensProvider.handleCodeLensRequest({ textDocument: { uri } }, documentManager)
+
+        return codeLenses.map(codeLens => codeLensProvider.handleCodeLensResolveRequest(codeLens))
+    }
+
+    before(() => {
+        F_3_rawCodeData = require(`${resourceFilePathPrefix}/improvedCodeAnalysisSpecCases/functionCases/F_3.json`)
+        MyClass_rawCodeData = require(`${resourceFilePathPrefix}/@MyClass/MyClass.json`)
+    })
+
+    beforeEach(() => {
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, getMockMvm(), fileInfoIndex)
+        const documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+        documentManager = new TextDocuments(TextDocument)
+        codeLensProvider = new CodeLensProvider(documentIndexer, fileInfoIndex)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#handleCodeLensRequest', () => {
+        it('should create unresolved code lenses for each function', async () => {
+            const uri = 'file:///path/to/F_3.m'
+            fileInfoIndex.parseAndStoreCodeInfo(uri, F_3_rawCodeData)
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, ''))
+
+            const result = await codeLensProvider.handleCodeLensRequest({ textDocument: { uri } }, documentManager)
+
+            assert.deepStrictEqual(result.map(codeLens => codeLens.range).sort((a, b) => a.start.line - b.start.line), [
+                Range.create(0, 9, 0, 11), // f1
+                Range.create(6, 9, 6, 11), // f2
+                Range.create(11, 13, 11, 15) // f3
+            ])
+            assert.ok(result.every(codeLens => codeLens.command == null))
+        })
+
+        it('should return no code lenses when the document has not been indexed', async () => {
+            const result = await getResolvedCodeLenses('file:///path/to/F_3.m')
+
+            assert.deepStrictEqual(result, [])
+        })
+    })
+
+    describe('#handleCodeLensResolveRequest', () => {
+        it('should count references, excluding declarations', async () => {
+            const uri = 'file:///path/to/F_3.m'
+            fileInfoIndex.parseAndStoreCodeInfo(uri, F_3_rawCodeData)
+
+            const result = await getResolvedCodeLenses(uri)
+            const f1CodeLens = result.find(codeLens => codeLens.range.start.line === 0)!
+
+            assert.deepStrictEqual(f1CodeLens.command, {
+                title: '2 references',
+                command: SHOW_REFERENCES_COMMAND,
+                arguments: [uri, f1CodeLens.range.start, [
+                    Location.create(uri, Range.create(4, 0, 4, 2)),
+                    Location.create(uri, Range.create(7, 4, 7, 6))
+                ].sort((a, b) => a.range.start.line - b.range.start.line)]
+            })
+        })
+
+        it('should count references for classes, methods, and properties blocks', async () => {
+            const uri = 'file:///path/to/%40MyClass/MyClass.m'
+            fileInfoIndex.parseAndStoreCodeInfo(uri, MyClass_rawCodeData)
+
+            const result = await getResolvedCodeLenses(uri)
+
+            assert.deepStrictEqual(result.map(codeLens => [codeLens.range.start.line, codeLens.command?.title]), [
+                [0, '0 references'], // classdef MyClass
+                [1, '0 references'], // properties
+                [5, '0 references'], // properties (Constant)
+                [18, '0 references'] // function myMethod(obj)
+            ])
+        })
+    })
+})
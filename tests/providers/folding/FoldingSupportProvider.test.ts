@@ -0,0 +1,166 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+
+import getMockMvm from '../../mocks/Mvm.mock'
+
+import FoldingSupportProvider from '../../../src/providers/folding/FoldingSupportProvider'
+import { getOfflineFoldingRanges } from '../../../src/providers/folding/OfflineFolding'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { FoldingRange, FoldingRangeKind, FoldingRangeParams, TextDocuments } from 'vscode-languageserver'
+
+/**
+ * Gets the start and end lines of each folding range
+ */
+function getLines (foldingRanges: FoldingRange[] | null): Array<[number, number]> {
+    return (foldingRanges ?? []).map(range => [range.startLine, range.endLine])
+}
+
+describe('FoldingSupportProvider', () => {
+    const CODE = [
+        'function y = test(x)', // 0
+        '    if x > 0', // 1
+        '        y = x;', // 2
+        '    else', // 3
+        '        y = -x;', // 4
+        '    end', // 5
+        'end' // 6
+    ].join('\n')
+
+    let foldingSupportProvider: FoldingSupportProvider
+    let matlabLifecycleManager: MatlabLifecycleManager
+    let documentManager: TextDocuments<TextDocument>
+    let mockMvm: any
+    let settings: Partial<Settings>
+
+    const params = { textDocument: { uri: 'file:///test.m' } } as FoldingRangeParams
+
+    beforeEach(() => {
+        matlabLifecycleManager = new MatlabLifecycleManager()
+        mockMvm = getMockMvm()
+        foldingSupportProvider = new FoldingSupportProvider(matlabLifecycleManager, mockMvm)
+        documentManager = new TextDocuments(TextDocument)
+
+        settings = { offlineFolding: false }
+        sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => settings as Settings)
+        sinon.stub(documentManager, 'get').returns(TextDocument.create('file:///test.m', 'matlab', 1, CODE))
+        sinon.stub(matlabLifecycleManager, 'getMatlabRelease').returns('R2025a')
+        mockMvm.isReady.returns(true)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#handleFoldingRangeRequest', () => {
+        it('should get folding ranges from MATLAB when it is available', async () => {
+            mockMvm.feval.resolves({ result: [[[1, 7, 2, 6]]] })
+
+            const foldingRanges = await foldingSupportProvider.handleFoldingRangeRequest(params, documentManager)
+
+            assert.deepStrictEqual(getLines(foldingRanges), [[0, 6], [1, 5]])
+        })
+
+        it('should compute folding ranges offline when MATLAB is not available', async () => {
+            mockMvm.isReady.returns(false)
+
+            const foldingRanges = await foldingSupportProvider.handleFoldingRangeRequest(params, documentManager)
+
+            sinon.assert.notCalled(mockMvm.feval)
+            assert.deepStrictEqual(getLines(foldingRanges), [[0, 6], [1, 5]])
+        })
+
+        it('should compute folding ranges offline when MATLAB returns an error', async () => {
+            mockMvm.feval.resolves({ error: { msg: 'error' } })
+
+            const foldingRanges = await foldingSupportProvider.handleFoldingRangeRequest(params, documentManager)
+
+            assert.deepStrictEqual(getLines(foldingRanges), [[0, 6], [1, 5]])
+        })
+
+        it('should compute folding ranges offline when the setting is enabled', async () => {
+            settings.offlineFolding = true
+
+            const foldingRanges = await foldingSupportProvider.handleFoldingRangeRequest(params, documentManager)
+
+            sinon.assert.notCalled(mockMvm.feval)
+            assert.deepStrictEqual(getLines(foldingRanges), [[0, 6], [1, 5]])
+        })
+    })
+
+    describe('#getOfflineFoldingRanges', () => {
+        it('should fold class blocks', () => {
+            const code = [
+                'classdef MyClass < handle', // 0
+                '    properties (Access = private)', // 1
+                '        Value', // 2
+                '    end', // 3
+                '    methods', // 4
+                '        function obj = MyClass(x)', // 5
+                '            obj.Value = x(end);', // 6
+                '        end', // 7
+                '    end', // 8
+                'end' // 9
+            ].join('\n')
+
+            assert.deepStrictEqual(getLines(getOfflineFoldingRanges(code)), [[0, 9], [1, 3], [4, 8], [5, 7]])
+        })
+
+        it('should fold arguments blocks and loops', () => {
+            const code = [
+                'function f(x)', // 0
+                '    arguments', // 1
+                '        x double', // 2
+                '    end', // 3
+                '    for i = 1:x, disp(i), end', // 4
+                '    while true', // 5
+                '        break', // 6
+                '    end', // 7
+                'end' // 8
+            ].join('\n')
+
+            assert.deepStrictEqual(getLines(getOfflineFoldingRanges(code)), [[0, 8], [1, 3], [5, 7]])
+        })
+
+        it('should fold functions which are not terminated by "end"', () => {
+            const code = [
+                'function a()', // 0
+                '    if true', // 1
+                '        disp(1)', // 2
+                '    end', // 3
+                '', // 4
+                'function b()', // 5
+                '    disp(2)' // 6
+            ].join('\n')
+
+            assert.deepStrictEqual(getLines(getOfflineFoldingRanges(code)), [[0, 3], [1, 3], [5, 6]])
+        })
+
+        it('should fold sections and comments', () => {
+            const code = [
+                '%% Section 1', // 0
+                '% Comment 1', // 1
+                '% Comment 2', // 2
+                'x = 1;', // 3
+                '', // 4
+                '%% Section 2', // 5
+                '%{', // 6
+                'if', // 7
+                '%}', // 8
+                'y = 2;' // 9
+            ].join('\n')
+
+            const foldingRanges = getOfflineFoldingRanges(code)
+
+            assert.deepStrictEqual(foldingRanges.map(range => [range.startLine, range.endLine, range.kind]), [
+                [0, 3, FoldingRangeKind.Region],
+                [1, 2, FoldingRangeKind.Comment],
+                [5, 9, FoldingRangeKind.Region],
+                [6, 8, FoldingRangeKind.Comment]
+            ])
+        })
+    })
+})
@@ -1,4 +1,4 @@
-// Copyright 2024 - 2025 The MathWorks, Inc.
+// Copyright 2024 - 2026 The MathWorks, Inc.
 import assert from 'assert'
 import sinon from 'sinon'
 
@@ -6,11 +6,14 @@ import getMockConnection from '../../mocks/Connection.mock'
 import getMockMvm from '../../mocks/Mvm.mock'
 
 import FormatSupportProvider from '../../../src/providers/formatting/FormatSupportProvider'
+import { applyFormattingRules, formatCodeOffline, OfflineFormattingOptions } from '../../../src/providers/formatting/OfflineFormatting'
 import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
 import ClientConnection from '../../../src/ClientConnection'
+import { Notification } from '../../../src/notifications/NotificationService'
 
 import { TextDocument } from 'vscode-languageserver-textdocument'
-import { _Connection, DocumentFormattingParams, DocumentRangeFormattingParams, Range, TextDocuments, TextEdit } from 'vscode-languageserver'
+import { _Connection, DocumentFormattingParams, DocumentOnTypeFormattingParams, DocumentRangeFormattingParams, Position, Range, TextDocuments, TextEdit } from 'vscode-languageserver'
 
 describe('FormatSupportProvider', () => {
     let formatSupportProvider: FormatSupportProvider
@@ -84,6 +87,48 @@ describe('FormatSupportProvider', () => {
             assert.deepEqual(textEdit.range, Range.create(0, 0, 2, 3), 'TextEdit should replace the entire document')
             assert.equal(textEdit.newText, formattedCode, 'TextEdit should contain the formatted code')
         })
+
+        it('should format the document without MATLAB when it is not available', async () => {
+            (matlabLifecycleManager.getMatlabConnection as sinon.SinonStub).returns(null)
+
+            const res = await formatSupportProvider.handleDocumentFormatRequest(mockParams, documentManager)
+
+            sinon.assert.notCalled(mockMvm.feval)
+            assert.deepEqual(res, [TextEdit.replace(Range.create(0, 0, 2, 3), 'function y = test(x)\n    y = x + 1;\nend')])
+        })
+
+        it('should format the document without MATLAB when MATLAB returns an error', async () => {
+            mockMvm.feval.resolves({ error: { msg: 'error' } })
+
+            const res = await formatSupportProvider.handleDocumentFormatRequest(mockParams, documentManager)
+
+            assert.deepEqual(res, [TextEdit.replace(Range.create(0, 0, 2, 3), 'function y = test(x)\n    y = x + 1;\nend')])
+        })
+
+        it('should apply the formatting settings to code formatted by MATLAB', async () => {
+            sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => ({
+                formatFunctionIndent: 'classic', formatOperatorSpacing: true, formatMaxLineLength: 0
+            }) as Settings)
+            mockMvm.feval.resolves({ result: ['function y = test(x)\ny=x+1;\nend'] })
+
+            const res = await formatSupportProvider.handleDocumentFormatRequest(mockParams, documentManager)
+
+            const [, , [, , , requestOpts]] = mockMvm.feval.firstCall.args
+            assert.strictEqual(requestOpts.functionIndent, 'classic')
+            assert.deepEqual(res, [TextEdit.replace(Range.create(0, 0, 2, 3), 'function y = test(x)\ny = x + 1;\nend')])
+        })
+
+        it('should format the document without MATLAB when the setting is enabled', async () => {
+            sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => ({
+                offlineFormatting: true, formatFunctionIndent: 'all', formatMaxLineLength: 0
+            }) as Settings)
+
+            const res = await formatSupportProvider.handleDocumentFormatRequest(mockParams, documentManager)
+
+            sinon.assert.notCalled(matlabLifecycleManager.getMatlabConnection as sinon.SinonStub)
+            sinon.assert.notCalled(mockMvm.feval)
+            assert.deepEqual(res, [TextEdit.replace(Range.create(0, 0, 2, 3), 'function y = test(x)\n    y = x + 1;\nend')])
+        })
     })
 
     describe('#handleDocumentRangeFormatRequest', () => {
@@ -152,5 +197,314 @@ describe('FormatSupportProvider', () => {
             assert.deepEqual(textEdit.range, Range.create(2, 0, 3, 6), 'TextEdit should not include line 4')
             assert.equal(textEdit.newText, formattedLines, 'TextEdit should contain the formatted lines')
         })
+
+        it('should replace the formatted lines when formatting changes the number of lines', async () => {
+            sinon.stub(formatSupportProvider as any, 'getFormattedText').returns('if true\nif true\n    x = 1;\n\n    %% Section\n    y = 2;\nend\nend')
+
+            const res = await formatSupportProvider.handleDocumentRangeFormatRequest(mockParams, documentManager)
+
+            assert.deepEqual(res, [TextEdit.replace(Range.create(2, 0, 4, 3), '    x = 1;\n\n    %% Section\n    y = 2;\nend')])
+        })
+
+        it('should format the lines without MATLAB when it is not available', async () => {
+            (matlabLifecycleManager.getMatlabConnection as sinon.SinonStub).returns(null)
+
+            const res = await formatSupportProvider.handleDocumentRangeFormatRequest(mockParams, documentManager)
+
+            assert.deepEqual(res, [TextEdit.replace(Range.create(2, 0, 4, 3), '        x = 1;\n        y = 2;\n    end')])
+        })
+    })
+
+    describe('#handleDocumentOnTypeFormatRequest', () => {
+        afterEach(() => teardown())
+
+        /**
+         * Creates parameters for a request to format the document after typing a character
+         */
+        const getParams = (ch: string, position: Position): DocumentOnTypeFormattingParams => ({
+            textDocument: { uri: 'file:///test.m' },
+            options: { insertSpaces: true, tabSize: 4 },
+            position,
+            ch
+        })
+
+        it('should re-indent the line when a keyword ending a block is typed', async () => {
+            setup('if true\n    x = 1;\n    end')
+            mockMvm.isReady.returns(false)
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('d', Position.create(2, 7)), documentManager)
+
+            assert.deepEqual(res, [TextEdit.replace(Range.create(2, 0, 2, 4), '')])
+        })
+
+        it('should re-indent the line when a keyword dividing a block is typed', async () => {
+            setup('switch x\n    case 1\n        y = 1;\n        otherwise')
+            mockMvm.isReady.returns(false)
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('e', Position.create(3, 17)), documentManager)
+
+            assert.deepEqual(res, [TextEdit.replace(Range.create(3, 0, 3, 8), '    ')])
+        })
+
+        it('should indent a new line after a block opener', async () => {
+            setup('function f()\n    if true\n')
+            mockMvm.isReady.returns(false)
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('\n', Position.create(2, 0)), documentManager)
+
+            sinon.assert.notCalled(mockMvm.feval)
+            assert.deepEqual(res, [TextEdit.replace(Range.create(2, 0, 2, 0), '        ')])
+        })
+
+        it('should not format the line when other words are typed', async () => {
+            setup('if true\n    x = value')
+            mockMvm.isReady.returns(false)
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('e', Position.create(1, 13)), documentManager)
+
+            assert.deepEqual(res, [])
+        })
+
+        it('should format the line with MATLAB when it is connected', async () => {
+            setup('if true\n    x = 1;\n    end')
+            mockMvm.isReady.returns(true)
+            const getFormattedTextStub = sinon.stub(formatSupportProvider as any, 'getFormattedText').returns('if true\n    x = 1;\nend')
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('d', Position.create(2, 7)), documentManager)
+
+            sinon.assert.calledWith(getFormattedTextStub, 'if true\n    x = 1;\n    end', 2, 2)
+            assert.deepEqual(res, [TextEdit.replace(Range.create(2, 0, 2, 7), 'end')])
+        })
+
+        it('should not report range formatting telemetry when formatting with MATLAB', async () => {
+            setup('if true\n    x = 1;\n    end')
+            mockMvm.isReady.returns(true)
+            sinon.stub(formatSupportProvider as any, 'getFormattedText').returns('if true\n    x = 1;\nend')
+            const sendNotificationStub = ClientConnection.getConnection().sendNotification as sinon.SinonStub
+            sendNotificationStub.resetHistory()
+
+            await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('d', Position.create(2, 7)), documentManager)
+
+            sinon.assert.neverCalledWith(sendNotificationStub, Notification.LogTelemetryData)
+        })
+
+        it('should not format the line when a keyword is typed within brackets', async () => {
+            setup('x = [1\n    end')
+            mockMvm.isReady.returns(false)
+
+            const res = await formatSupportProvider.handleDocumentOnTypeFormatRequest(getParams('d', Position.create(1, 7)), documentManager)
+
+            assert.deepEqual(res, [])
+        })
+    })
+
+    describe('#formatCodeOffline', () => {
+        const options: OfflineFormattingOptions = {
+            tabSize: 4,
+            insertSpaces: true,
+            functionIndent: 'all',
+            operatorSpacing: false,
+            commaSpacing: false,
+            sectionBlankLines: false,
+            removeTrailingWhitespace: false,
+            maxLineLength: 0
+        }
+
+        /**
+         * Formats all lines of the given code without MATLAB
+         */
+        const format = (lines: string[], formattingOptions = options): string[] => {
+            return formatCodeOffline(lines.join('\n'), 0, lines.length - 1, formattingOptions).split('\n')
+        }
+
+        it('should indent blocks and their dividers', () => {
+            const code = [
+                'function y = test(x)',
+                'if x > 0',
+                'y = x;',
+                'elseif x < 0',
+                '      y = -x;',
+                '  else',
+                'switch x',
+                'case 0',
+                '% Comment',
+                'y = 0;',
+                'otherwise',
+                'try, y = 1; catch, end',
+                'end',
+                'end',
+                '',
+                '    function nested()',
+                'end',
+                'end'
+            ]
+
+            assert.deepStrictEqual(format(code), [
+                'function y = test(x)',
+                '    if x > 0',
+                '        y = x;',
+                '    elseif x < 0',
+                '        y = -x;',
+                '    else',
+                '        switch x',
+                '            case 0',
+                '                % Comment',
+                '                y = 0;',
+                '            otherwise',
+                '                try, y = 1; catch, end',
+                '        end',
+                '    end',
+                '',
+                '    function nested()',
+                '    end',
+                'end'
+            ])
+        })
+
+        it('should indent class blocks, continuation lines, and functions without "end"', () => {
+            assert.deepStrictEqual(format([
+                'classdef MyClass',
+                'properties (Constant)',
+                'Values = [1, 2',
+                '3, 4];',
+                'end',
+                'end'
+            ]), [
+                'classdef MyClass',
+                '    properties (Constant)',
+                '        Values = [1, 2',
+                '            3, 4];',
+                '    end',
+                'end'
+            ])
+
+            assert.deepStrictEqual(format([
+                'function a()',
+                'x = 1 + ...',
+                '2;',
+                'function b()',
+                'disp(1)'
+            ], { ...options, tabSize: 2 }), [
+                'function a()',
+                '  x = 1 + ...',
+                '    2;',
+                'function b()',
+                '  disp(1)'
+            ])
+        })
+
+        it('should indent with tabs and not change the contents of block comments', () => {
+            assert.deepStrictEqual(format([
+                'if true',
+                '%{',
+                '  Comment',
+                '%}',
+                'end'
+            ], { ...options, insertSpaces: false }), [
+                'if true',
+                '\t%{',
+                '  Comment',
+                '\t%}',
+                'end'
+            ])
+        })
+
+        it('should only format the specified lines', () => {
+            const code = 'if true\nif true\nx = 1;\nend\nend'
+
+            assert.strictEqual(formatCodeOffline(code, 2, 3, options), 'if true\nif true\n        x = 1;\n    end\nend')
+        })
+
+        it('should normalize the spacing around operators and commas when enabled', () => {
+            const spacingOptions = { ...options, operatorSpacing: true, commaSpacing: true }
+
+            assert.deepStrictEqual(format([
+                'y=f(a ,b,Name=-1)+x\'*2;  % Comment',
+                'z = [1 -2,3];',
+                'if x==1||~y, end',
+                'cd ../folder'
+            ], spacingOptions), [
+                'y = f(a, b, Name=-1) + x\' * 2;  % Comment',
+                'z = [1 -2, 3];',
+                'if x == 1 || ~y, end',
+                'cd ../folder'
+            ])
+        })
+
+        it('should indent function bodies according to the function indentation mode', () => {
+            const code = [
+                'function a()',
+                'x = 1;',
+                'function b()',
+                'y = 2;',
+                'end',
+                'end'
+            ]
+
+            assert.deepStrictEqual(format(code, { ...options, functionIndent: 'nested' }), [
+                'function a()',
+                'x = 1;',
+                'function b()',
+                '    y = 2;',
+                'end',
+                'end'
+            ])
+            assert.deepStrictEqual(format(code, { ...options, functionIndent: 'classic' }), code)
+            assert.deepStrictEqual(format(code, { ...options, functionIndent: 'none' }), code)
+        })
+
+        it('should normalize blank lines around sections and remove trailing whitespace', () => {
+            const code = [
+                '%% Setup',
+                '',
+                'x = 1;  ',
+                '%% Compute  ',
+                'y = 2;',
+                '',
+                '',
+                '%% Plot',
+                'plot(x, y)'
+            ]
+
+            assert.deepStrictEqual(format(code, { ...options, sectionBlankLines: true, removeTrailingWhitespace: true }), [
+                '%% Setup',
+                'x = 1;',
+                '',
+                '%% Compute',
+                'y = 2;',
+                '',
+                '%% Plot',
+                'plot(x, y)'
+            ])
+        })
+
+        it('should split lines which are longer than the maximum line length', () => {
+            const code = [
+                'if true',
+                'y = someFunction(alpha, beta, gamma, delta);',
+                'z = [alpha, beta, gamma, delta, epsilon] + zeta;',
+                '% A long comment which is not split by the formatter',
+                'end'
+            ]
+
+            assert.deepStrictEqual(format(code, { ...options, maxLineLength: 36 }), [
+                'if true',
+                '    y = someFunction(alpha, ...',
+                '        beta, gamma, delta);',
+                '    z = [alpha, beta, gamma, ...',
+                '        delta, epsilon] + zeta;',
+                '    % A long comment which is not split by the formatter',
+                'end'
+            ])
+        })
+
+        it('should apply the formatting rules to code indented by MATLAB', () => {
+            const indentedCode = 'if true\n    x=1;  \n    y = 1;\nend'
+
+            assert.strictEqual(
+                applyFormattingRules(indentedCode, 1, 1, { ...options, operatorSpacing: true, removeTrailingWhitespace: true }),
+                'if true\n    x = 1;\n    y = 1;\nend'
+            )
+        })
     })
 })
@@ -1,4 +1,4 @@
-// Copyright 2025 The MathWorks, Inc.
+// Copyright 2025 - 2026 The MathWorks, Inc.
 
 import assert from 'assert'
 import sinon from 'sinon'
@@ -146,14 +146,22 @@ describe('HighlightSymbolProvider', () => {
             }
         }
 
-        it('should return null if there is no MATLAB connection', async () => {
+        it('should return highlights if there is no MATLAB connection', async () => {
             (matlabLifecycleManager.getMatlabConnection as sinon.SinonStub).resolves(null)
+            setFindReferencesAndDefinitionsStub(() => ({
+                references: [locationCurrentFileRange1],
+                definitions: []
+            }))
 
             const res = await highlightSymbolProvider.handleDocumentHighlightRequest(
                 mockParams, documentManager
             )
 
-            assert.strictEqual(res, null, 'Result should be null when there is no MATLAB connection')
+            assert.ok(res instanceof Array, 'Result should be an array')
+            assert.deepStrictEqual(
+                res.map(highlight => highlight.range), [range1],
+                'Highlights should be computed from the index when there is no MATLAB connection'
+            )
         })
 
         it('should return empty array of highlights if there is no document at the given URI', async () => {
@@ -0,0 +1,123 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { InlayHint, Range, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+import InlayHintProvider from '../../../src/providers/inlayHints/InlayHintProvider'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('InlayHintProvider', () => {
+    const URI = 'file:///path/to/F_1.m'
+    const CODE = [
+        'function [x, y] = fun(a, b, varargin)',
+        'end',
+        '',
+        '[p, y] = fun(1, b, 3, 4);'
+    ].join('\n')
+
+    let F_1_rawCodeData: CodeInfo
+
+    let fileInfoIndex: FileInfoIndex
+    let documentManager: TextDocuments<TextDocument>
+    let inlayHintProvider: InlayHintProvider
+
+    /**
+     * Creates code data matching CODE, based on the code data for F_1.m:
+     *
+     *   function fun()
+     *   end
+     *
+     *   fun();
+     */
+    const createCodeData = (): CodeInfo => {
+        const rawCodeData: CodeInfo = JSON.parse(JSON.stringify(F_1_rawCodeData))
+        const functionScope = rawCodeData.globalScope.functionScopes[0]
+        const reference = rawCodeData.globalScope.functionOrUnboundReferences[0]
+
+        functionScope.declarationNameId.range = [0, 18, 0, 21]
+        functionScope.range = [0, 0, 1, 3]
+        functionScope.inputArgs = ['a', 'b', 'varargin']
+        functionScope.outputArgs = ['x', 'y']
+        reference.range = [3, 9, 3, 12]
+        reference.components[0].range = [3, 9, 3, 12]
+
+        return rawCodeData
+    }
+
+    const getHints = async (outputNameInlayHints: boolean, range = Range.create(0, 0, 4, 0)): Promise<Array<Partial<InlayHint>>> => {
+        sinon.stub(ConfigurationManager, 'getConfiguration').resolves({ outputNameInlayHints } as Settings)
+
+        const result = await inlayHintProvider.handleInlayHintRequest({ textDocument: { uri: URI }, range }, documentManager)
+
+        return result.map(hint => ({ position: hint.position, label: hint.label }))
+    }
+
+    before(() => {
+        F_1_rawCodeData = require('../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases/functionCases/F_1.json')
+    })
+
+    beforeEach(() => {
+        const mockMvm = getMockMvm()
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+        const documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+        documentManager = new TextDocuments(TextDocument)
+        sinon.stub(documentManager, 'get').returns(TextDocument.create(URI, 'matlab', 1, CODE))
+
+        inlayHintProvider = new InlayHintProvider(documentIndexer, fileInfoIndex, indexer, new PathResolver(mockMvm))
+
+        fileInfoIndex.parseAndStoreCodeInfo(URI, createCodeData())
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#handleInlayHintRequest', () => {
+        it('should name arguments up to varargin, except those matching the parameter name', async () => {
+            const result = await getHints(false)
+
+            assert.deepStrictEqual(result, [
+                { position: { line: 3, character: 13 }, label: 'a:' }
+            ])
+        })
+
+        it('should name outputs when enabled', async () => {
+            const result = await getHints(true)
+
+            assert.deepStrictEqual(result, [
+                { position: { line: 3, character: 1 }, label: 'x:' },
+                { position: { line: 3, character: 13 }, label: 'a:' }
+            ])
+        })
+
+        it('should only return hints within the requested range', async () => {
+            const result = await getHints(true, Range.create(0, 0, 2, 0))
+
+            assert.deepStrictEqual(result, [])
+        })
+
+        it('should return no hints when the document has not been indexed', async () => {
+            fileInfoIndex.codeInfoCache.clear()
+            sinon.stub(ConfigurationManager, 'getConfiguration').resolves({ outputNameInlayHints: true } as Settings)
+
+            const result = await inlayHintProvider.handleInlayHintRequest(
+                { textDocument: { uri: URI }, range: Range.create(0, 0, 4, 0) }, documentManager
+            )
+
+            assert.deepStrictEqual(result, [])
+        })
+    })
+})
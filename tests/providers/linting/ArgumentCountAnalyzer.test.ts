@@ -0,0 +1,136 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { URI } from 'vscode-uri'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import ArgumentCountAnalyzer, { TOO_MANY_INPUTS_ID, TOO_MANY_OUTPUTS_ID } from '../../../src/providers/linting/ArgumentCountAnalyzer'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('ArgumentCountAnalyzer', () => {
+    const CALLER_URI = 'file:///path/to/caller.m'
+    const CALLER_CODE = [
+        'y = fun(1, 2, 3);',
+        '[p, q] = fun(1);',
+        'z = fun(c{:});'
+    ].join('\n')
+
+    let F_1_rawCodeData: CodeInfo
+
+    let folder: string
+    let calleeUri: string
+    let fileInfoIndex: FileInfoIndex
+    let analyzer: ArgumentCountAnalyzer
+
+    /**
+     * Creates code data for the callee, based on the code data for F_1.m:
+     *
+     *   function x = fun(a, b)
+     *   end
+     */
+    const createCalleeCodeData = (inputArgs: string[]): CodeInfo => {
+        const rawCodeData: CodeInfo = JSON.parse(JSON.stringify(F_1_rawCodeData))
+        const functionScope = rawCodeData.globalScope.functionScopes[0]
+
+        functionScope.declarationNameId.range = [0, 13, 0, 16]
+        functionScope.range = [0, 0, 2, 3]
+        functionScope.inputArgs = inputArgs
+        functionScope.outputArgs = ['x']
+        functionScope.isPublic = true
+        rawCodeData.globalScope.functionOrUnboundReferences = []
+
+        return rawCodeData
+    }
+
+    /**
+     * Creates code data matching CALLER_CODE, which calls the function on each line
+     */
+    const createCallerCodeData = (): CodeInfo => {
+        const rawCodeData: CodeInfo = JSON.parse(JSON.stringify(F_1_rawCodeData))
+        const reference = rawCodeData.globalScope.functionOrUnboundReferences[0]
+
+        rawCodeData.globalScope.functionScopes = []
+        rawCodeData.globalScope.functionOrUnboundReferences = [[0, 4, 0, 7], [1, 9, 1, 12], [2, 4, 2, 7]].map(range => ({
+            ...reference,
+            components: [{ name: 'fun', range }],
+            range
+        }))
+
+        return rawCodeData
+    }
+
+    before(() => {
+        F_1_rawCodeData = require('../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases/functionCases/F_1.json')
+    })
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+        const calleePath = path.join(folder, 'fun.m')
+        fs.writeFileSync(calleePath, 'function x = fun(a, b)\nx = a + b;\nend')
+        calleeUri = URI.file(calleePath).toString()
+
+        const mockMvm = getMockMvm()
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+        const documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+        const pathResolver = new PathResolver(mockMvm)
+
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+        sinon.stub(pathResolver, 'resolvePath').resolves(calleeUri)
+
+        analyzer = new ArgumentCountAnalyzer(documentIndexer, fileInfoIndex, indexer, pathResolver)
+
+        fileInfoIndex.parseAndStoreCodeInfo(CALLER_URI, createCallerCodeData())
+        fileInfoIndex.parseAndStoreCodeInfo(calleeUri, createCalleeCodeData(['a', 'b']))
+    })
+
+    afterEach(() => {
+        sinon.restore()
+        fs.rmSync(folder, { recursive: true, force: true })
+    })
+
+    describe('#analyze', () => {
+        it('should report calls with too many inputs or outputs', async () => {
+            const diagnostics = await analyzer.analyze(CALLER_URI, CALLER_CODE)
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line]), [
+                [TOO_MANY_INPUTS_ID, 0],
+                [TOO_MANY_OUTPUTS_ID, 1]
+            ])
+            assert.strictEqual(diagnostics[0].message, 'Too many input arguments. \'fun\' accepts at most 2 input(s), but 3 are passed.')
+            assert.strictEqual(diagnostics[0].relatedInformation?.[0].location.uri, calleeUri)
+        })
+
+        it('should not report calls to functions accepting a variable number of arguments', async () => {
+            fileInfoIndex.parseAndStoreCodeInfo(calleeUri, createCalleeCodeData(['a', 'varargin']))
+
+            const diagnostics = await analyzer.analyze(CALLER_URI, CALLER_CODE)
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), [TOO_MANY_OUTPUTS_ID])
+        })
+
+        it('should not report inputs for functions accepting name-value arguments', async () => {
+            fs.writeFileSync(path.join(folder, 'fun.m'), 'function x = fun(opts)\narguments\n    opts.Name\nend\nend')
+            fileInfoIndex.parseAndStoreCodeInfo(calleeUri, createCalleeCodeData(['opts']))
+
+            const diagnostics = await analyzer.analyze(CALLER_URI, CALLER_CODE)
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), [TOO_MANY_OUTPUTS_ID])
+        })
+
+        it('should not report calls when the index does not match the code', async () => {
+            const diagnostics = await analyzer.analyze(CALLER_URI, `% Comment\n${CALLER_CODE}`)
+
+            assert.deepStrictEqual(diagnostics, [])
+        })
+    })
+})
@@ -0,0 +1,147 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import getMockConnection from '../../mocks/Connection.mock'
+
+import BackgroundLinter from '../../../src/providers/linting/BackgroundLinter'
+import LintingSupportProvider from '../../../src/providers/linting/LintingSupportProvider'
+import MVMServer from '../../../src/mvm/MVMServer'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+import ClientConnection from '../../../src/ClientConnection'
+
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { FileChangeType, TextDocuments } from 'vscode-languageserver'
+import { URI } from 'vscode-uri'
+
+describe('BackgroundLinter', () => {
+    let workspaceFolder: string
+    let settings: Partial<Settings>
+    let documentManager: TextDocuments<TextDocument>
+    let lintFileStub: sinon.SinonStub
+    let clearDiagnosticsStub: sinon.SinonStub
+    let isUserInteractingStub: sinon.SinonStub
+    let backgroundLinter: BackgroundLinter
+    let clock: sinon.SinonFakeTimers
+
+    const getUri = (fileName: string): string => URI.file(path.join(workspaceFolder, fileName)).toString()
+
+    beforeEach(() => {
+        workspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+        fs.writeFileSync(path.join(workspaceFolder, 'a.m'), 'a = 1;')
+        fs.writeFileSync(path.join(workspaceFolder, 'b.m'), 'b = 1;')
+
+        const mockConnection = getMockConnection()
+        mockConnection.workspace = { getWorkspaceFolders: sinon.stub().resolves([{ uri: URI.file(workspaceFolder).toString(), name: 'folder' }]) }
+        ClientConnection._setConnection(mockConnection)
+
+        settings = { backgroundLinting: true }
+        sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => settings as Settings)
+
+        const lintingSupportProvider = { lintFile: sinon.stub().resolves(), clearDiagnosticsForFile: sinon.stub() } as unknown as LintingSupportProvider
+        lintFileStub = lintingSupportProvider.lintFile as sinon.SinonStub
+        clearDiagnosticsStub = lintingSupportProvider.clearDiagnosticsForFile as sinon.SinonStub
+        const mvmServer = { isUserInteracting: sinon.stub().returns(false) } as unknown as MVMServer
+        isUserInteractingStub = mvmServer.isUserInteracting as sinon.SinonStub
+
+        documentManager = new TextDocuments(TextDocument)
+        backgroundLinter = new BackgroundLinter(lintingSupportProvider, mvmServer, documentManager)
+
+        clock = sinon.useFakeTimers()
+    })
+
+    afterEach(() => {
+        clock.restore()
+        sinon.restore()
+        ClientConnection._clearConnection()
+        fs.rmSync(workspaceFolder, { recursive: true, force: true })
+    })
+
+    describe('#lintWorkspace', () => {
+        it('should lint each file in the workspace, one at a time', async () => {
+            await backgroundLinter.lintWorkspace()
+            await clock.tickAsync(0)
+
+            sinon.assert.calledOnce(lintFileStub)
+
+            await clock.tickAsync(1000)
+
+            sinon.assert.calledTwice(lintFileStub)
+            assert.deepStrictEqual(lintFileStub.args.map(args => args[0]).sort(), [getUri('a.m'), getUri('b.m')])
+        })
+
+        it('should not lint open files', async () => {
+            sinon.stub(documentManager, 'get').callsFake(uri => uri === getUri('a.m') ? TextDocument.create(uri, 'matlab', 1, 'a = 1;') : undefined)
+
+            await backgroundLinter.lintWorkspace()
+            await clock.tickAsync(1000)
+
+            sinon.assert.calledOnceWithExactly(lintFileStub, getUri('b.m'))
+        })
+
+        it('should not lint files when background linting is disabled', async () => {
+            settings.backgroundLinting = false
+
+            await backgroundLinter.lintWorkspace()
+            await clock.tickAsync(1000)
+
+            sinon.assert.notCalled(lintFileStub)
+        })
+
+        it('should pause while the user is interacting with MATLAB', async () => {
+            isUserInteractingStub.returns(true)
+
+            await backgroundLinter.lintWorkspace()
+            await clock.tickAsync(10000)
+
+            sinon.assert.notCalled(lintFileStub)
+
+            isUserInteractingStub.returns(false)
+            await clock.tickAsync(10000)
+
+            sinon.assert.calledTwice(lintFileStub)
+        })
+    })
+
+    describe('#handleBackgroundLintingChanged', () => {
+        it('should lint the workspace when background linting is enabled', async () => {
+            await backgroundLinter.handleBackgroundLintingChanged({ backgroundLinting: true } as Settings)
+            await clock.tickAsync(1000)
+
+            sinon.assert.calledTwice(lintFileStub)
+        })
+
+        it('should stop linting and clear diagnostics for closed files when background linting is disabled', async () => {
+            sinon.stub(documentManager, 'get').callsFake(uri => uri === getUri('a.m') ? TextDocument.create(uri, 'matlab', 1, 'a = 1;') : undefined)
+            fs.writeFileSync(path.join(workspaceFolder, 'c.m'), 'c = 1;')
+
+            await backgroundLinter.lintWorkspace()
+            await clock.tickAsync(0)
+            sinon.assert.calledOnce(lintFileStub)
+            const lintedUri = lintFileStub.firstCall.args[0]
+
+            settings.backgroundLinting = false
+            await backgroundLinter.handleBackgroundLintingChanged(settings as Settings)
+            await clock.tickAsync(1000)
+
+            sinon.assert.calledOnce(lintFileStub)
+            sinon.assert.calledOnceWithExactly(clearDiagnosticsStub, lintedUri)
+        })
+    })
+
+    describe('#handleWatchedFilesChanged', () => {
+        it('should lint changed and deleted MATLAB files', async () => {
+            await backgroundLinter.handleWatchedFilesChanged([
+                { uri: getUri('a.m'), type: FileChangeType.Changed },
+                { uri: getUri('deleted.m'), type: FileChangeType.Deleted },
+                { uri: getUri('data.mat'), type: FileChangeType.Created }
+            ])
+            await clock.tickAsync(1000)
+
+            assert.deepStrictEqual(lintFileStub.args.map(args => args[0]), [getUri('a.m'), getUri('deleted.m')])
+        })
+    })
+})
@@ -0,0 +1,163 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { applyLintConfiguration, getConfigurationFilePath, getLintConfiguration, removeDisabledChecks } from '../../../src/providers/linting/CodeAnalyzerConfiguration'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver'
+
+describe('CodeAnalyzerConfiguration', () => {
+    let settings: Partial<Settings>
+
+    beforeEach(() => {
+        settings = { lintDisabledIds: [], lintSeverityOverrides: {} }
+        sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => settings as Settings)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#getLintConfiguration', () => {
+        let rootFolder: string
+
+        const writeConfigurationFile = (folder: string, contents: object): void => {
+            fs.mkdirSync(path.join(folder, 'resources'), { recursive: true })
+            fs.writeFileSync(path.join(folder, 'resources', 'codeAnalyzerConfiguration.json'), JSON.stringify(contents))
+        }
+
+        beforeEach(() => {
+            rootFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+            fs.mkdirSync(path.join(rootFolder, 'sub', 'folder'), { recursive: true })
+            writeConfigurationFile(rootFolder, {
+                checks: {
+                    NOPTS: { enabled: false },
+                    AGROW: { severity: 'error' }
+                }
+            })
+        })
+
+        afterEach(() => {
+            fs.rmSync(rootFolder, { recursive: true, force: true })
+        })
+
+        it('should read the configuration file from the closest parent folder', async () => {
+            const configuration = await getLintConfiguration(path.join(rootFolder, 'sub', 'folder', 'fun.m'))
+
+            assert.deepStrictEqual(configuration, {
+                enabledIds: [],
+                disabledIds: ['NOPTS'],
+                severityOverrides: { AGROW: DiagnosticSeverity.Error }
+            })
+        })
+
+        it('should build on the parent configuration by default', async () => {
+            writeConfigurationFile(path.join(rootFolder, 'sub'), {
+                checks: {
+                    NOPTS: { enabled: true },
+                    NASGU: { enabled: false, severity: 'info' }
+                }
+            })
+
+            const configuration = await getLintConfiguration(path.join(rootFolder, 'sub', 'folder', 'fun.m'))
+
+            assert.deepStrictEqual(configuration, {
+                enabledIds: ['NOPTS'],
+                disabledIds: ['NASGU'],
+                severityOverrides: { AGROW: DiagnosticSeverity.Error, NASGU: DiagnosticSeverity.Information }
+            })
+        })
+
+        it('should not use the parent configuration when based on the factory configuration', async () => {
+            writeConfigurationFile(path.join(rootFolder, 'sub'), {
+                baseConfiguration: 'factory',
+                checks: { NASGU: { severity: 'warning' } }
+            })
+
+            const configuration = await getLintConfiguration(path.join(rootFolder, 'sub', 'fun.m'))
+
+            assert.deepStrictEqual(configuration, {
+                enabledIds: [],
+                disabledIds: [],
+                severityOverrides: { NASGU: DiagnosticSeverity.Warning }
+            })
+        })
+
+        it('should give precedence to settings', async () => {
+            settings = { lintDisabledIds: ['AGROW'], lintSeverityOverrides: { NOPTS: 'hint' } }
+
+            const configuration = await getLintConfiguration(path.join(rootFolder, 'fun.m'))
+
+            assert.deepStrictEqual(configuration, {
+                enabledIds: [],
+                disabledIds: ['NOPTS', 'AGROW'],
+                severityOverrides: { AGROW: DiagnosticSeverity.Error, NOPTS: DiagnosticSeverity.Hint }
+            })
+        })
+
+        it('should only use settings for unsaved files', async () => {
+            settings = { lintDisabledIds: ['AGROW'], lintSeverityOverrides: {} }
+
+            const configuration = await getLintConfiguration(null)
+
+            assert.deepStrictEqual(configuration, { enabledIds: [], disabledIds: ['AGROW'], severityOverrides: {} })
+        })
+    })
+
+    describe('#getConfigurationFilePath', () => {
+        it('should write a configuration file enabling and disabling checks', async () => {
+            const filePath = await getConfigurationFilePath({ enabledIds: ['NOPTS'], disabledIds: ['NASGU'], severityOverrides: {} })
+
+            assert.ok(filePath != null)
+            assert.deepStrictEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), {
+                baseConfiguration: 'factory',
+                checks: { NOPTS: { enabled: true }, NASGU: { enabled: false } }
+            })
+        })
+
+        it('should not write a configuration file when no checks are enabled or disabled', async () => {
+            const filePath = await getConfigurationFilePath({ enabledIds: [], disabledIds: [], severityOverrides: { NASGU: DiagnosticSeverity.Error } })
+
+            assert.strictEqual(filePath, null)
+        })
+    })
+
+    describe('#applyLintConfiguration', () => {
+        it('should override severities', () => {
+            const overriddenDiagnostic = Diagnostic.create(Range.create(1, 0, 1, 1), 'Overridden', DiagnosticSeverity.Warning, 'AGROW', 'MATLAB')
+            const otherDiagnostic = Diagnostic.create(Range.create(0, 0, 0, 1), 'Other', DiagnosticSeverity.Warning, 'NOPTS', 'MATLAB')
+
+            const lintResults = applyLintConfiguration(
+                { diagnostics: [otherDiagnostic, overriddenDiagnostic], codeActions: [] },
+                { enabledIds: [], disabledIds: ['NOPTS'], severityOverrides: { AGROW: DiagnosticSeverity.Error } }
+            )
+
+            assert.deepStrictEqual(lintResults.diagnostics, [otherDiagnostic, overriddenDiagnostic])
+            assert.strictEqual(lintResults.diagnostics[0].severity, DiagnosticSeverity.Warning)
+            assert.strictEqual(lintResults.diagnostics[1].severity, DiagnosticSeverity.Error)
+        })
+    })
+
+    describe('#removeDisabledChecks', () => {
+        it('should remove disabled diagnostics and their code actions', () => {
+            const disabledDiagnostic = Diagnostic.create(Range.create(0, 0, 0, 1), 'Disabled', DiagnosticSeverity.Warning, 'DuplicateDefinition', 'MATLAB')
+            const enabledDiagnostic = Diagnostic.create(Range.create(1, 0, 1, 1), 'Enabled', DiagnosticSeverity.Warning, 'ShadowedName', 'MATLAB')
+            const disabledFix = CodeAction.create('Fix', { changes: {} }, CodeActionKind.QuickFix)
+            disabledFix.diagnostics = [disabledDiagnostic]
+            const enabledFix = CodeAction.create('Fix', { changes: {} }, CodeActionKind.QuickFix)
+            enabledFix.diagnostics = [enabledDiagnostic]
+
+            const lintResults = removeDisabledChecks(
+                { diagnostics: [disabledDiagnostic, enabledDiagnostic], codeActions: [disabledFix, enabledFix] },
+                { enabledIds: [], disabledIds: ['DuplicateDefinition'], severityOverrides: {} }
+            )
+
+            assert.deepStrictEqual(lintResults.diagnostics, [enabledDiagnostic])
+            assert.deepStrictEqual(lintResults.codeActions, [enabledFix])
+        })
+    })
+})
@@ -0,0 +1,29 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+
+import { getCodeDescriptionForMessage, getTagsForMessage } from '../../../src/providers/linting/CodeAnalyzerMessages'
+
+import { DiagnosticTag } from 'vscode-languageserver'
+
+describe('CodeAnalyzerMessages', () => {
+    describe('#getTagsForMessage', () => {
+        it('should mark unused code as unnecessary', () => {
+            assert.deepStrictEqual(getTagsForMessage('NASGU'), [DiagnosticTag.Unnecessary])
+        })
+
+        it('should mark removed functionality as deprecated', () => {
+            assert.deepStrictEqual(getTagsForMessage('FSTR'), [DiagnosticTag.Deprecated])
+        })
+
+        it('should not tag other messages', () => {
+            assert.strictEqual(getTagsForMessage('NOPTS'), undefined)
+            assert.strictEqual(getTagsForMessage('constructor'), undefined)
+        })
+    })
+
+    describe('#getCodeDescriptionForMessage', () => {
+        it('should link to the documentation for the message', () => {
+            assert.deepStrictEqual(getCodeDescriptionForMessage('NOPTS'), { href: 'https://www.mathworks.com/help/search.html?qdoc=NOPTS' })
+        })
+    })
+})
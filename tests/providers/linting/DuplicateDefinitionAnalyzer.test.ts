@@ -0,0 +1,125 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+import * as path from 'path'
+
+import getMockConnection from '../../mocks/Connection.mock'
+import ClientConnection from '../../../src/ClientConnection'
+
+import { URI } from 'vscode-uri'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DuplicateDefinitionAnalyzer, { DUPLICATE_DEFINITION_ID } from '../../../src/providers/linting/DuplicateDefinitionAnalyzer'
+
+describe('DuplicateDefinitionAnalyzer', () => {
+    const ROOT_FOLDER = path.resolve('/workspace')
+
+    let F_1_rawCodeData: CodeInfo
+    let C_1_rawCodeData: CodeInfo
+
+    let fileInfoIndex: FileInfoIndex
+    let analyzer: DuplicateDefinitionAnalyzer
+
+    const getUri = (...pathSegments: string[]): string => URI.file(path.join(ROOT_FOLDER, ...pathSegments)).toString()
+
+    /**
+     * Creates code data for a function file, based on the code data for F_1.m, which
+     * declares the function "fun"
+     */
+    const createFunctionCodeData = (name: string, packageName = ''): CodeInfo => {
+        const rawCodeData: CodeInfo = JSON.parse(JSON.stringify(F_1_rawCodeData))
+        rawCodeData.package = packageName
+        rawCodeData.globalScope.functionScopes[0].declarationNameId.name = name
+        return rawCodeData
+    }
+
+    before(() => {
+        F_1_rawCodeData = require('../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases/functionCases/F_1.json')
+        C_1_rawCodeData = require('../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases/classCases/C_1.json')
+    })
+
+    beforeEach(() => {
+        const mockConnection = getMockConnection()
+        mockConnection.workspace = {
+            getWorkspaceFolders: sinon.stub().resolves([{ uri: URI.file(ROOT_FOLDER).toString(), name: 'workspace' }])
+        }
+        ClientConnection._setConnection(mockConnection)
+
+        fileInfoIndex = new FileInfoIndex()
+        analyzer = new DuplicateDefinitionAnalyzer(fileInfoIndex)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+        ClientConnection._clearConnection()
+    })
+
+    describe('#analyze', () => {
+        it('should report functions defined in multiple folders', async () => {
+            const uri1 = getUri('folder1', 'fun.m')
+            const uri2 = getUri('folder2', 'fun.m')
+            fileInfoIndex.parseAndStoreCodeInfo(uri1, createFunctionCodeData('fun'))
+            fileInfoIndex.parseAndStoreCodeInfo(uri2, createFunctionCodeData('fun'))
+
+            const diagnostics = await analyzer.analyze(uri1)
+
+            assert.strictEqual(diagnostics.length, 1)
+            assert.strictEqual(diagnostics[0].code, DUPLICATE_DEFINITION_ID)
+            assert.strictEqual(
+                diagnostics[0].message,
+                '\'fun\' is also defined in 1 other file(s). The order of the MATLAB path determines which definition is used.'
+            )
+            assert.deepStrictEqual(diagnostics[0].range, fileInfoIndex.codeInfoCache.get(uri1)?.globalScopeInfo.functionScopes.get('fun')?.functionScopeInfo?.declarationNameId.range)
+            assert.deepStrictEqual(diagnostics[0].relatedInformation?.map(info => info.location.uri), [uri2])
+        })
+
+        it('should report package functions which clash with class methods', async () => {
+            const classUri = getUri('+pkg', 'C_1.m')
+            const functionUri = getUri('+pkg', '+C_1', 'staticMethod.m')
+            fileInfoIndex.parseAndStoreCodeInfo(classUri, { ...C_1_rawCodeData, package: 'pkg' })
+            fileInfoIndex.parseAndStoreCodeInfo(functionUri, createFunctionCodeData('staticMethod', 'pkg.C_1'))
+
+            const functionDiagnostics = await analyzer.analyze(functionUri)
+            const classDiagnostics = await analyzer.analyze(classUri)
+
+            assert.deepStrictEqual(functionDiagnostics.map(diagnostic => diagnostic.message.split(' ')[0]), ['\'pkg.C_1.staticMethod\''])
+            assert.deepStrictEqual(functionDiagnostics[0].relatedInformation?.map(info => info.location.uri), [classUri])
+            assert.deepStrictEqual(classDiagnostics[0].relatedInformation?.map(info => info.location.uri), [functionUri])
+        })
+
+        it('should not report local functions or functions in private folders', async () => {
+            const uri = getUri('folder1', 'fun.m')
+            fileInfoIndex.parseAndStoreCodeInfo(uri, createFunctionCodeData('fun'))
+            fileInfoIndex.parseAndStoreCodeInfo(getUri('folder2', 'script.m'), createFunctionCodeData('fun'))
+            fileInfoIndex.parseAndStoreCodeInfo(getUri('folder3', 'private', 'fun.m'), createFunctionCodeData('fun'))
+
+            assert.deepStrictEqual(await analyzer.analyze(uri), [])
+        })
+
+        it('should not report functions in different packages', async () => {
+            const uri = getUri('+pkg1', 'fun.m')
+            fileInfoIndex.parseAndStoreCodeInfo(uri, createFunctionCodeData('fun', 'pkg1'))
+            fileInfoIndex.parseAndStoreCodeInfo(getUri('+pkg2', 'fun.m'), createFunctionCodeData('fun', 'pkg2'))
+
+            assert.deepStrictEqual(await analyzer.analyze(uri), [])
+        })
+
+        it('should not report definitions in files outside of the workspace folders', async () => {
+            const uri = getUri('folder1', 'fun.m')
+            fileInfoIndex.parseAndStoreCodeInfo(uri, createFunctionCodeData('fun'))
+            fileInfoIndex.parseAndStoreCodeInfo(URI.file(path.resolve('/toolbox', 'fun.m')).toString(), createFunctionCodeData('fun'))
+
+            assert.deepStrictEqual(await analyzer.analyze(uri), [])
+        })
+
+        it('should report definitions added to the index after a previous analysis', async () => {
+            const uri = getUri('folder1', 'fun.m')
+            fileInfoIndex.parseAndStoreCodeInfo(uri, createFunctionCodeData('fun'))
+            assert.deepStrictEqual(await analyzer.analyze(uri), [])
+
+            fileInfoIndex.parseAndStoreCodeInfo(getUri('folder2', 'fun.m'), createFunctionCodeData('fun'))
+
+            assert.strictEqual((await analyzer.analyze(uri)).length, 1)
+        })
+    })
+})
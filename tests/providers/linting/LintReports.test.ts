@@ -0,0 +1,107 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+
+import { createJUnitReport, createSarifLog, createTextReport } from '../../../src/providers/linting/LintReports'
+import { FileLintResults } from '../../../src/providers/linting/LintingSupportProvider'
+
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver'
+
+describe('LintReports', () => {
+    const uri1 = 'file:///path/to/script.m'
+    const uri2 = 'file:///path/to/fun.m'
+
+    const createFileResults = (): FileLintResults[] => {
+        const fixableDiagnostic = Diagnostic.create(Range.create(0, 5, 0, 6), 'Terminate statement with semicolon.', DiagnosticSeverity.Warning, 'NOPTS', 'MATLAB')
+        const fix = CodeAction.create('Add a semicolon.', { changes: { [uri1]: [TextEdit.insert({ line: 0, character: 6 }, ';')] } }, CodeActionKind.QuickFix)
+        fix.diagnostics = [fixableDiagnostic]
+
+        return [{
+            uri: uri1,
+            diagnostics: [
+                fixableDiagnostic,
+                Diagnostic.create(Range.create(1, 0, 1, 3), 'The value assigned here appears to be unused.', DiagnosticSeverity.Warning, 'NASGU', 'MATLAB')
+            ],
+            codeActions: [fix]
+        }, {
+            uri: uri2,
+            diagnostics: [
+                Diagnostic.create(Range.create(2, 4, 2, 9), 'Parse error.', DiagnosticSeverity.Error, 'SYNER', 'MATLAB'),
+                Diagnostic.create(Range.create(3, 0, 3, 3), 'The value assigned here appears to be unused.', DiagnosticSeverity.Information, 'NASGU', 'MATLAB')
+            ],
+            codeActions: []
+        }]
+    }
+
+    describe('#createSarifLog', () => {
+        it('should create a SARIF 2.1.0 log with a rule for each diagnostic ID', () => {
+            const log = createSarifLog(createFileResults())
+
+            assert.strictEqual(log.version, '2.1.0')
+            assert.strictEqual(log.runs.length, 1)
+            assert.deepStrictEqual(log.runs[0].tool.driver.rules.map(rule => rule.id), ['NOPTS', 'NASGU', 'SYNER'])
+            assert.deepStrictEqual(log.runs[0].artifacts, [{ location: { uri: uri1 } }, { location: { uri: uri2 } }])
+        })
+
+        it('should create a result for each diagnostic', () => {
+            const results = createSarifLog(createFileResults()).runs[0].results
+
+            assert.deepStrictEqual(results.map(result => [result.ruleId, result.ruleIndex, result.level]), [
+                ['NOPTS', 0, 'warning'],
+                ['NASGU', 1, 'warning'],
+                ['SYNER', 2, 'error'],
+                ['NASGU', 1, 'note']
+            ])
+            assert.deepStrictEqual(results[2].locations[0].physicalLocation, {
+                artifactLocation: { uri: uri2 },
+                region: { startLine: 3, startColumn: 5, endLine: 3, endColumn: 10 }
+            })
+        })
+
+        it('should include available fixes', () => {
+            const results = createSarifLog(createFileResults()).runs[0].results
+
+            assert.strictEqual(results[0].properties.fixAvailable, true)
+            assert.deepStrictEqual(results[0].fixes, [{
+                description: { text: 'Add a semicolon.' },
+                artifactChanges: [{
+                    artifactLocation: { uri: uri1 },
+                    replacements: [{
+                        deletedRegion: { startLine: 1, startColumn: 7, endLine: 1, endColumn: 7 },
+                        insertedContent: { text: ';' }
+                    }]
+                }]
+            }])
+
+            assert.strictEqual(results[1].properties.fixAvailable, false)
+            assert.strictEqual(results[1].fixes, undefined)
+        })
+    })
+
+    describe('#createTextReport', () => {
+        it('should report each diagnostic and a summary', () => {
+            const report = createTextReport(createFileResults(), '/path')
+
+            assert.strictEqual(report, [
+                'to/script.m:1:6: warning: Terminate statement with semicolon. [NOPTS]',
+                'to/script.m:2:1: warning: The value assigned here appears to be unused. [NASGU]',
+                'to/fun.m:3:5: error: Parse error. [SYNER]',
+                'to/fun.m:4:1: note: The value assigned here appears to be unused. [NASGU]',
+                '1 error(s), 2 warning(s) in 2 file(s)'
+            ].join('\n'))
+        })
+    })
+
+    describe('#createJUnitReport', () => {
+        it('should report each file as a test case', () => {
+            const fileResults = createFileResults()
+            fileResults.push({ uri: 'file:///path/to/clean.m', diagnostics: [], codeActions: [] })
+            fileResults[1].diagnostics[0].message = 'Invalid use of "<".'
+
+            const report = createJUnitReport(fileResults, '/path')
+
+            assert.ok(report.includes('<testsuite name="MATLAB Code Analyzer" tests="3" failures="2">'))
+            assert.ok(report.includes('<testcase classname="to/clean.m" name="to/clean.m"/>'))
+            assert.ok(report.includes('L 3 (C 5): SYNER: Invalid use of &quot;&lt;&quot;.'))
+        })
+    })
+})
@@ -0,0 +1,75 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import LintResultCache from '../../../src/providers/linting/LintResultCache'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+
+describe('LintResultCache', () => {
+    const lintData = ['L 1 (C 1-3): NASGU: ML1: The value assigned here appears to be unused.']
+
+    let settings: Partial<Settings>
+
+    beforeEach(() => {
+        settings = { lintCacheFolder: '' }
+        sinon.stub(ConfigurationManager, 'getConfiguration').callsFake(async () => settings as Settings)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#createKey', () => {
+        it('should create different keys when the code or options differ', () => {
+            const key = LintResultCache.createKey('matlab R2024a', 'test.m', 'abc = 1;', { shouldIgnoreSuppressions: false })
+
+            assert.strictEqual(LintResultCache.createKey('matlab R2024a', 'test.m', 'abc = 1;', { shouldIgnoreSuppressions: false }), key)
+            assert.notStrictEqual(LintResultCache.createKey('matlab R2024a', 'test.m', 'abc = 2;', { shouldIgnoreSuppressions: false }), key)
+            assert.notStrictEqual(LintResultCache.createKey('matlab R2024a', 'test.m', 'abc = 1;', { shouldIgnoreSuppressions: true }), key)
+            assert.notStrictEqual(LintResultCache.createKey('mlint', 'test.m', 'abc = 1;', { shouldIgnoreSuppressions: false }), key)
+        })
+    })
+
+    describe('#get', () => {
+        it('should return cached lint data', async () => {
+            const cache = new LintResultCache()
+
+            await cache.set('key', lintData)
+
+            assert.deepStrictEqual(await cache.get('key'), lintData)
+            assert.strictEqual(await cache.get('otherKey'), null)
+        })
+
+        it('should evict the least recently used lint data', async () => {
+            const cache = new LintResultCache()
+
+            await cache.set('key0', lintData)
+            for (let i = 1; i <= 200; i++) {
+                await cache.set(`key${i}`, [])
+                if (i === 100) {
+                    await cache.get('key0')
+                }
+            }
+
+            assert.deepStrictEqual(await cache.get('key0'), lintData)
+            assert.strictEqual(await cache.get('key1'), null)
+        })
+
+        it('should persist lint data in the cache folder', async () => {
+            const cacheFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+            settings.lintCacheFolder = path.join(cacheFolder, 'lint')
+
+            try {
+                await new LintResultCache().set('key', lintData)
+
+                assert.ok(fs.existsSync(path.join(cacheFolder, 'lint', 'key.json')))
+                assert.deepStrictEqual(await new LintResultCache().get('key'), lintData)
+            } finally {
+                fs.rmSync(cacheFolder, { recursive: true, force: true })
+            }
+        })
+    })
+})
@@ -0,0 +1,471 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+import sinon from 'sinon'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import getMockConnection from '../../mocks/Connection.mock'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+import LintingSupportProvider, { FIX_ALL_CODE_ACTION_KIND } from '../../../src/providers/linting/LintingSupportProvider'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import ConfigurationManager, { Settings } from '../../../src/lifecycle/ConfigurationManager'
+import ClientConnection from '../../../src/ClientConnection'
+import DuplicateDefinitionAnalyzer from '../../../src/providers/linting/DuplicateDefinitionAnalyzer'
+import FileInfoIndex from '../../../src/indexing/FileInfoIndex'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import {
+    CodeActionKind, DiagnosticSeverity, DiagnosticTag, DocumentDiagnosticReportKind, Range, TextDocumentEdit, TextEdit, FullDocumentDiagnosticReport, TextDocuments, WorkspaceFullDocumentDiagnosticReport
+} from 'vscode-languageserver'
+import { URI } from 'vscode-uri'
+
+describe('LintingSupportProvider', () => {
+    const uri = 'file:///path/to/test.m'
+    const lintData = ['L 2 (C 1-3): NASGU: ML1: The value assigned here appears to be unused.']
+
+    let lintingSupportProvider: LintingSupportProvider
+    let matlabLifecycleManager: MatlabLifecycleManager
+    let documentManager: TextDocuments<TextDocument>
+    let mockConnection: any
+    let getLintResultsStub: sinon.SinonStub
+
+    beforeEach(() => {
+        mockConnection = getMockConnection()
+        ClientConnection._setConnection(mockConnection)
+
+        matlabLifecycleManager = new MatlabLifecycleManager()
+        lintingSupportProvider = new LintingSupportProvider(matlabLifecycleManager, getMockMvm())
+        documentManager = new TextDocuments(TextDocument)
+
+        sinon.stub(matlabLifecycleManager, 'isMatlabConnected').returns(true)
+        sinon.stub(ConfigurationManager, 'getConfiguration').resolves({ maxFileSizeForAnalysis: 0, lintDisabledIds: [] as string[], lintSeverityOverrides: {}, lintCacheFolder: '' } as Settings)
+        getLintResultsStub = sinon.stub(lintingSupportProvider as any, 'getLintResultsFromMatlab').resolves(lintData)
+    })
+
+    afterEach(() => {
+        sinon.restore()
+        ClientConnection._clearConnection()
+    })
+
+    describe('#handleDocumentDiagnosticRequest', () => {
+        beforeEach(() => {
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, 'function test\nabc = 1;\nend'))
+        })
+
+        it('should return a full report with the diagnostics', async () => {
+            const report = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager) as FullDocumentDiagnosticReport
+
+            assert.strictEqual(report.kind, DocumentDiagnosticReportKind.Full)
+            assert.ok(report.resultId != null && report.resultId !== '', 'Report should have a result ID')
+            assert.strictEqual(report.items.length, 1)
+            assert.strictEqual(report.items[0].code, 'NASGU')
+            assert.deepStrictEqual(report.items[0].range, { start: { line: 1, character: 0 }, end: { line: 1, character: 3 } })
+        })
+
+        it('should tag diagnostics and link to their documentation', async () => {
+            const report = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager) as FullDocumentDiagnosticReport
+
+            assert.deepStrictEqual(report.items[0].tags, [DiagnosticTag.Unnecessary])
+            assert.strictEqual(report.items[0].codeDescription?.href, 'https://www.mathworks.com/help/search.html?qdoc=NASGU')
+        })
+
+        it('should return an unchanged report when the document has not changed', async () => {
+            const firstReport = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+            const secondReport = await lintingSupportProvider.handleDocumentDiagnosticRequest(
+                { textDocument: { uri }, previousResultId: firstReport.resultId }, documentManager
+            )
+
+            assert.deepStrictEqual(secondReport, { kind: DocumentDiagnosticReportKind.Unchanged, resultId: firstReport.resultId })
+            sinon.assert.calledOnce(getLintResultsStub)
+        })
+
+        it('should return a full report when the document has changed', async () => {
+            const firstReport = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager);
+            (documentManager.get as sinon.SinonStub).returns(TextDocument.create(uri, 'matlab', 2, 'function test\nabc = 2;\nend'))
+
+            const secondReport = await lintingSupportProvider.handleDocumentDiagnosticRequest(
+                { textDocument: { uri }, previousResultId: firstReport.resultId }, documentManager
+            )
+
+            assert.strictEqual(secondReport.kind, DocumentDiagnosticReportKind.Full)
+            assert.notStrictEqual(secondReport.resultId, firstReport.resultId)
+        })
+
+        it('should return an empty report when the document is not open', async () => {
+            (documentManager.get as sinon.SinonStub).returns(undefined)
+
+            const report = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+
+            assert.deepStrictEqual(report, { kind: DocumentDiagnosticReportKind.Full, items: [] })
+        })
+    })
+
+    describe('#handleWorkspaceDiagnosticRequest', () => {
+        let workspaceFolder: string
+        let fileUri1: string
+        let fileUri2: string
+
+        beforeEach(() => {
+            workspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+            fs.mkdirSync(path.join(workspaceFolder, 'sub'))
+            fs.mkdirSync(path.join(workspaceFolder, '.hidden'))
+            fs.writeFileSync(path.join(workspaceFolder, 'a.m'), 'function a\nabc = 1;\nend')
+            fs.writeFileSync(path.join(workspaceFolder, 'sub', 'b.m'), 'function b\nabc = 1;\nend')
+            fs.writeFileSync(path.join(workspaceFolder, '.hidden', 'c.m'), 'function c\nend')
+            fs.writeFileSync(path.join(workspaceFolder, 'notes.txt'), 'notes')
+
+            fileUri1 = URI.file(path.join(workspaceFolder, 'a.m')).toString()
+            fileUri2 = URI.file(path.join(workspaceFolder, 'sub', 'b.m')).toString()
+
+            mockConnection.workspace = {
+                getWorkspaceFolders: sinon.stub().resolves([{ uri: URI.file(workspaceFolder).toString(), name: 'workspace' }])
+            }
+        })
+
+        afterEach(() => {
+            fs.rmSync(workspaceFolder, { recursive: true, force: true })
+        })
+
+        it('should report diagnostics for each MATLAB file in the workspace', async () => {
+            const report = await lintingSupportProvider.handleWorkspaceDiagnosticRequest({ previousResultIds: [] }, documentManager)
+
+            const uris = report.items.map(item => item.uri).sort()
+            assert.deepStrictEqual(uris, [fileUri1, fileUri2].sort())
+
+            report.items.forEach(item => {
+                assert.strictEqual(item.kind, DocumentDiagnosticReportKind.Full)
+                assert.strictEqual(item.version, null)
+                assert.strictEqual((item as WorkspaceFullDocumentDiagnosticReport).items[0].code, 'NASGU')
+            })
+        })
+
+        it('should not report diagnostics for open documents', async () => {
+            sinon.stub(documentManager, 'get').callsFake(documentUri => {
+                return documentUri === fileUri1 ? TextDocument.create(fileUri1, 'matlab', 1, '') : undefined
+            })
+
+            const report = await lintingSupportProvider.handleWorkspaceDiagnosticRequest({ previousResultIds: [] }, documentManager)
+
+            assert.deepStrictEqual(report.items.map(item => item.uri), [fileUri2])
+        })
+
+        it('should return unchanged reports for files which have not changed', async () => {
+            const firstReport = await lintingSupportProvider.handleWorkspaceDiagnosticRequest({ previousResultIds: [] }, documentManager)
+            const previousResultId = firstReport.items.find(item => item.uri === fileUri1)?.resultId as string
+
+            fs.writeFileSync(path.join(workspaceFolder, 'sub', 'b.m'), 'function b\nabc = 2;\nend')
+            const secondReport = await lintingSupportProvider.handleWorkspaceDiagnosticRequest(
+                { previousResultIds: [{ uri: fileUri1, value: previousResultId }] }, documentManager
+            )
+
+            const item1 = secondReport.items.find(item => item.uri === fileUri1)
+            const item2 = secondReport.items.find(item => item.uri === fileUri2)
+            assert.strictEqual(item1?.kind, DocumentDiagnosticReportKind.Unchanged)
+            assert.strictEqual(item1?.resultId, previousResultId)
+            assert.strictEqual(item2?.kind, DocumentDiagnosticReportKind.Full)
+        })
+    })
+
+    describe('#lintFolders', () => {
+        let folder: string
+
+        beforeEach(() => {
+            folder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+            fs.mkdirSync(path.join(folder, 'sub'))
+            fs.writeFileSync(path.join(folder, 'a.m'), 'function a\nabc = 1;\nend')
+            fs.writeFileSync(path.join(folder, 'sub', 'b.m'), 'function b\nabc = 1;\nend')
+        })
+
+        afterEach(() => {
+            fs.rmSync(folder, { recursive: true, force: true })
+        })
+
+        it('should lint each MATLAB file in the folders', async () => {
+            const results = await lintingSupportProvider.lintFolders([folder])
+
+            assert.deepStrictEqual(results.map(result => result.uri).sort(), [
+                URI.file(path.join(folder, 'a.m')).toString(),
+                URI.file(path.join(folder, 'sub', 'b.m')).toString()
+            ].sort())
+            results.forEach(result => assert.strictEqual(result.diagnostics[0].code, 'NASGU'))
+        })
+    })
+
+    describe('fix all', () => {
+        const fixableLintData = [
+            'L 1 (C 6): NOPTS: ML1: Terminate statement with semicolon to suppress output. (CAN FIX)',
+            '----FIX MESSAGE<semicolon> <Add a semicolon.>',
+            '----CHANGE MESSAGE L 1 (C 5);  L 1 (C 5):  <;>',
+            'L 1 (C 6): NOPRT: ML1: Conflicting fix. (CAN FIX)',
+            '----FIX MESSAGE<other> <Add a comma.>',
+            '----CHANGE MESSAGE L 1 (C 5);  L 1 (C 5):  <,>',
+            'L 2 (C 6): NOPTS: ML1: Terminate statement with semicolon to suppress output. (CAN FIX)',
+            '----FIX MESSAGE<semicolon> <Add a semicolon.>',
+            '----CHANGE MESSAGE L 2 (C 5);  L 2 (C 5):  <;>',
+            'L 3 (C 1-3): NASGU: ML1: The value assigned here appears to be unused.'
+        ]
+        const expectedEdits = [TextEdit.replace(Range.create(0, 4, 0, 5), ';'), TextEdit.replace(Range.create(1, 4, 1, 5), ';')]
+
+        beforeEach(() => {
+            getLintResultsStub.resolves(fixableLintData)
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, 'x = 1\ny = 2\nabc = 3;'))
+        })
+
+        it('should provide a code action applying all non-conflicting fixes when requested', async () => {
+            await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+
+            const codeActions = lintingSupportProvider.handleCodeActionRequest({
+                textDocument: { uri },
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+                context: { diagnostics: [], only: [CodeActionKind.SourceFixAll] }
+            })
+
+            assert.strictEqual(codeActions.length, 1)
+            assert.strictEqual(codeActions[0].kind, FIX_ALL_CODE_ACTION_KIND)
+            assert.deepStrictEqual(codeActions[0].edit, { changes: { [uri]: expectedEdits } })
+        })
+
+        it('should not provide a fix all code action unless requested', async () => {
+            await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+
+            const codeActions = lintingSupportProvider.handleCodeActionRequest({
+                textDocument: { uri },
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+                context: { diagnostics: [], only: [CodeActionKind.QuickFix] }
+            })
+
+            assert.ok(codeActions.every(codeAction => codeAction.kind !== FIX_ALL_CODE_ACTION_KIND))
+        })
+
+        it('should create a workspace edit applying all non-conflicting fixes in each file', async () => {
+            const edit = await lintingSupportProvider.getFixAllEdit([uri], documentManager)
+
+            assert.deepStrictEqual(edit, { documentChanges: [TextDocumentEdit.create({ uri, version: 1 }, expectedEdits)] })
+        })
+
+        it('should apply fixes linted by mlint when the document matches the saved file', async () => {
+            (matlabLifecycleManager.isMatlabConnected as sinon.SinonStub).returns(false)
+            sinon.stub(lintingSupportProvider as any, 'getMlintExecutable').resolves('mlint')
+            sinon.stub(lintingSupportProvider as any, 'readSavedCode').resolves('x = 1\ny = 2\nabc = 3;')
+            sinon.stub(lintingSupportProvider as any, 'getLintResultsFromExecutable').resolves(fixableLintData)
+
+            const edit = await lintingSupportProvider.getFixAllEdit([uri], documentManager)
+
+            assert.deepStrictEqual(edit, { documentChanges: [TextDocumentEdit.create({ uri, version: 1 }, expectedEdits)] })
+        })
+
+        it('should not fix documents with unsaved changes when MATLAB is not available', async () => {
+            (matlabLifecycleManager.isMatlabConnected as sinon.SinonStub).returns(false)
+            sinon.stub(lintingSupportProvider as any, 'getMlintExecutable').resolves('mlint')
+            sinon.stub(lintingSupportProvider as any, 'readSavedCode').resolves('x = 1\ny = 2')
+            const getExecutableResultsStub = sinon.stub(lintingSupportProvider as any, 'getLintResultsFromExecutable').resolves(fixableLintData)
+
+            const edit = await lintingSupportProvider.getFixAllEdit([uri], documentManager)
+
+            sinon.assert.notCalled(getExecutableResultsStub)
+            assert.deepStrictEqual(edit, { documentChanges: [] })
+        })
+    })
+
+    describe('#lintDocument', () => {
+        it('should refresh diagnostics instead of sending them when pull diagnostics are enabled', async () => {
+            const refreshStub = sinon.stub().resolves()
+            mockConnection.languages = { diagnostics: { refresh: refreshStub } }
+            mockConnection.sendDiagnostics = sinon.stub()
+            lintingSupportProvider.enablePullDiagnostics(true)
+
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 1, 'abc = 1;'))
+
+            sinon.assert.calledOnce(refreshStub)
+            sinon.assert.notCalled(mockConnection.sendDiagnostics)
+            sinon.assert.notCalled(getLintResultsStub)
+        })
+    })
+
+    describe('#lintFile', () => {
+        let folder: string
+
+        beforeEach(() => {
+            folder = fs.mkdtempSync(path.join(os.tmpdir(), 'matlabls-'))
+            mockConnection.sendDiagnostics = sinon.stub()
+        })
+
+        afterEach(() => {
+            fs.rmSync(folder, { recursive: true, force: true })
+        })
+
+        it('should send diagnostics for the saved file', async () => {
+            const filePath = path.join(folder, 'test.m')
+            fs.writeFileSync(filePath, 'function test\nabc = 1;\nend')
+            const fileUri = URI.file(filePath).toString()
+
+            await lintingSupportProvider.lintFile(fileUri)
+
+            sinon.assert.calledOnce(mockConnection.sendDiagnostics)
+            assert.strictEqual(mockConnection.sendDiagnostics.firstCall.args[0].uri, fileUri)
+            assert.strictEqual(mockConnection.sendDiagnostics.firstCall.args[0].diagnostics.length, 1)
+        })
+
+        it('should clear diagnostics for deleted files', async () => {
+            const fileUri = URI.file(path.join(folder, 'deleted.m')).toString()
+
+            await lintingSupportProvider.lintFile(fileUri)
+
+            sinon.assert.calledOnceWithExactly(mockConnection.sendDiagnostics, { uri: fileUri, diagnostics: [] })
+            sinon.assert.notCalled(getLintResultsStub)
+        })
+    })
+
+    describe('lint result caching', () => {
+        beforeEach(() => {
+            sinon.stub(matlabLifecycleManager, 'getMatlabConnection').resolves({} as any)
+        })
+
+        it('should not lint code again when it has not changed', async () => {
+            mockConnection.sendDiagnostics = sinon.stub()
+
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 1, 'abc = 1;'))
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 2, 'abc = 1;'))
+
+            sinon.assert.calledOnce(getLintResultsStub)
+            sinon.assert.calledTwice(mockConnection.sendDiagnostics)
+            assert.deepStrictEqual(mockConnection.sendDiagnostics.secondCall.args[0].diagnostics, mockConnection.sendDiagnostics.firstCall.args[0].diagnostics)
+        })
+
+        it('should lint code again when it has changed', async () => {
+            mockConnection.sendDiagnostics = sinon.stub()
+
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 1, 'abc = 1;'))
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 2, 'abc = 2;'))
+
+            sinon.assert.calledTwice(getLintResultsStub)
+        })
+
+        it('should not cache failed results', async () => {
+            mockConnection.sendDiagnostics = sinon.stub()
+            getLintResultsStub.resolves(null)
+
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 1, 'abc = 1;'))
+            await lintingSupportProvider.lintDocument(TextDocument.create(uri, 'matlab', 2, 'abc = 1;'))
+
+            sinon.assert.calledTwice(getLintResultsStub)
+        })
+    })
+
+    describe('Code Analyzer configuration', () => {
+        beforeEach(() => {
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, 'function test\nabc = 1;\nend'))
+        })
+
+        it('should pass a configuration file to Code Analyzer when checks are enabled or disabled', async () => {
+            (ConfigurationManager.getConfiguration as sinon.SinonStub).resolves(
+                { maxFileSizeForAnalysis: 0, lintDisabledIds: ['NOPTS'], lintSeverityOverrides: {}, lintCacheFolder: '' } as Settings
+            )
+
+            await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+
+            const configurationFilePath = getLintResultsStub.firstCall.args[3] as string
+            assert.deepStrictEqual(JSON.parse(fs.readFileSync(configurationFilePath, 'utf8')).checks, { NOPTS: { enabled: false } })
+        })
+
+        it('should not pass a configuration file to Code Analyzer when only severities are overridden', async () => {
+            (ConfigurationManager.getConfiguration as sinon.SinonStub).resolves(
+                { maxFileSizeForAnalysis: 0, lintDisabledIds: [] as string[], lintSeverityOverrides: { NASGU: 'error' }, lintCacheFolder: '' } as Settings
+            )
+
+            const report = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager) as FullDocumentDiagnosticReport
+
+            assert.strictEqual(getLintResultsStub.firstCall.args[3], null)
+            assert.strictEqual(report.items[0].severity, DiagnosticSeverity.Error)
+        })
+    })
+
+    describe('cross-file diagnostic caching', () => {
+        let pathResolver: PathResolver
+        let analyzeStub: sinon.SinonStub
+
+        beforeEach(() => {
+            const mockMvm = getMockMvm()
+            const fileInfoIndex = new FileInfoIndex()
+            const duplicateDefinitionAnalyzer = new DuplicateDefinitionAnalyzer(fileInfoIndex)
+            pathResolver = new PathResolver(mockMvm)
+            analyzeStub = sinon.stub(duplicateDefinitionAnalyzer, 'analyze').resolves([])
+
+            lintingSupportProvider = new LintingSupportProvider(
+                matlabLifecycleManager, mockMvm, undefined, undefined, duplicateDefinitionAnalyzer, fileInfoIndex, pathResolver
+            )
+            sinon.stub(lintingSupportProvider as any, 'getLintResultsFromMatlab').resolves(lintData)
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, 'function test\nabc = 1;\nend'))
+        })
+
+        it('should not analyze other files again when the document, index, and path have not changed', async () => {
+            const firstReport = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+            await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri }, previousResultId: firstReport.resultId }, documentManager)
+            await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+
+            sinon.assert.calledOnce(analyzeStub)
+        })
+
+        it('should analyze other files again when the path has changed', async () => {
+            const firstReport = await lintingSupportProvider.handleDocumentDiagnosticRequest({ textDocument: { uri } }, documentManager)
+            pathResolver.handlePathChanged()
+
+            const secondReport = await lintingSupportProvider.handleDocumentDiagnosticRequest(
+                { textDocument: { uri }, previousResultId: firstReport.resultId }, documentManager
+            )
+
+            assert.strictEqual(secondReport.kind, DocumentDiagnosticReportKind.Full)
+            assert.notStrictEqual(secondReport.resultId, firstReport.resultId)
+            sinon.assert.calledTwice(analyzeStub)
+        })
+    })
+
+    describe('#removeUnusedSuppressions', () => {
+        it('should remove the unnecessary suppressions in the document', async () => {
+            const applyEditStub = sinon.stub().resolves()
+            mockConnection.workspace = { applyEdit: applyEditStub }
+            getLintResultsStub.callsFake(async (code: string, fileName: string, shouldIgnoreSuppressions: boolean) => {
+                return shouldIgnoreSuppressions ? ['L 1 (C 1): NOPTS: ML1: Terminate statement with semicolon to suppress output.'] : []
+            })
+            const textDocument = TextDocument.create(uri, 'matlab', 3, 'x = 1 %#ok<NOPTS>\ny = 2; %#ok<NOPTS>')
+
+            await lintingSupportProvider.removeUnusedSuppressions(textDocument)
+
+            const expectedEdits = [TextEdit.del(Range.create(1, 6, 1, 18))]
+            sinon.assert.calledOnce(applyEditStub)
+            assert.deepStrictEqual(applyEditStub.firstCall.args[0].changes, { [uri]: expectedEdits })
+            assert.deepStrictEqual(applyEditStub.firstCall.args[0].documentChanges[0].textDocument, { uri, version: 3 })
+        })
+
+        it('should not remove suppressions when linting fails', async () => {
+            const applyEditStub = sinon.stub().resolves()
+            mockConnection.workspace = { applyEdit: applyEditStub }
+            getLintResultsStub.callsFake(async (code: string, fileName: string, shouldIgnoreSuppressions: boolean) => {
+                return shouldIgnoreSuppressions ? null : []
+            })
+            const textDocument = TextDocument.create(uri, 'matlab', 1, 'x = 1 %#ok<NOPTS>\ny = 2; %#ok')
+
+            await lintingSupportProvider.removeUnusedSuppressions(textDocument)
+
+            sinon.assert.notCalled(applyEditStub)
+        })
+
+        it('should not remove suppressions when the linted file differs from the document', async () => {
+            (matlabLifecycleManager.isMatlabConnected as sinon.SinonStub).returns(false)
+            const applyEditStub = sinon.stub().resolves()
+            mockConnection.workspace = { applyEdit: applyEditStub }
+            sinon.stub(lintingSupportProvider as any, 'getMlintExecutable').resolves('mlint')
+            sinon.stub(lintingSupportProvider as any, 'readSavedCode').resolves('x = 1 %#ok<NOPTS>')
+            const getExecutableResultsStub = sinon.stub(lintingSupportProvider as any, 'getLintResultsFromExecutable').resolves([])
+            const textDocument = TextDocument.create(uri, 'matlab', 2, 'z = 0;\nx = 1 %#ok<NOPTS>')
+
+            await lintingSupportProvider.removeUnusedSuppressions(textDocument)
+
+            sinon.assert.calledOnce(getExecutableResultsStub)
+            sinon.assert.notCalled(applyEditStub)
+        })
+    })
+})
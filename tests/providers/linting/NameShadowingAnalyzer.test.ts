@@ -0,0 +1,130 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+import * as path from 'path'
+
+import { Range } from 'vscode-languageserver'
+import { URI } from 'vscode-uri'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import NameShadowingAnalyzer, { SHADOWED_NAME_ID } from '../../../src/providers/linting/NameShadowingAnalyzer'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('NameShadowingAnalyzer', () => {
+    const WORKSPACE_FOLDER = path.resolve('/workspace')
+    const MATLAB_FOLDER = path.resolve('/matlab/toolbox')
+    const OTHER_FOLDER = path.resolve('/other')
+
+    const FILE_PATH = path.join(WORKSPACE_FOLDER, 'plot.m')
+    const FILE_URI = URI.file(FILE_PATH).toString()
+
+    let mockMvm: any
+    let fileInfoIndex: FileInfoIndex
+    let analyzer: NameShadowingAnalyzer
+
+    /**
+     * Sets the paths resolved by MATLAB for each name, as returned by
+     * matlabls.handlers.navigation.resolveNameToAllPaths
+     */
+    const setResolvedPaths = (resolvedPaths: Array<Array<{ path: string, isMatlabFunction: boolean }>>): void => {
+        mockMvm.feval.resolves({ result: [JSON.stringify(resolvedPaths)] })
+    }
+
+    beforeEach(() => {
+        mockMvm = getMockMvm()
+        mockMvm.isReady.returns(true)
+
+        fileInfoIndex = new FileInfoIndex()
+        analyzer = new NameShadowingAnalyzer(fileInfoIndex, new PathResolver(mockMvm))
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#analyze', () => {
+        it('should report files shadowing MATLAB functions', async () => {
+            setResolvedPaths([[{ path: path.join(MATLAB_FOLDER, 'plot.m'), isMatlabFunction: true }]])
+
+            const diagnostics = await analyzer.analyze(FILE_URI)
+
+            assert.strictEqual(diagnostics.length, 1)
+            assert.strictEqual(diagnostics[0].code, SHADOWED_NAME_ID)
+            assert.strictEqual(diagnostics[0].message, '\'plot\' shadows a MATLAB function with the same name.')
+            assert.deepStrictEqual(diagnostics[0].range, Range.create(0, 0, 0, 0))
+            assert.strictEqual(diagnostics[0].relatedInformation, undefined)
+            sinon.assert.calledOnceWithMatch(mockMvm.feval, 'matlabls.handlers.navigation.resolveNameToAllPaths', 1)
+        })
+
+        it('should report files shadowed by other files on the path', async () => {
+            const otherPath = path.join(OTHER_FOLDER, 'plot.m')
+            setResolvedPaths([[
+                { path: otherPath, isMatlabFunction: false },
+                { path: FILE_PATH, isMatlabFunction: false }
+            ]])
+
+            const diagnostics = await analyzer.analyze(FILE_URI)
+
+            assert.strictEqual(diagnostics.length, 1)
+            assert.strictEqual(
+                diagnostics[0].message,
+                '\'plot\' is shadowed by another file with the same name on the MATLAB path, so this file is not called.'
+            )
+            assert.deepStrictEqual(diagnostics[0].relatedInformation?.map(info => info.location.uri), [URI.file(otherPath).toString()])
+        })
+
+        it('should report the conflict at the declared function name', async () => {
+            const rawCodeData: CodeInfo = require('../../indexing/rawCodeDataResourceFiles/improvedCodeAnalysisSpecCases/functionCases/F_1.json')
+            fileInfoIndex.parseAndStoreCodeInfo(FILE_URI, rawCodeData)
+            setResolvedPaths([[{ path: path.join(MATLAB_FOLDER, 'plot.m'), isMatlabFunction: true }]])
+
+            const diagnostics = await analyzer.analyze(FILE_URI)
+
+            const functionInfo = fileInfoIndex.codeInfoCache.get(FILE_URI)?.globalScopeInfo.functionScopes.values().next().value
+            assert.deepStrictEqual(diagnostics[0].range, functionInfo?.functionScopeInfo?.declarationNameId.range)
+        })
+
+        it('should not report files which do not conflict with other files', async () => {
+            setResolvedPaths([[{ path: FILE_PATH, isMatlabFunction: false }]])
+
+            const diagnostics = await analyzer.analyze(FILE_URI)
+
+            assert.deepStrictEqual(diagnostics, [])
+        })
+
+        it('should not check files in package, class, or private folders', async () => {
+            for (const folder of ['+pkg', '@MyClass', 'private']) {
+                const uri = URI.file(path.join(WORKSPACE_FOLDER, folder, 'plot.m')).toString()
+                assert.deepStrictEqual(await analyzer.analyze(uri), [])
+            }
+
+            sinon.assert.notCalled(mockMvm.feval)
+        })
+
+        it('should not report conflicts when MATLAB is not available', async () => {
+            mockMvm.isReady.returns(false)
+
+            const diagnostics = await analyzer.analyze(FILE_URI)
+
+            assert.deepStrictEqual(diagnostics, [])
+            sinon.assert.notCalled(mockMvm.feval)
+        })
+    })
+
+    describe('#findNameConflicts', () => {
+        it('should resolve all files in a single request', async () => {
+            const otherUri = URI.file(path.join(WORKSPACE_FOLDER, 'myFunction.m')).toString()
+            setResolvedPaths([
+                [{ path: path.join(MATLAB_FOLDER, 'plot.m'), isMatlabFunction: true }],
+                []
+            ])
+
+            const conflicts = await analyzer.findNameConflicts([FILE_URI, otherUri])
+
+            sinon.assert.calledOnce(mockMvm.feval)
+            assert.deepStrictEqual(mockMvm.feval.firstCall.args[2][0].mwdata, ['plot', 'myFunction'])
+            assert.deepStrictEqual(conflicts.map(conflict => [conflict.uri, conflict.name, conflict.isShadowing]), [[FILE_URI, 'plot', true]])
+        })
+    })
+})
@@ -0,0 +1,117 @@
+// Copyright 2026 The MathWorks, Inc.
+import assert from 'assert'
+
+import { findUnusedSuppressions, getUnusedSuppressionLintResults, UNUSED_SUPPRESSION_ID } from '../../../src/providers/linting/UnusedSuppressions'
+
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range, TextEdit } from 'vscode-languageserver'
+
+describe('UnusedSuppressions', () => {
+    const createDiagnostic = (line: number, id: string): Diagnostic => {
+        return Diagnostic.create(Range.create(line, 0, line, 1), 'Message', DiagnosticSeverity.Warning, id, 'MATLAB')
+    }
+
+    describe('#findUnusedSuppressions', () => {
+        it('should find pragmas which suppress all messages on lines without messages', () => {
+            const code = 'x = 1 %#ok\ny = 2 %#ok'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [createDiagnostic(0, 'NOPTS')])
+
+            assert.deepStrictEqual(unusedSuppressions, [{
+                range: Range.create(1, 6, 1, 10),
+                ids: [],
+                edit: TextEdit.del(Range.create(1, 5, 1, 10))
+            }])
+        })
+
+        it('should find pragmas whose message IDs are not reported', () => {
+            const code = 'x = 1 %#ok<NOPTS>\ny = 2; %#ok<NOPTS,NASGU>'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [createDiagnostic(0, 'NOPTS')])
+
+            assert.deepStrictEqual(unusedSuppressions, [{
+                range: Range.create(1, 7, 1, 24),
+                ids: ['NOPTS', 'NASGU'],
+                edit: TextEdit.del(Range.create(1, 6, 1, 24))
+            }])
+        })
+
+        it('should find individual unnecessary message IDs', () => {
+            const code = 'x = 1 %#ok<NASGU,NOPTS>\ny = 2 %#ok<NOPTS,NASGU>'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [createDiagnostic(0, 'NOPTS'), createDiagnostic(1, 'NOPTS')])
+
+            assert.deepStrictEqual(unusedSuppressions, [
+                { range: Range.create(0, 11, 0, 16), ids: ['NASGU'], edit: TextEdit.del(Range.create(0, 11, 0, 17)) },
+                { range: Range.create(1, 17, 1, 22), ids: ['NASGU'], edit: TextEdit.del(Range.create(1, 16, 1, 22)) }
+            ])
+        })
+
+        it('should apply file-wide suppressions to the entire file', () => {
+            const code = 'x = 1\n%#ok<*NOPTS,*AGROW>'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [createDiagnostic(0, 'NOPTS')])
+
+            assert.deepStrictEqual(unusedSuppressions, [
+                { range: Range.create(1, 12, 1, 18), ids: ['*AGROW'], edit: TextEdit.del(Range.create(1, 11, 1, 18)) }
+            ])
+        })
+
+        it('should apply pragmas to each line of a continued statement', () => {
+            const code = 'x = [1, ...\n    2] %#ok<NOPTS>'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [createDiagnostic(0, 'NOPTS')])
+
+            assert.deepStrictEqual(unusedSuppressions, [])
+        })
+
+        it('should ignore pragma text within character vectors and strings', () => {
+            const code = 'x = \'%#ok\';\ny = "it""s %#ok";\nz = x\' %#ok'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [])
+
+            assert.deepStrictEqual(unusedSuppressions.map(unusedSuppression => unusedSuppression.range), [Range.create(2, 7, 2, 11)])
+        })
+
+        it('should ignore pragma text within block comments', () => {
+            const code = '%{\n%#ok<NOPTS>\n%}\nx = [1 \'%#ok\']'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [])
+
+            assert.deepStrictEqual(unusedSuppressions, [])
+        })
+
+        it('should remove lines containing only a pragma', () => {
+            const code = '%#ok<*NOPTS>\nx = 1;'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [])
+
+            assert.deepStrictEqual(unusedSuppressions[0].edit, TextEdit.del(Range.create(0, 0, 1, 0)))
+        })
+
+        it('should keep the remainder of a comment following a pragma', () => {
+            const code = 'x = 1; %#ok<NOPTS> Explanation'
+
+            const unusedSuppressions = findUnusedSuppressions(code, [])
+
+            assert.deepStrictEqual(unusedSuppressions[0].edit, TextEdit.replace(Range.create(0, 7, 0, 18), '%'))
+        })
+    })
+
+    describe('#getUnusedSuppressionLintResults', () => {
+        it('should create unnecessary diagnostics with code actions removing the pragmas', () => {
+            const uri = 'file:///path/to/test.m'
+
+            const lintResults = getUnusedSuppressionLintResults(uri, 'x = 1; %#ok<NOPTS>', [])
+
+            assert.strictEqual(lintResults.diagnostics.length, 1)
+            const diagnostic = lintResults.diagnostics[0]
+            assert.strictEqual(diagnostic.code, UNUSED_SUPPRESSION_ID)
+            assert.strictEqual(diagnostic.message, 'Unnecessary %#ok suppression of NOPTS.')
+            assert.deepStrictEqual(diagnostic.tags, [DiagnosticTag.Unnecessary])
+
+            assert.strictEqual(lintResults.codeActions.length, 1)
+            assert.deepStrictEqual(lintResults.codeActions[0].diagnostics, [diagnostic])
+            assert.deepStrictEqual(lintResults.codeActions[0].edit, { changes: { [uri]: [TextEdit.del(Range.create(0, 6, 0, 18))] } })
+        })
+    })
+})
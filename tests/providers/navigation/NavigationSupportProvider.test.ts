@@ -0,0 +1,170 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { DocumentSymbol, Range, SymbolInformation, SymbolKind, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import NavigationSupportProvider from '../../../src/providers/navigation/NavigationSupportProvider'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import { RequestType } from '../../../src/indexing/SymbolSearchService'
+import ClientConnection from '../../../src/ClientConnection'
+import getMockConnection from '../../mocks/Connection.mock'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('NavigationSupportProvider', () => {
+    const resourceFilePathPrefix = '../../indexing/rawCodeDataResourceFiles'
+
+    const CLASS_URI = 'file:///path/to/%40MyClass/MyClass.m'
+    const PACKAGE_FUNCTION_URI = 'file:///path/to/%2Bpkg/%2Bsub/fun.m'
+
+    let MyClass_rawCodeData: CodeInfo
+    let F_1_rawCodeData: CodeInfo
+    let F_3_rawCodeData: CodeInfo
+
+    let matlabLifecycleManager: MatlabLifecycleManager
+    let fileInfoIndex: FileInfoIndex
+    let documentIndexer: DocumentIndexer
+    let navigationSupportProvider: NavigationSupportProvider
+
+    before(() => {
+        ClientConnection._setConnection(getMockConnection())
+
+        MyClass_rawCodeData = require(`${resourceFilePathPrefix}/@MyClass/MyClass.json`)
+        F_1_rawCodeData = require(`${resourceFilePathPrefix}/improvedCodeAnalysisSpecCases/functionCases/F_1.json`)
+        F_3_rawCodeData = require(`${resourceFilePathPrefix}/improvedCodeAnalysisSpecCases/functionCases/F_3.json`)
+    })
+
+    after(() => {
+        ClientConnection._clearConnection()
+    })
+
+    beforeEach(() => {
+        const mockMvm = getMockMvm()
+        matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+        documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+
+        navigationSupportProvider = new NavigationSupportProvider(
+            matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, new PathResolver(mockMvm)
+        )
+
+        fileInfoIndex.parseAndStoreCodeInfo(CLASS_URI, MyClass_rawCodeData)
+        fileInfoIndex.parseAndStoreCodeInfo(PACKAGE_FUNCTION_URI, { ...F_1_rawCodeData, package: 'pkg.sub' })
+    })
+
+    describe('#handleWorkspaceSymbol', () => {
+        const search = (query: string): SymbolInformation[] => {
+            return navigationSupportProvider.handleWorkspaceSymbol({ query }, RequestType.WorkspaceSymbol)
+        }
+
+        it('should find classes, methods, properties, and enumerations', () => {
+            assert.deepStrictEqual(search('MyClass')[0], SymbolInformation.create('MyClass', SymbolKind.Class, Range.create(0, 9, 0, 16), CLASS_URI))
+            assert.deepStrictEqual(search('myMethod')[0], SymbolInformation.create('myMethod', SymbolKind.Method, Range.create(18, 17, 18, 25), CLASS_URI, 'MyClass'))
+            assert.deepStrictEqual(search('ConstantProperty')[0], SymbolInformation.create('ConstantProperty', SymbolKind.Property, Range.create(6, 8, 6, 24), CLASS_URI, 'MyClass'))
+            assert.ok(search('A').some(symbol => symbol.name === 'A' && symbol.kind === SymbolKind.EnumMember))
+        })
+
+        it('should match queries fuzzily', () => {
+            const result = search('cnstprp')
+
+            assert.strictEqual(result.length, 1)
+            assert.strictEqual(result[0].name, 'ConstantProperty')
+        })
+
+        it('should match package-qualified queries', () => {
+            const result = search('pkg.sub.fun')
+
+            assert.strictEqual(result.length, 1)
+            assert.deepStrictEqual(result[0], SymbolInformation.create('fun', SymbolKind.Function, Range.create(0, 9, 0, 12), PACKAGE_FUNCTION_URI, 'pkg.sub'))
+        })
+
+        it('should match class-qualified queries', () => {
+            const result = search('MyClass.myMeth')
+
+            assert.strictEqual(result[0].name, 'myMethod')
+        })
+
+        it('should return no symbols when nothing matches', () => {
+            assert.deepStrictEqual(search('zzz'), [])
+        })
+    })
+
+    describe('#handleDocumentSymbol', () => {
+        /**
+         * Simplifies document symbols to their names and children, for comparison
+         */
+        interface SymbolTree {
+            name: string
+            children: SymbolTree[]
+        }
+        const toSymbolTree = (symbol: DocumentSymbol): SymbolTree => ({
+            name: symbol.name,
+            children: (symbol.children ?? []).map(toSymbolTree)
+        })
+        const leaf = (name: string): SymbolTree => ({ name, children: [] })
+
+        let documentManager: TextDocuments<TextDocument>
+
+        const getDocumentSymbols = async (uri: string, isHierarchical: boolean): Promise<SymbolInformation[] | DocumentSymbol[]> => {
+            sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, ''))
+            return await navigationSupportProvider.handleDocumentSymbol(uri, documentManager, RequestType.DocumentSymbol, isHierarchical)
+        }
+
+        beforeEach(() => {
+            sinon.stub(matlabLifecycleManager, 'isMatlabConnected').returns(true)
+            sinon.stub(matlabLifecycleManager, 'getMatlabConnection').resolves({} as any)
+            sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+            documentManager = new TextDocuments(TextDocument)
+        })
+
+        afterEach(() => {
+            sinon.restore()
+        })
+
+        it('should return flat symbols by default', async () => {
+            const result = await getDocumentSymbols(CLASS_URI, false) as SymbolInformation[]
+
+            assert.ok(result.every(symbol => symbol.location.uri === CLASS_URI))
+            assert.ok(result.some(symbol => symbol.name === 'myMethod'))
+        })
+
+        it('should nest class members within their blocks', async () => {
+            const result = await getDocumentSymbols(CLASS_URI, true) as DocumentSymbol[]
+
+            assert.deepStrictEqual(result.map(toSymbolTree), [{
+                name: 'MyClass',
+                children: [
+                    { name: 'properties', children: [leaf('Prop')] },
+                    { name: 'properties (Constant)', children: [leaf('ConstantProperty')] },
+                    { name: 'enumeration', children: [leaf('A'), leaf('B')] },
+                    { name: 'enumeration', children: [leaf('C'), leaf('D')] },
+                    { name: 'methods', children: [leaf('myMethod')] },
+                    leaf('methods (Static)')
+                ]
+            }])
+
+            // Symbols are selected by their names, or by the keyword for blocks
+            assert.deepStrictEqual(result[0].selectionRange, Range.create(0, 9, 0, 16))
+            assert.deepStrictEqual(result[0].children![1].selectionRange, Range.create(5, 4, 5, 14))
+        })
+
+        it('should nest nested functions within their parent functions', async () => {
+            const uri = 'file:///path/to/F_3.m'
+            fileInfoIndex.parseAndStoreCodeInfo(uri, F_3_rawCodeData)
+
+            const result = await getDocumentSymbols(uri, true) as DocumentSymbol[]
+
+            assert.deepStrictEqual(result.map(toSymbolTree), [
+                leaf('f1'),
+                { name: 'f2', children: [leaf('f3')] }
+            ])
+        })
+    })
+})
@@ -0,0 +1,157 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { Range, SemanticTokens, TextDocuments } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import SemanticTokensProvider, { SEMANTIC_TOKENS_LEGEND } from '../../../src/providers/semanticTokens/SemanticTokensProvider'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+interface DecodedToken {
+    line: number
+    char: number
+    length: number
+    type: string
+    modifiers: string[]
+}
+
+/**
+ * Decodes the relative encoding of semantic tokens into absolute positions
+ */
+function decodeTokens (semanticTokens: SemanticTokens): DecodedToken[] {
+    const result: DecodedToken[] = []
+    let line = 0
+    let char = 0
+
+    for (let i = 0; i < semanticTokens.data.length; i += 5) {
+        const [deltaLine, deltaChar, length, typeIndex, modifierBitset] = semanticTokens.data.slice(i, i + 5)
+        line += deltaLine
+        char = deltaLine === 0 ? char + deltaChar : deltaChar
+
+        result.push({
+            line,
+            char,
+            length,
+            type: SEMANTIC_TOKENS_LEGEND.tokenTypes[typeIndex],
+            modifiers: SEMANTIC_TOKENS_LEGEND.tokenModifiers.filter((_, index) => (modifierBitset & (1 << index)) !== 0)
+        })
+    }
+
+    return result
+}
+
+describe('SemanticTokensProvider', () => {
+    const resourceFilePathPrefix = '../../indexing/rawCodeDataResourceFiles'
+
+    let MyClass_rawCodeData: CodeInfo
+    let S_1_rawCodeData: CodeInfo
+
+    let fileInfoIndex: FileInfoIndex
+    let documentIndexer: DocumentIndexer
+    let documentManager: TextDocuments<TextDocument>
+    let semanticTokensProvider: SemanticTokensProvider
+
+    before(() => {
+        MyClass_rawCodeData = require(`${resourceFilePathPrefix}/@MyClass/MyClass.json`)
+        S_1_rawCodeData = require(`${resourceFilePathPrefix}/improvedCodeAnalysisSpecCases/shadowingCases/S_1.json`)
+    })
+
+    const setup = (uri: string) => {
+        fileInfoIndex = new FileInfoIndex()
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        const indexer = new Indexer(matlabLifecycleManager, getMockMvm(), fileInfoIndex)
+        documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+        documentManager = new TextDocuments(TextDocument)
+        sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, ''))
+
+        semanticTokensProvider = new SemanticTokensProvider(documentIndexer, fileInfoIndex)
+    }
+
+    const teardown = () => {
+        sinon.restore()
+    }
+
+    describe('#handleSemanticTokensRequest', () => {
+        afterEach(() => teardown())
+
+        it('should return no tokens when the document has not been indexed', async () => {
+            const uri = 'file:///S_1.m'
+            setup(uri)
+
+            const result = await semanticTokensProvider.handleSemanticTokensRequest({ textDocument: { uri } }, documentManager)
+
+            assert.deepStrictEqual(result.data, [])
+        })
+
+        it('should distinguish function calls from variable references', async () => {
+            const uri = 'file:///S_1.m'
+            setup(uri)
+            fileInfoIndex.parseAndStoreCodeInfo(uri, S_1_rawCodeData)
+
+            const result = await semanticTokensProvider.handleSemanticTokensRequest({ textDocument: { uri } }, documentManager)
+
+            assert.deepStrictEqual(decodeTokens(result), [
+                { line: 0, char: 0, length: 1, type: 'function', modifiers: [] }, // A();
+                { line: 2, char: 9, length: 1, type: 'function', modifiers: ['declaration'] }, // function A()
+                { line: 5, char: 9, length: 4, type: 'function', modifiers: ['declaration'] }, // function func()
+                { line: 6, char: 4, length: 4, type: 'function', modifiers: [] }, // disp(A);
+                { line: 6, char: 9, length: 1, type: 'variable', modifiers: [] },
+                { line: 7, char: 4, length: 1, type: 'variable', modifiers: ['declaration'] }, // A = 5;
+                { line: 8, char: 4, length: 4, type: 'function', modifiers: [] }, // disp(A);
+                { line: 8, char: 9, length: 1, type: 'variable', modifiers: [] }
+            ])
+        })
+
+        it('should report tokens for class members and parameters', async () => {
+            const uri = 'file:///path/to/%40MyClass/MyClass.m'
+            setup(uri)
+            fileInfoIndex.parseAndStoreCodeInfo(uri, MyClass_rawCodeData)
+
+            const result = await semanticTokensProvider.handleSemanticTokensRequest({ textDocument: { uri } }, documentManager)
+
+            assert.deepStrictEqual(decodeTokens(result), [
+                { line: 0, char: 9, length: 7, type: 'class', modifiers: ['declaration'] }, // MyClass
+                { line: 0, char: 19, length: 5, type: 'class', modifiers: [] }, // Base1
+                { line: 0, char: 27, length: 5, type: 'class', modifiers: [] }, // Base2
+                { line: 0, char: 35, length: 5, type: 'class', modifiers: [] }, // Base3
+                { line: 2, char: 8, length: 4, type: 'property', modifiers: ['declaration'] }, // Prop
+                { line: 6, char: 8, length: 16, type: 'property', modifiers: ['declaration'] }, // ConstantProperty
+                { line: 10, char: 8, length: 1, type: 'enumMember', modifiers: ['declaration'] }, // A
+                { line: 10, char: 11, length: 1, type: 'enumMember', modifiers: ['declaration'] }, // B
+                { line: 14, char: 8, length: 1, type: 'enumMember', modifiers: ['declaration'] }, // C
+                { line: 14, char: 11, length: 1, type: 'enumMember', modifiers: ['declaration'] }, // D
+                { line: 18, char: 17, length: 8, type: 'method', modifiers: ['declaration'] }, // myMethod
+                { line: 18, char: 26, length: 3, type: 'parameter', modifiers: ['declaration'] }, // obj
+                { line: 19, char: 12, length: 4, type: 'function', modifiers: [] }, // disp
+                { line: 19, char: 17, length: 3, type: 'parameter', modifiers: [] } // obj
+            ])
+        })
+    })
+
+    describe('#handleSemanticTokensRangeRequest', () => {
+        afterEach(() => teardown())
+
+        it('should only return tokens within the requested range', async () => {
+            const uri = 'file:///S_1.m'
+            setup(uri)
+            fileInfoIndex.parseAndStoreCodeInfo(uri, S_1_rawCodeData)
+
+            const result = await semanticTokensProvider.handleSemanticTokensRangeRequest(
+                { textDocument: { uri }, range: Range.create(6, 0, 7, 10) }, documentManager
+            )
+
+            assert.deepStrictEqual(decodeTokens(result), [
+                { line: 6, char: 4, length: 4, type: 'function', modifiers: [] },
+                { line: 6, char: 9, length: 1, type: 'variable', modifiers: [] },
+                { line: 7, char: 4, length: 1, type: 'variable', modifiers: ['declaration'] }
+            ])
+        })
+    })
+})
@@ -0,0 +1,176 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+import sinon from 'sinon'
+
+import { Position, Range, SymbolKind, TextDocuments, TypeHierarchyItem } from 'vscode-languageserver'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import FileInfoIndex, { CodeInfo } from '../../../src/indexing/FileInfoIndex'
+import DocumentIndexer from '../../../src/indexing/DocumentIndexer'
+import Indexer from '../../../src/indexing/Indexer'
+import MatlabLifecycleManager from '../../../src/lifecycle/MatlabLifecycleManager'
+import TypeHierarchyProvider from '../../../src/providers/typeHierarchy/TypeHierarchyProvider'
+import PathResolver from '../../../src/providers/navigation/PathResolver'
+import ClientConnection from '../../../src/ClientConnection'
+import getMockConnection from '../../mocks/Connection.mock'
+import getMockMvm from '../../mocks/Mvm.mock'
+
+describe('TypeHierarchyProvider', () => {
+    const resourceFilePathPrefix = '../../indexing/rawCodeDataResourceFiles'
+
+    // C_2.m: "classdef C_2 < OtherClass"
+    const C_2_URI = 'file:///path/to/C_2.m'
+    const BASE_URI = 'file:///path/to/%2Bpkg/Base.m'
+    const DERIVED_URI = 'file:///path/to/Derived.m'
+
+    let C_2_rawCodeData: CodeInfo
+
+    let fileInfoIndex: FileInfoIndex
+    let documentManager: TextDocuments<TextDocument>
+    let typeHierarchyProvider: TypeHierarchyProvider
+
+    /**
+     * Creates code data for a class, based on the code data for C_2.m
+     */
+    const createClassCodeData = (packageName: string, className: string, baseClassName: string): CodeInfo => {
+        const rawCodeData: CodeInfo = JSON.parse(JSON.stringify(C_2_rawCodeData))
+        const classScope = rawCodeData.globalScope.classScope!
+
+        rawCodeData.package = packageName
+        classScope.declarationNameId.name = className
+        rawCodeData.classReferences[0].name = className
+        classScope.baseClasses[0].name = baseClassName
+
+        return rawCodeData
+    }
+
+    const prepare = async (uri: string, position: Position): Promise<TypeHierarchyItem[] | null> => {
+        sinon.stub(documentManager, 'get').returns(TextDocument.create(uri, 'matlab', 1, ''))
+        return await typeHierarchyProvider.handlePrepareTypeHierarchy({ textDocument: { uri }, position }, documentManager)
+    }
+
+    before(() => {
+        ClientConnection._setConnection(getMockConnection())
+        C_2_rawCodeData = require(`${resourceFilePathPrefix}/improvedCodeAnalysisSpecCases/classCases/C_2.json`)
+    })
+
+    after(() => {
+        ClientConnection._clearConnection()
+    })
+
+    beforeEach(() => {
+        const mockMvm = getMockMvm()
+        const matlabLifecycleManager = new MatlabLifecycleManager()
+        fileInfoIndex = new FileInfoIndex()
+        const indexer = new Indexer(matlabLifecycleManager, mockMvm, fileInfoIndex)
+        const documentIndexer = new DocumentIndexer(indexer, fileInfoIndex)
+
+        sinon.stub(matlabLifecycleManager, 'getMatlabConnection').resolves({} as any)
+        sinon.stub(documentIndexer, 'ensureDocumentIndexIsUpdated').resolves()
+
+        documentManager = new TextDocuments(TextDocument)
+
+        typeHierarchyProvider = new TypeHierarchyProvider(
+            matlabLifecycleManager, fileInfoIndex, indexer, documentIndexer, new PathResolver(mockMvm)
+        )
+
+        fileInfoIndex.parseAndStoreCodeInfo(C_2_URI, C_2_rawCodeData)
+        fileInfoIndex.parseAndStoreCodeInfo(BASE_URI, createClassCodeData('pkg', 'Base', 'handle'))
+        fileInfoIndex.parseAndStoreCodeInfo(DERIVED_URI, createClassCodeData('', 'Derived', 'pkg.Base'))
+    })
+
+    afterEach(() => {
+        sinon.restore()
+    })
+
+    describe('#handlePrepareTypeHierarchy', () => {
+        it('should prepare the item for a class declaration', async () => {
+            const result = await prepare(BASE_URI, Position.create(0, 10))
+
+            assert.deepStrictEqual(result, [{
+                name: 'Base',
+                kind: SymbolKind.Class,
+                uri: BASE_URI,
+                range: Range.create(0, 0, 6, 3),
+                selectionRange: Range.create(0, 9, 0, 12),
+                detail: 'Base.m',
+                data: { qualifiedName: 'pkg.Base' }
+            }])
+        })
+
+        it('should prepare the item for a package-qualified base class', async () => {
+            const result = await prepare(DERIVED_URI, Position.create(0, 16))
+
+            assert.strictEqual(result?.length, 1)
+            assert.strictEqual(result[0].uri, BASE_URI)
+            assert.deepStrictEqual(result[0].data, { qualifiedName: 'pkg.Base' })
+        })
+
+        it('should prepare the item for a base class which is not indexed', async () => {
+            const result = await prepare(BASE_URI, Position.create(0, 16))
+
+            assert.strictEqual(result?.length, 1)
+            assert.strictEqual(result[0].name, 'handle')
+            assert.deepStrictEqual(result[0].data, { qualifiedName: 'handle' })
+        })
+
+        it('should return null when there is no class at the position', async () => {
+            const result = await prepare(C_2_URI, Position.create(8, 0))
+
+            assert.strictEqual(result, null)
+        })
+    })
+
+    describe('#handleSupertypes', () => {
+        it('should resolve package-qualified base classes to indexed classes', async () => {
+            const derivedItem = (await prepare(DERIVED_URI, Position.create(0, 10)))![0]
+
+            const result = await typeHierarchyProvider.handleSupertypes({ item: derivedItem })
+
+            assert.deepStrictEqual(result.map(item => [item.name, item.uri]), [['Base', BASE_URI]])
+        })
+
+        it('should report base classes which are not indexed', async () => {
+            const c2Item = (await prepare(C_2_URI, Position.create(0, 10)))![0]
+
+            const result = await typeHierarchyProvider.handleSupertypes({ item: c2Item })
+
+            assert.deepStrictEqual(result.map(item => [item.name, item.uri, item.selectionRange]), [
+                ['OtherClass', C_2_URI, Range.create(0, 15, 0, 25)]
+            ])
+        })
+    })
+
+    describe('#handleSubtypes', () => {
+        it('should find subtypes with package-qualified base classes', async () => {
+            const baseItem = (await prepare(BASE_URI, Position.create(0, 10)))![0]
+
+            const result = typeHierarchyProvider.handleSubtypes({ item: baseItem })
+
+            assert.deepStrictEqual(result.map(item => [item.name, item.uri]), [['Derived', DERIVED_URI]])
+        })
+
+        it('should find subtypes of handle', async () => {
+            const handleItem = (await prepare(BASE_URI, Position.create(0, 16)))![0]
+
+            const result = typeHierarchyProvider.handleSubtypes({ item: handleItem })
+
+            assert.deepStrictEqual(result.map(item => [item.name, item.uri]), [['Base', BASE_URI]])
+        })
+
+        it('should not find subtypes of classes with the same unqualified name in other packages', () => {
+            const result = typeHierarchyProvider.handleSubtypes({
+                item: {
+                    name: 'Base',
+                    kind: SymbolKind.Class,
+                    uri: 'file:///path/to/Base.m',
+                    range: Range.create(0, 0, 6, 3),
+                    selectionRange: Range.create(0, 9, 0, 13),
+                    data: { qualifiedName: 'Base' }
+                }
+            })
+
+            assert.deepStrictEqual(result, [])
+        })
+    })
+})
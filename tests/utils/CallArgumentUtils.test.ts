@@ -0,0 +1,85 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+
+import { CallArgument, getAssignedOutputs, getCallArguments } from '../../src/utils/CallArgumentUtils'
+
+/**
+ * Gets the call arguments for the first call to "fun" in the given text
+ */
+function getArgumentsOfFun (text: string): CallArgument[] | null {
+    return getCallArguments(text, text.indexOf('fun') + 3)
+}
+
+describe('CallArgumentUtils', () => {
+    describe('#getCallArguments', () => {
+        it('should return null when the function is not called with parentheses', () => {
+            assert.strictEqual(getArgumentsOfFun('fun;'), null)
+            assert.strictEqual(getArgumentsOfFun('fun arg'), null)
+        })
+
+        it('should return no arguments for an empty argument list', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('fun()'), [])
+        })
+
+        it('should return the offset and text of each argument', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('x = fun(A, b,  1e-6 ,true);'), [
+                { offset: 8, text: 'A' },
+                { offset: 11, text: 'b' },
+                { offset: 15, text: '1e-6' },
+                { offset: 21, text: 'true' }
+            ])
+        })
+
+        it('should not split arguments on commas within brackets', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('fun([1, 2], g(a, b), {c, d})').map(arg => arg.text), [
+                '[1, 2]', 'g(a, b)', '{c, d}'
+            ])
+        })
+
+        it('should not split arguments on commas or brackets within strings', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('fun(\'a, (b\', "c, ""d)""")').map(arg => arg.text), [
+                '\'a, (b\'', '"c, ""d)"""'
+            ])
+        })
+
+        it('should treat quotes following a value as the transpose operator', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('fun(A\', b\')').map(arg => arg.text), ['A\'', 'b\''])
+        })
+
+        it('should handle calls continued across multiple lines', () => {
+            assert.deepStrictEqual(getArgumentsOfFun('fun(a, ... comment (\n    b)'), [
+                { offset: 4, text: 'a' },
+                { offset: 25, text: 'b' }
+            ])
+        })
+
+        it('should return null when the call is not terminated', () => {
+            assert.strictEqual(getArgumentsOfFun('fun(a, b\nc = 1;'), null)
+            assert.strictEqual(getArgumentsOfFun('fun(a, b % comment'), null)
+        })
+    })
+
+    describe('#getAssignedOutputs', () => {
+        it('should return null when the call is not part of a multiple assignment', () => {
+            assert.strictEqual(getAssignedOutputs('fun(a)', 0), null)
+            assert.strictEqual(getAssignedOutputs('x = fun(a)', 4), null)
+        })
+
+        it('should return the outputs separated by commas or whitespace', () => {
+            assert.deepStrictEqual(getAssignedOutputs('[a, ~ c] = fun(x)', 11), [
+                { offset: 1, text: 'a' },
+                { offset: 4, text: '~' },
+                { offset: 6, text: 'c' }
+            ])
+        })
+
+        it('should not split outputs within brackets', () => {
+            const text = 'y = 1;\n[s.f(1, 2), b{3}] = fun(x)'
+            assert.deepStrictEqual(getAssignedOutputs(text, text.indexOf('fun')), [
+                { offset: 8, text: 's.f(1, 2)' },
+                { offset: 19, text: 'b{3}' }
+            ])
+        })
+    })
+})
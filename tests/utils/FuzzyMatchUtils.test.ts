@@ -0,0 +1,50 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+
+import { fuzzyMatch } from '../../src/utils/FuzzyMatchUtils'
+
+describe('FuzzyMatchUtils', () => {
+    describe('#fuzzyMatch', () => {
+        it('should match everything with an empty pattern', () => {
+            assert.strictEqual(fuzzyMatch('', 'anything'), 0)
+        })
+
+        it('should match when the pattern is a subsequence of the candidate, ignoring case', () => {
+            assert.notStrictEqual(fuzzyMatch('plt', 'plot'), null)
+            assert.notStrictEqual(fuzzyMatch('MYFUN', 'myFunction'), null)
+        })
+
+        it('should not match when characters are missing or out of order', () => {
+            assert.strictEqual(fuzzyMatch('xyz', 'plot'), null)
+            assert.strictEqual(fuzzyMatch('tolp', 'plot'), null)
+        })
+
+        it('should match package-qualified patterns', () => {
+            assert.notStrictEqual(fuzzyMatch('pkg.sub.fun', 'pkg.sub.fun'), null)
+            assert.notStrictEqual(fuzzyMatch('p.s.f', 'pkg.sub.fun'), null)
+            assert.strictEqual(fuzzyMatch('pkg.other.fun', 'pkg.sub.fun'), null)
+        })
+
+        it('should score prefix matches higher than other matches', () => {
+            const prefixScore = fuzzyMatch('comp', 'computeValue')!
+            const otherScore = fuzzyMatch('comp', 'recomputeValue')!
+
+            assert.ok(prefixScore > otherScore)
+        })
+
+        it('should score word boundary matches higher than scattered matches', () => {
+            const boundaryScore = fuzzyMatch('gv', 'getValue')!
+            const scatteredScore = fuzzyMatch('gv', 'gravity')!
+
+            assert.ok(boundaryScore > scatteredScore)
+        })
+
+        it('should score shorter candidates higher when matches are otherwise equivalent', () => {
+            const shortScore = fuzzyMatch('fun', 'fun')!
+            const longScore = fuzzyMatch('fun', 'funs')!
+
+            assert.ok(shortScore > longScore)
+        })
+    })
+})
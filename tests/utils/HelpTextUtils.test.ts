@@ -0,0 +1,101 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+
+import { getHelpText, getMemberHelpText } from '../../src/utils/HelpTextUtils'
+
+describe('HelpTextUtils', () => {
+    describe('#getHelpText', () => {
+        it('should return the comment block following the declaration', () => {
+            const lines = [
+                'function out = fun(in)',
+                '    % FUN Returns the input.',
+                '    %   More details.',
+                '',
+                '    % Not part of the help text',
+                '    out = in;',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 0), 'FUN Returns the input.\n  More details.')
+        })
+
+        it('should account for declarations spanning multiple lines', () => {
+            const lines = [
+                'function out = fun(in1, ...',
+                '    in2)',
+                '    % FUN Adds the inputs.',
+                '    out = in1 + in2;',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 0), 'FUN Adds the inputs.')
+        })
+
+        it('should fall back to the comment block preceding the declaration', () => {
+            const lines = [
+                '% MYCLASS An example class.',
+                '%   Used for testing.',
+                'classdef MyClass',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 2), 'MYCLASS An example class.\n  Used for testing.')
+        })
+
+        it('should handle block comments', () => {
+            const lines = [
+                'function fun()',
+                '%{',
+                'FUN Does nothing.',
+                '%}',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 0), 'FUN Does nothing.')
+        })
+
+        it('should not treat section headers as help text', () => {
+            const lines = [
+                'function fun()',
+                '%% Section',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 0), '')
+        })
+
+        it('should return an empty string when there is no help text', () => {
+            const lines = [
+                'function fun()',
+                '    disp(1)',
+                'end'
+            ]
+
+            assert.strictEqual(getHelpText(lines, 0), '')
+        })
+    })
+
+    describe('#getMemberHelpText', () => {
+        it('should return the comments preceding the member', () => {
+            const lines = [
+                '    properties',
+                '        % The value',
+                '        Value',
+                '    end'
+            ]
+
+            assert.strictEqual(getMemberHelpText(lines, 2), 'The value')
+        })
+
+        it('should return a trailing comment on the same line', () => {
+            const lines = [
+                '    properties',
+                '        Value = 1 % The value',
+                '    end'
+            ]
+
+            assert.strictEqual(getMemberHelpText(lines, 1), 'The value')
+        })
+    })
+})
@@ -0,0 +1,104 @@
+// Copyright 2026 The MathWorks, Inc.
+
+import assert from 'assert'
+
+import { isContinuedFromPreviousLine, isStartOfStatement, tokenize, TokenType } from '../../src/utils/MatlabLexer'
+
+/**
+ * Gets the type and text of each token in the given code
+ */
+function getTokens (code: string): Array<[TokenType, string]> {
+    return tokenize(code).flat().map(token => [token.type, token.text])
+}
+
+describe('MatlabLexer', () => {
+    describe('#tokenize', () => {
+        it('should tokenize keywords, identifiers, numbers, and operators', () => {
+            assert.deepStrictEqual(getTokens('if x >= 1.5e3, y = ~z; end'), [
+                [TokenType.Keyword, 'if'],
+                [TokenType.Identifier, 'x'],
+                [TokenType.Operator, '>='],
+                [TokenType.Number, '1.5e3'],
+                [TokenType.Separator, ','],
+                [TokenType.Identifier, 'y'],
+                [TokenType.Operator, '='],
+                [TokenType.Operator, '~'],
+                [TokenType.Identifier, 'z'],
+                [TokenType.Separator, ';'],
+                [TokenType.Keyword, 'end']
+            ])
+        })
+
+        it('should distinguish transposes from character vectors', () => {
+            assert.deepStrictEqual(getTokens('y = x\' + [a \'b\'] + f(a\')\''), [
+                [TokenType.Identifier, 'y'],
+                [TokenType.Operator, '='],
+                [TokenType.Identifier, 'x'],
+                [TokenType.Operator, '\''],
+                [TokenType.Operator, '+'],
+                [TokenType.OpenBracket, '['],
+                [TokenType.Identifier, 'a'],
+                [TokenType.String, '\'b\''],
+                [TokenType.CloseBracket, ']'],
+                [TokenType.Operator, '+'],
+                [TokenType.Identifier, 'f'],
+                [TokenType.OpenBracket, '('],
+                [TokenType.Identifier, 'a'],
+                [TokenType.Operator, '\''],
+                [TokenType.CloseBracket, ')'],
+                [TokenType.Operator, '\'']
+            ])
+        })
+
+        it('should tokenize strings containing quotes and comment characters', () => {
+            assert.deepStrictEqual(getTokens('s = "say ""%hi"""; c = \'it\'\'s\'; % comment'), [
+                [TokenType.Identifier, 's'],
+                [TokenType.Operator, '='],
+                [TokenType.String, '"say ""%hi"""'],
+                [TokenType.Separator, ';'],
+                [TokenType.Identifier, 'c'],
+                [TokenType.Operator, '='],
+                [TokenType.String, '\'it\'\'s\''],
+                [TokenType.Separator, ';'],
+                [TokenType.Comment, '% comment']
+            ])
+        })
+
+        it('should not treat "end" within brackets or field names as a keyword', () => {
+            const tokens = getTokens('x(end) = s.end;')
+            assert.deepStrictEqual(tokens.filter(([type]) => type === TokenType.Keyword), [])
+        })
+
+        it('should tokenize continuations and block comments', () => {
+            const lines = tokenize('x = 1 + ... comment\n    2;\n%{\nif\n%}\ny = 1;')
+
+            assert.deepStrictEqual(lines.map(tokens => tokens.map(token => token.type)), [
+                [TokenType.Identifier, TokenType.Operator, TokenType.Number, TokenType.Operator, TokenType.Continuation],
+                [TokenType.Number, TokenType.Separator],
+                [TokenType.BlockComment],
+                [TokenType.BlockComment],
+                [TokenType.BlockComment],
+                [TokenType.Identifier, TokenType.Operator, TokenType.Number, TokenType.Separator]
+            ])
+        })
+
+        it('should track the bracket depth across lines', () => {
+            const lines = tokenize('x = [1, 2\n    3, 4];')
+
+            assert.strictEqual(lines[1][0].bracketDepth, 1)
+            assert.strictEqual(lines[1][lines[1].length - 1].bracketDepth, 0)
+        })
+    })
+
+    describe('#isStartOfStatement', () => {
+        it('should identify tokens which begin statements', () => {
+            const lines = tokenize('a = 1; b = [1, 2]\nc = 1 + ...\n    2')
+
+            assert.strictEqual(isStartOfStatement(lines, 0, 0), true)
+            assert.strictEqual(isStartOfStatement(lines, 0, 4), true)
+            assert.strictEqual(isStartOfStatement(lines, 0, 2), false)
+            assert.strictEqual(isStartOfStatement(lines, 2, 0), false)
+            assert.strictEqual(isContinuedFromPreviousLine(lines, 2), true)
+        })
+    })
+})